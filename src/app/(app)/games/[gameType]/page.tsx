@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { findOpenGame, getPlayBalance } from '@/lib/api';
+import { getGameType, isGameTypeOpen, loadGameTypes, type GameTypeInfo } from '@/lib/gameTypes';
+import { routes } from '@/lib/routes';
+import { useGameStore } from '@/store/gameStore';
+import { useSession } from '@/components/SessionProvider';
+import CardSelection from '@/components/CardSelection';
+import LoadingScreen from '@/components/LoadingScreen';
+
+interface CardsPageProps {
+  params: { gameType: string };
+}
+
+export default function CardsPage({ params }: CardsPageProps) {
+  const router = useRouter();
+  const { user, wallet } = useSession();
+  const { currentGameId, selectedGameTypeString, setCurrentGameId, setSelectedGameType, setSelectedGameTypeString, demoMode } = useGameStore();
+  const typeId = decodeURIComponent(params.gameType);
+  const [gameType, setGameType] = useState<GameTypeInfo | null>(() => getGameType(typeId));
+  // Coming from the lobby the store already points at this type's open game
+  const [ready, setReady] = useState(!!gameType && selectedGameTypeString === gameType.type && !!currentGameId);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const openCards = async () => {
+      // A type missing from the cached catalog may be new - check the backend's catalog first
+      const info = getGameType(typeId) ?? (await loadGameTypes()).find((type) => type.type === typeId) ?? null;
+      if (cancelled) return;
+      if (!info || !isGameTypeOpen(info) || getPlayBalance(wallet, demoMode) < info.bet) {
+        router.replace(routes.lobby());
+        return;
+      }
+      setGameType(info);
+      setSelectedGameType(info.bet);
+      setSelectedGameTypeString(info.type);
+      if (ready) return;
+
+      // Reloaded or deep-linked: look up the open game for this stake
+      try {
+        const game = await findOpenGame(info.type, demoMode);
+        if (cancelled) return;
+        if (!game) {
+          router.replace(routes.lobby());
+          return;
+        }
+        setCurrentGameId(game.id);
+        setReady(true);
+      } catch (error) {
+        console.error('Error finding open game:', error);
+        if (!cancelled) router.replace(routes.lobby());
+      }
+    };
+
+    openCards();
+    return () => {
+      cancelled = true;
+    };
+    // Guards entry to a stake once - a balance drop after joining must not bounce the player to the lobby
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [typeId]);
+
+  if (!ready || !gameType) {
+    return <LoadingScreen />;
+  }
+
+  return <CardSelection user={user} wallet={wallet} />;
+}
@@ -0,0 +1,16 @@
+import { Suspense } from 'react';
+import SessionProvider from '@/components/SessionProvider';
+import LoadingScreen from '@/components/LoadingScreen';
+
+// Every game screen needs a Telegram session; /instruction stays outside this group and public
+export default function AppLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <Suspense fallback={<LoadingScreen />}>
+      <SessionProvider>{children}</SessionProvider>
+    </Suspense>
+  )
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useSession } from '@/components/SessionProvider';
+import GameSelection from '@/components/GameSelection';
+
+export default function LobbyPage() {
+  const { user, wallet, refreshWallet } = useSession();
+
+  // Refetch wallet when returning to the lobby (e.g., after a game finishes)
+  useEffect(() => {
+    refreshWallet();
+  }, [refreshWallet]);
+
+  return <GameSelection user={user} wallet={wallet} />;
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { getPlayerCardIds } from '@/lib/api';
+import { routes } from '@/lib/routes';
+import { useGameStore } from '@/store/gameStore';
+import { useSession } from '@/components/SessionProvider';
+import { useTranslation } from '@/hooks/useTranslation';
+import GamePlay from '@/components/GamePlay';
+import LoadingScreen from '@/components/LoadingScreen';
+
+const RETRY_DELAY_MS = 3000;
+
+interface PlayPageProps {
+  params: { gameId: string };
+}
+
+export default function PlayPage({ params }: PlayPageProps) {
+  const router = useRouter();
+  const { user, wallet, setWallet } = useSession();
+  const { currentGameId, selectedCardIds, setCurrentGameId, setSelectedCardIds, clearActiveGame } = useGameStore();
+  const { t } = useTranslation();
+  const gameId = decodeURIComponent(params.gameId);
+  // Coming from card selection the store already holds this game and the player's cards
+  const [ready, setReady] = useState(currentGameId === gameId && selectedCardIds.length > 0);
+  // Bumped to retry a failed check
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (ready) return;
+
+    // Reloaded or shared play URL: only let the player back in if they hold a card in this game
+    let cancelled = false;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    getPlayerCardIds(gameId, user.id)
+      .then((cardIds) => {
+        if (cancelled) return;
+        if (cardIds.length === 0) {
+          console.warn(`⚠️ Not a player in game ${gameId}, returning to lobby`);
+          if (currentGameId === gameId) clearActiveGame();
+          router.replace(routes.lobby());
+          return;
+        }
+        setCurrentGameId(gameId);
+        setSelectedCardIds(cardIds);
+        setReady(true);
+      })
+      .catch((error) => {
+        // Keep the saved game and try again - a failed request doesn't mean the player left
+        console.error('Error checking game cards:', error);
+        if (!cancelled) retryTimer = setTimeout(() => setAttempt((n) => n + 1), RETRY_DELAY_MS);
+      });
+
+    return () => {
+      cancelled = true;
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [gameId, user.id, attempt, ready, currentGameId, router, clearActiveGame, setCurrentGameId, setSelectedCardIds]);
+
+  if (!ready) {
+    return <LoadingScreen message={t('play.loading')} />;
+  }
+
+  // Keyed by game so an auto-joined next game starts from a fresh screen
+  return <GamePlay key={gameId} user={user} wallet={wallet} onWalletUpdate={setWallet} />;
+}
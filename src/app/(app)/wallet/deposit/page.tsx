@@ -0,0 +1,9 @@
+'use client';
+
+import { useSession } from '@/components/SessionProvider';
+import Deposit from '@/components/Deposit';
+
+export default function DepositPage() {
+  const { user, wallet, setWallet } = useSession();
+  return <Deposit user={user} wallet={wallet} onWalletUpdate={setWallet} />;
+}
@@ -0,0 +1,9 @@
+'use client';
+
+import { useSession } from '@/components/SessionProvider';
+import History from '@/components/History';
+
+export default function HistoryPage() {
+  const { user, wallet } = useSession();
+  return <History user={user} wallet={wallet} />;
+}
@@ -0,0 +1,9 @@
+'use client';
+
+import { useSession } from '@/components/SessionProvider';
+import Wallet from '@/components/Wallet';
+
+export default function WalletPage() {
+  const { user, wallet, setWallet } = useSession();
+  return <Wallet user={user} wallet={wallet} onWalletUpdate={setWallet} />;
+}
@@ -0,0 +1,9 @@
+'use client';
+
+import { useSession } from '@/components/SessionProvider';
+import Withdraw from '@/components/Withdraw';
+
+export default function WithdrawPage() {
+  const { user, wallet, setWallet } = useSession();
+  return <Withdraw user={user} wallet={wallet} onWalletUpdate={setWallet} />;
+}
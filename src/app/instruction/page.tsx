@@ -1,11 +1,74 @@
 'use client';
 
+import { BINGO_PATTERNS, maskCells } from '@/lib/bingoPatterns';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { MessageKey } from '@/lib/i18n';
+
+interface Step {
+  label: MessageKey;
+  // May contain {command} - rendered as the bot command to type
+  body: MessageKey;
+  command?: string;
+  important?: boolean;
+}
+
+const DEPOSIT_STEPS: Step[] = [
+  { label: 'guide.stepFirst', body: 'guide.typeCommand', command: '/deposit' },
+  { label: 'guide.depositMethodLabel', body: 'guide.methods' },
+  { label: 'guide.amountLabel', body: 'guide.depositAmount' },
+  { label: 'guide.payLabel', body: 'guide.depositPay' },
+  { label: 'guide.transactionIdLabel', body: 'guide.depositTransactionId' },
+  { label: 'guide.waitLabel', body: 'guide.depositWait' },
+];
+
+const WITHDRAW_STEPS: Step[] = [
+  { label: 'guide.stepFirst', body: 'guide.typeCommand', command: '/withdraw' },
+  { label: 'guide.withdrawDepositLabel', body: 'guide.withdrawDeposit', important: true },
+  { label: 'guide.withdrawMethodLabel', body: 'guide.methods' },
+  { label: 'guide.accountNumberLabel', body: 'guide.withdrawAccountNumber' },
+  { label: 'guide.amountLabel', body: 'guide.withdrawAmount' },
+  { label: 'guide.confirmLabel', body: 'guide.withdrawConfirm' },
+  { label: 'guide.waitLabel', body: 'guide.withdrawWait' },
+];
+
+const TRANSFER_STEPS: Step[] = [
+  { label: 'guide.stepFirst', body: 'guide.typeCommand', command: '/transfer' },
+  { label: 'guide.checkBalanceLabel', body: 'guide.transferBalance' },
+  { label: 'guide.referralLabel', body: 'guide.transferReferral', command: '/referal_code' },
+  { label: 'guide.checkRecipientLabel', body: 'guide.transferRecipient' },
+  { label: 'guide.amountLabel', body: 'guide.transferAmount' },
+  { label: 'guide.confirmLabel', body: 'guide.transferConfirm' },
+];
+
 export default function InstructionPage() {
+  const { t } = useTranslation();
+
+  const renderSteps = (steps: Step[]) => (
+    <ol className="space-y-3 list-decimal list-inside">
+      {steps.map((step, index) => {
+        const [before, after] = t(step.body).split('{command}');
+        return (
+          <li key={index} className="pl-2">
+            <strong>{t(step.label)}</strong>{' '}
+            {step.important && <span className="text-red-300 font-bold">{t('guide.important')} </span>}
+            {before}
+            {after !== undefined && (
+              <>
+                <code className="bg-blue-600 px-2 py-1 rounded">{step.command}</code>
+                {after}
+              </>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+
   return (
     <main className="min-h-screen bg-blue-600 text-white">
       <div className="max-w-4xl mx-auto px-4 py-6 sm:py-8">
         <h1 className="text-2xl sm:text-3xl font-bold text-center mb-6 sm:mb-8 text-yellow-300">
-          መመሪያዎች
+          {t('guide.title')}
         </h1>
 
         <div className="space-y-6 sm:space-y-8">
@@ -16,28 +79,9 @@ export default function InstructionPage() {
                 <path d="M4 4a2 2 0 00-2 2v1a16.94 16.94 0 0012 6 16.94 16.94 0 0012-6V6a2 2 0 00-2-2H4z" />
                 <path fillRule="evenodd" d="M18 9H2v5a2 2 0 002 2h12a2 2 0 002-2V9zM4 13a1 1 0 011-1h1a1 1 0 110 2H5a1 1 0 01-1-1zm5-1a1 1 0 100 2h1a1 1 0 100-2H9z" clipRule="evenodd" />
               </svg>
-              የገንዘብ ማስገቢያ ሂደት (በ6 ቅደም ተከተሎች)
+              {t('guide.depositTitle', { count: DEPOSIT_STEPS.length })}
             </h2>
-            <ol className="space-y-3 list-decimal list-inside">
-              <li className="pl-2">
-                <strong>መጀመሪያ፦</strong> <code className="bg-blue-600 px-2 py-1 rounded">/deposit</code> ብለው ይፃፉ።
-              </li>
-              <li className="pl-2">
-                <strong>የክፍያ መንገድ ይምረጡ፦</strong> በቴሌብር (Telebirr) ወይም በኢትዮጵያ ንግድ ባንክ (CBE)።
-              </li>
-              <li className="pl-2">
-                <strong>መጠን ያስገቡ፦</strong> ከ50 እስከ 1,000 ብር።
-              </li>
-              <li className="pl-2">
-                <strong>ክፍያ ይፈጽሙ፦</strong> በተሰጠው የሂሳብ ቁጥር ላይ ገንዘቡን ያስተላልፉ።
-              </li>
-              <li className="pl-2">
-                <strong>የግብይት መለያ (Transaction ID) ያስገቡ፦</strong> በትክክል ኮፒ አድርገው ይለጥፉ።
-              </li>
-              <li className="pl-2">
-                <strong>ይጠብቁ፦</strong> በአስተዳዳሪው ሲረጋገጥ ቀሪ ሂሳብዎ ይታደሳል።
-              </li>
-            </ol>
+            {renderSteps(DEPOSIT_STEPS)}
           </section>
 
           {/* Withdrawal Process */}
@@ -46,31 +90,9 @@ export default function InstructionPage() {
               <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M4 4a2 2 0 00-2 2v4a2 2 0 002 2V6h10a2 2 0 00-2-2H4zm2 6a2 2 0 012-2h8a2 2 0 012 2v4a2 2 0 01-2 2H8a2 2 0 01-2-2v-4zm6 4a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
               </svg>
-              የገንዘብ ማውጫ ሂደት (በ7 ቅደም ተከተሎች)
+              {t('guide.withdrawTitle', { count: WITHDRAW_STEPS.length })}
             </h2>
-            <ol className="space-y-3 list-decimal list-inside">
-              <li className="pl-2">
-                <strong>መጀመሪያ፦</strong> <code className="bg-blue-600 px-2 py-1 rounded">/withdraw</code> ብለው ይፃፉ።
-              </li>
-              <li className="pl-2">
-                <strong>የገንዘብ ማስገቢያ መጠን፦</strong> <span className="text-red-300 font-bold">አስፈላጊ!</span> ለመውጣት ቢያንስ አንድ ጊዜ ገንዘብ ማስገቢያ ማድረግ አለብዎት።
-              </li>
-              <li className="pl-2">
-                <strong>የወጪ አይነት ይምረጡ፦</strong> በቴሌብር (Telebirr) ወይም በኢትዮጵያ ንግድ ባንክ (CBE)።
-              </li>
-              <li className="pl-2">
-                <strong>የሂሳብ ቁጥር ያስገቡ፦</strong> ገንዘቡን ለመቀበል የሚፈልጉትን የሂሳብ ቁጥር ያስገቡ።
-              </li>
-              <li className="pl-2">
-                <strong>መጠን ያስገቡ፦</strong> ዝቅተኛው 50 ብር፤ ከመውጣት በኋላ ቢያንስ 10 ብር ቀሪ ሂሳብ መቆየት አለበት።
-              </li>
-              <li className="pl-2">
-                <strong>ማረጋገጫ፦</strong> የጠየቁት መጠን ወዲያውኑ ከቀሪ ሂሳብዎ ላይ ይቀነሳል።
-              </li>
-              <li className="pl-2">
-                <strong>ይጠብቁ፦</strong> ጥያቄው በአስተዳዳሪው ተቀባይነት ካገኘ ገንዘቡ ይላክልዎታል፤ ውድቅ ከተደረገ ግን ወደ ሂሳብዎ ይመለሳል።
-              </li>
-            </ol>
+            {renderSteps(WITHDRAW_STEPS)}
           </section>
 
           {/* Transfer Process */}
@@ -80,28 +102,9 @@ export default function InstructionPage() {
                 <path d="M8 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zM15 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0z" />
                 <path d="M3 4a1 1 0 00-1 1v10a1 1 0 001 1h1.05a2.5 2.5 0 014.9 0H10a1 1 0 001-1V5a1 1 0 00-1-1H3zM14 7a1 1 0 00-1 1v6.05A2.5 2.5 0 0115.95 16H17a1 1 0 001-1v-5a1 1 0 00-.293-.707l-2-2A1 1 0 0015 7h-1z" />
               </svg>
-              የገንዘብ ማስተላለፊያ ሂደት (በ6 ቅደም ተከተሎች)
+              {t('guide.transferTitle', { count: TRANSFER_STEPS.length })}
             </h2>
-            <ol className="space-y-3 list-decimal list-inside">
-              <li className="pl-2">
-                <strong>መጀመሪያ፦</strong> <code className="bg-blue-600 px-2 py-1 rounded">/transfer</code> ብለው ይፃፉ።
-              </li>
-              <li className="pl-2">
-                <strong>ቀሪ ሂሳብዎን ያረጋግጡ፦</strong> ቀሪ ሂሳብዎ በራስ-ሰር ይታያል።
-              </li>
-              <li className="pl-2">
-                <strong>የተቀባዩን የሪፈራል ኮድ (Referral Code) ያስገቡ፦</strong> የጓደኛዎን ኮድ ይጠይቁ (የእርስዎን ለማግኘት <code className="bg-blue-600 px-2 py-1 rounded">/referal_code</code> ብለው ይፃፉ)።
-              </li>
-              <li className="pl-2">
-                <strong>ተቀባዩን ያረጋግጡ፦</strong> ቦቱ የተቀባዩን ስም እና ስልክ ቁጥር ያሳየዎታል።
-              </li>
-              <li className="pl-2">
-                <strong>መጠን ያስገቡ፦</strong> ሊያስተላልፉት የሚፈልጉት መጠን ከቀሪ ሂሳብዎ ያነሰ እና ከዜሮ በላይ መሆን አለበት።
-              </li>
-              <li className="pl-2">
-                <strong>ማረጋገጫ፦</strong> ዝውውሩ ወዲያውኑ ይፈጸማል፤ ለሁለታችሁም የማሳወቂያ መልዕክት ይደርሳችኋል።
-              </li>
-            </ol>
+            {renderSteps(TRANSFER_STEPS)}
           </section>
 
           {/* Bingo Game Instructions */}
@@ -111,47 +114,62 @@ export default function InstructionPage() {
                 <path d="M9 2a1 1 0 000 2h2a1 1 0 100-2H9z" />
                 <path fillRule="evenodd" d="M4 5a2 2 0 012-2 3 3 0 003 3h2a3 3 0 003-3 2 2 0 012 2v11a2 2 0 01-2 2H6a2 2 0 01-2-2V5zm3 4a1 1 0 000 2h.01a1 1 0 100-2H7zm3 0a1 1 0 000 2h3a1 1 0 100-2h-3zm-3 4a1 1 0 100 2h.01a1 1 0 100-2H7zm3 0a1 1 0 100 2h3a1 1 0 100-2h-3z" clipRule="evenodd" />
               </svg>
-              የቢንጎ ጨዋታ አጭር መመሪያ
+              {t('guide.bingoTitle')}
             </h2>
             <div className="space-y-4">
               <div>
-                <h3 className="font-bold text-lg mb-2 text-yellow-200">1. ጨዋታ ምርጫ</h3>
-                <p className="pl-2">ከ G1–G7 ይምረጡ (ከ5–200 ብር)።</p>
-                <p className="pl-2">በቂ ሂሳብ መኖርዎን እና የጨዋታውን ሁኔታ ያረጋግጡ።</p>
+                <h3 className="font-bold text-lg mb-2 text-yellow-200">1. {t('guide.gameChoiceTitle')}</h3>
+                <p className="pl-2">{t('guide.gameChoicePick')}</p>
+                <p className="pl-2">{t('guide.gameChoiceCheck')}</p>
               </div>
 
               <div>
-                <h3 className="font-bold text-lg mb-2 text-yellow-200">2. ካርድ ምርጫ</h3>
-                <p className="pl-2">አረንጓዴ፦ የሚመረጥ | ቀይ፦ የተያዘ።</p>
-                <p className="pl-2">ከ100 ካርዶች ውስጥ የሚወዱትን ይምረጡ።</p>
+                <h3 className="font-bold text-lg mb-2 text-yellow-200">2. {t('guide.cardChoiceTitle')}</h3>
+                <p className="pl-2">{t('guide.cardChoiceColors')}</p>
+                <p className="pl-2">{t('guide.cardChoicePick')}</p>
               </div>
 
               <div>
-                <h3 className="font-bold text-lg mb-2 text-yellow-200">3. አጨዋወት</h3>
-                <p className="pl-2">ቁጥሮች ሲጠሩ በካርድዎ ላይ ካሉ ይጫኑ (ምልክት ያድርጉ)።</p>
-                <p className="pl-2">የመሃል ቁጥር (#) ሁልጊዜ ነጻ ስጦታ ነው።</p>
+                <h3 className="font-bold text-lg mb-2 text-yellow-200">3. {t('guide.playTitle')}</h3>
+                <p className="pl-2">{t('guide.playMark')}</p>
+                <p className="pl-2">{t('guide.playFree')}</p>
               </div>
 
               <div>
-                <h3 className="font-bold text-lg mb-2 text-yellow-200">4. ቢንጎ ለማለት</h3>
-                <p className="pl-2">5 ቁጥሮች በመስመር (አግድም፣ ቀጥ፣ ወይም ሰያፍ) ሲሞሉ "Bingo" ይጫኑ።</p>
-                <p className="pl-2">ወይም 4 ማዕዘን ቁጥሮች (corners) ሲሞሉ እንዲሁ "Bingo" ማለት ይችላሉ።</p>
-                <p className="pl-2">ቀድሞ በትክክል የጠራ ተጫዋች ያሸንፋል።</p>
+                <h3 className="font-bold text-lg mb-2 text-yellow-200">4. {t('guide.claimTitle')}</h3>
+                <p className="pl-2">{t('guide.claimWhen')}</p>
+                <p className="pl-2">{t('guide.claimPatterns')}</p>
+                <div className="pl-2 mt-2 grid grid-cols-3 sm:grid-cols-6 gap-3">
+                  {BINGO_PATTERNS.map((pattern) => {
+                    const cells = new Set(maskCells(pattern.masks[0]));
+                    return (
+                      <div key={pattern.id} className="flex flex-col items-center gap-1">
+                        <div className="grid grid-cols-5 gap-px">
+                          {Array.from({ length: 25 }, (_, cell) => (
+                            <div key={cell} className={`w-3 h-3 rounded-sm ${cells.has(cell) ? 'bg-yellow-300' : 'bg-blue-700'}`} />
+                          ))}
+                        </div>
+                        <span className="text-xs font-semibold">{pattern.icon} {t(pattern.name)}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="pl-2">{t('guide.claimFirst')}</p>
               </div>
 
               <div>
-                <h3 className="font-bold text-lg mb-2 text-yellow-200">5. ሽልማት</h3>
-                <p className="pl-2">አሸናፊው ተጫዋቾች በከፈሉት ድምር ልክ ሽልማቱን በቀጥታ ሂሳቡ ላይ ያገኛል።</p>
+                <h3 className="font-bold text-lg mb-2 text-yellow-200">5. {t('guide.prizeTitle')}</h3>
+                <p className="pl-2">{t('guide.prizeBody')}</p>
               </div>
 
               <div>
-                <h3 className="font-bold text-lg mb-2 text-yellow-200">6. ዋና ቁልፎች</h3>
-                <p className="pl-2"><span className="mr-2">🔄</span><strong>Refresh:</strong> መረጃ ለማደስ።</p>
-                <p className="pl-2"><span className="mr-2">🚪</span><strong>Leave:</strong> ለመውጣት (ውርርድ አይመለስም)።</p>
+                <h3 className="font-bold text-lg mb-2 text-yellow-200">6. {t('guide.buttonsTitle')}</h3>
+                <p className="pl-2"><span className="mr-2">🔄</span><strong>{t('play.refresh')}:</strong> {t('guide.buttonRefresh')}</p>
+                <p className="pl-2"><span className="mr-2">🚪</span><strong>{t('play.leave')}:</strong> {t('guide.buttonLeave')}</p>
               </div>
 
               <div>
-                <p className="pl-2"><span className="mr-2">💡</span><strong>ምክር፦</strong> ቁጥሮችን በፍጥነት ይከታተሉ፤ ሳይሞሉ "Bingo" አይበሉ!</p>
+                <p className="pl-2"><span className="mr-2">💡</span><strong>{t('guide.tipLabel')}</strong> {t('guide.tip')}</p>
               </div>
             </div>
           </section>
@@ -1,4 +1,6 @@
 import type { Metadata } from 'next'
+import Script from 'next/script'
+import Notifications from '@/components/Notifications'
 import './globals.css'
 
 export const metadata: Metadata = {
@@ -12,9 +14,15 @@ export default function RootLayout({
   children: React.ReactNode
 }) {
   return (
-    <html lang="en">
-      <body>{children}</body>
+    <html lang="am">
+      <head>
+        {/* Telegram WebApp SDK - provides window.Telegram.WebApp.initData for authentication */}
+        <Script src="https://telegram.org/js/telegram-web-app.js" strategy="beforeInteractive" />
+      </head>
+      <body>
+        {children}
+        <Notifications />
+      </body>
     </html>
   )
 }
-
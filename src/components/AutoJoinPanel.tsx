@@ -0,0 +1,104 @@
+'use client';
+
+import { useGameStore } from '@/store/gameStore';
+import { autoJoinKey, newAutoJoinSettings, type AutoJoinSettings } from '@/lib/autoJoin';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface AutoJoinPanelProps {
+  gameType: string;
+  // The card currently picked in the grid - added to the preferred list
+  selectedCardId: number | null;
+}
+
+// Parse a limit input; empty or non-positive means "no limit"
+const parseLimit = (value: string): number | null => {
+  const limit = Number(value);
+  return value.trim() !== '' && Number.isFinite(limit) && limit > 0 ? limit : null;
+};
+
+// Opt-in "keep playing" for a stake: the play screen joins the next game with these cards
+export default function AutoJoinPanel({ gameType, selectedCardId }: AutoJoinPanelProps) {
+  const { autoJoin, setAutoJoin, demoMode } = useGameStore();
+  const key = autoJoinKey(gameType, demoMode);
+  const settings = autoJoin[key];
+  const { t, formatCurrency } = useTranslation();
+
+  const update = (change: Partial<AutoJoinSettings>) => {
+    if (settings) setAutoJoin(key, { ...settings, ...change });
+  };
+
+  if (!settings) {
+    return (
+      <button
+        onClick={() => selectedCardId && setAutoJoin(key, newAutoJoinSettings(selectedCardId, demoMode))}
+        disabled={!selectedCardId}
+        className="w-full max-w-[360px] mx-auto mb-3 py-2 rounded-lg font-bold text-sm border-2 border-dashed border-blue-300 text-blue-100 hover:bg-blue-500 disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        <span>🔁</span>
+        <span>{selectedCardId ? t('autoJoin.enable') : t('autoJoin.pickCard')}</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-[360px] mx-auto mb-3 bg-blue-700 border-2 border-green-400 rounded-lg p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-green-300">🔁 {t('autoJoin.title')}</span>
+        <button onClick={() => setAutoJoin(key, null)} className="text-red-300 font-bold hover:text-red-200">
+          {t('autoJoin.stop')}
+        </button>
+      </div>
+
+      {/* Preferred card first, the rest are fallbacks when it is taken */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        {settings.cardIds.map((cardId, index) => (
+          <span key={cardId} className={`${index === 0 ? 'bg-red-500' : 'bg-blue-500'} px-2 py-0.5 rounded font-bold flex items-center gap-1`}>
+            #{cardId}
+            {settings.cardIds.length > 1 && (
+              <button onClick={() => update({ cardIds: settings.cardIds.filter((id) => id !== cardId) })} className="text-white/70 hover:text-white">
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        {selectedCardId && !settings.cardIds.includes(selectedCardId) && (
+          <button
+            onClick={() => update({ cardIds: [...settings.cardIds, selectedCardId] })}
+            className="px-2 py-0.5 rounded border border-blue-300 text-blue-100 hover:bg-blue-500"
+          >
+            + #{selectedCardId}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-blue-200 text-xs">{t('autoJoin.rounds')}</span>
+          <input
+            type="number"
+            min={1}
+            value={settings.maxRounds ?? ''}
+            onChange={(e) => update({ maxRounds: parseLimit(e.target.value) })}
+            placeholder={t('autoJoin.noLimit')}
+            className="bg-white text-gray-900 px-2 py-1 rounded font-semibold"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-blue-200 text-xs">{t('autoJoin.spendLimit')}</span>
+          <input
+            type="number"
+            min={1}
+            value={settings.spendCap ?? ''}
+            onChange={(e) => update({ spendCap: parseLimit(e.target.value) })}
+            placeholder={t('autoJoin.noLimit')}
+            className="bg-white text-gray-900 px-2 py-1 rounded font-semibold"
+          />
+        </label>
+      </div>
+
+      <p className="text-blue-200 text-xs">
+        {t('autoJoin.progress', { count: settings.rounds, spent: formatCurrency(settings.spent) })}
+      </p>
+    </div>
+  );
+}
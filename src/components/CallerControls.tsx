@@ -0,0 +1,46 @@
+'use client';
+
+import { callerAvailable, setAudioSettings, VOICE_PACKS } from '@/lib/audioCaller';
+import { useAudioCaller } from '@/hooks/useAudioCaller';
+import { useTranslation } from '@/hooks/useTranslation';
+
+// Mute, volume and voice pack for the number caller - sits in the play header
+export default function CallerControls() {
+  const { pack, volume, muted } = useAudioCaller();
+  const { t } = useTranslation();
+
+  if (!callerAvailable) return null;
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <button
+        onClick={() => setAudioSettings({ muted: !muted })}
+        className="text-base leading-none"
+        aria-label={muted ? t('caller.unmute') : t('caller.mute')}
+      >
+        {muted ? '🔇' : '🔊'}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.1}
+        value={volume}
+        onChange={(e) => setAudioSettings({ volume: Number(e.target.value), muted: false })}
+        disabled={muted}
+        className="w-14 sm:w-20 accent-yellow-300 disabled:opacity-50"
+        aria-label={t('caller.volume')}
+      />
+      <button
+        onClick={() => {
+          const index = VOICE_PACKS.findIndex((option) => option.value === pack);
+          setAudioSettings({ pack: VOICE_PACKS[(index + 1) % VOICE_PACKS.length].value });
+        }}
+        className="bg-blue-600 px-1.5 py-0.5 rounded font-bold text-[10px] sm:text-xs"
+        aria-label={t('caller.language')}
+      >
+        {VOICE_PACKS.find((option) => option.value === pack)?.label}
+      </button>
+    </div>
+  );
+}
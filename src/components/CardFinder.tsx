@@ -0,0 +1,80 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { parseNumberList, findCardsWithNumbers } from '@/lib/cardSearch';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface CardFinderProps {
+  takenCards: Set<number>;
+  selectedCardIds: number[];
+  // Show the card in the grid (and pick it)
+  onPick: (cardId: number) => void;
+}
+
+// "Cards with my numbers" - find cards holding numbers the player cares about (birthdays and the like)
+export default function CardFinder({ takenCards, selectedCardIds, onPick }: CardFinderProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState('');
+
+  const numbers = useMemo(() => parseNumberList(input), [input]);
+  const matches = useMemo(() => findCardsWithNumbers(numbers), [numbers]);
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="w-full max-w-[360px] mx-auto mb-2 py-1.5 rounded-lg font-bold text-xs sm:text-sm border-2 border-dashed border-blue-300 text-blue-100 hover:bg-blue-500 flex items-center justify-center gap-2"
+      >
+        <span>🔎</span>
+        <span>{t('cards.findByNumbers')}</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-[360px] mx-auto mb-2 bg-blue-700 border-2 border-blue-400 rounded-lg p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-yellow-300">🔎 {t('cards.findByNumbers')}</span>
+        <button onClick={() => setOpen(false)} className="text-blue-200 font-bold hover:text-white" aria-label={t('common.close')}>
+          ×
+        </button>
+      </div>
+
+      <input
+        type="text"
+        inputMode="numeric"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder={t('cards.numbersPlaceholder')}
+        className="w-full bg-blue-600 border border-blue-400 rounded px-2 py-1.5 text-white placeholder-blue-300 outline-none focus:border-yellow-300"
+      />
+      <p className="text-blue-200 text-xs">{t('cards.numbersHint')}</p>
+
+      {numbers.length > 0 && (
+        matches.length > 0 ? (
+          <div className="flex flex-wrap gap-1.5">
+            {matches.map(({ cardId, matched }) => {
+              const isSelected = selectedCardIds.includes(cardId);
+              const isTaken = takenCards.has(cardId) && !isSelected;
+              return (
+                <button
+                  key={cardId}
+                  onClick={() => onPick(cardId)}
+                  title={matched.join(', ')}
+                  className={`${
+                    isSelected ? 'bg-red-500' : matched.length === numbers.length ? 'bg-green-500 hover:bg-green-600' : 'bg-blue-500 hover:bg-blue-600'
+                  } ${isTaken ? 'opacity-50 line-through' : ''} px-2 py-0.5 rounded font-bold`}
+                >
+                  #{cardId} <span className="font-normal opacity-80">{t('cards.matchCount', { matched: matched.length, count: numbers.length })}</span>
+                </button>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-blue-200 text-xs">{t('cards.noMatches')}</p>
+        )
+      )}
+    </div>
+  );
+}
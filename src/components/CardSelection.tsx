@@ -1,16 +1,32 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { useSearchParams } from 'next/navigation';
-import { API_URL, getGameState, getGames, calculatePotentialWin, checkUserInGame, getPlayerCardId, type User, type Wallet, type Game } from '@/lib/api';
+import { useState, useEffect, useRef, useReducer } from 'react';
+import { useAppRouter } from '@/hooks/useAppRouter';
+import { getGameState, getGames, joinGame, toApiError, calculatePotentialWin, checkUserInGame, getPlayerCardIds, getPlayBalance, type User, type Wallet, type Game } from '@/lib/api';
 import { useGameStore } from '@/store/gameStore';
-import { useGameWebSocket, type WebSocketMessage } from '@/hooks/useSocket';
-import axios from 'axios';
+import { useGameEvents, type GameEvent } from '@/hooks/useSocket';
+import { gameReducer, emptyGameSnapshot } from '@/lib/gameState';
+import { serverNow } from '@/lib/clock';
+import { useGameResync } from '@/hooks/useGameResync';
 import { cardData, getCardData } from '@/lib/cardData';
+import { pickRandomCard } from '@/lib/cardSearch';
+import { loadFavoriteCards, saveFavoriteCards, toggleFavoriteCard, firstFreeFavorite } from '@/lib/favoriteCards';
+import { routes } from '@/lib/routes';
+import { haptic } from '@/lib/telegram';
+import { toast } from '@/lib/notifications';
+import { useTelegramBackButton, useTelegramMainButton } from '@/hooks/useTelegramButtons';
+import { useTranslation } from '@/hooks/useTranslation';
+import ResyncedIndicator from './ResyncedIndicator';
+import DemoBadge from './DemoBadge';
+import AutoJoinPanel from './AutoJoinPanel';
+import CardFinder from './CardFinder';
 
 // Generate card IDs from available local card data
 const CARD_IDS = Array.from({ length: cardData.length }, (_, i) => i + 1);
 
+// Cards one player can buy in a single game
+const MAX_CARDS_PER_GAME = 4;
+
 interface CardSelectionProps {
   user: User;
   wallet: Wallet;
@@ -22,22 +38,44 @@ interface CardData {
 }
 
 export default function CardSelection({ user, wallet }: CardSelectionProps) {
-  const searchParams = useSearchParams();
-  const [selectedCardId, setSelectedCardId] = useState<number | null>(null);
+  const router = useAppRouter();
+  const [selectedCardIds, setSelectedCardIds] = useState<number[]>([]);
   const [selectedCardData, setSelectedCardData] = useState<CardData | null>(null);
   const [joining, setJoining] = useState(false);
-  const [game, setGame] = useState<Game | null>(null);
-  const [takenCards, setTakenCards] = useState<Set<number>>(new Set());
+  const [snapshot, dispatch] = useReducer(gameReducer, emptyGameSnapshot);
   const [isUserInGame, setIsUserInGame] = useState<boolean>(false);
+  // Finding a card: the typed card number, whether taken cards are hidden, and the card last jumped to
+  const [cardSearch, setCardSearch] = useState('');
+  const [hideTaken, setHideTaken] = useState(false);
+  const [highlightCardId, setHighlightCardId] = useState<number | null>(null);
+  const cardRefs = useRef<Map<number, HTMLButtonElement>>(new Map());
+  const [favoriteCards, setFavoriteCards] = useState<number[]>(() => loadFavoriteCards(user.id));
+  // The game favorites were last pre-selected for - after that the player's own picks stand
+  const preselectedGameRef = useRef<string | null>(null);
+  // Set once the join went through, so our own cards turning "taken" don't trigger the fallback
+  const joinedRef = useRef(false);
   // Track processed NEW_GAME_AVAILABLE events to prevent duplicates
   const processedGamesRef = useRef<Set<string>>(new Set());
   // Track games currently being fetched to prevent concurrent fetches
   const fetchingGamesRef = useRef<Set<string>>(new Set());
   
-  const { setCurrentView, setSelectedCardId: setStoreCardId, currentGameId, selectedGameType, selectedGameTypeString, setCurrentGameId, selectedCardId: storeCardId } = useGameStore();
+  const { setSelectedCardIds: setStoreCardIds, currentGameId, selectedGameType, selectedGameTypeString, setCurrentGameId, selectedCardIds: storeCardIds, demoMode } = useGameStore();
+
+  const { t, formatCurrency, apiErrorMessage } = useTranslation();
+
+  const game = snapshot.game;
+  const takenCards = new Set(snapshot.takenCards);
+  const balance = getPlayBalance(wallet, demoMode);
+  // Every card costs one bet
+  const bet = selectedGameType || game?.bet_amount || 0;
+  const totalCost = selectedCardIds.length * bet;
 
-  // Connect to WebSocket for real-time updates (by game type - recommended)
-  const socket = useGameWebSocket(selectedGameTypeString, currentGameId);
+  // Subscribe to real-time updates (by game type - recommended, follows the next game automatically)
+  const channel = selectedGameTypeString
+    ? { gameType: selectedGameTypeString, demo: demoMode }
+    : currentGameId
+    ? { gameId: currentGameId }
+    : null;
 
   // Fetch initial game state and check if user is already in game
   useEffect(() => {
@@ -45,22 +83,20 @@ export default function CardSelection({ user, wallet }: CardSelectionProps) {
       if (currentGameId && user?.id) {
         try {
           const gameState = await getGameState(currentGameId);
-          setGame(gameState.game);
-          // Set initial taken cards
-          if (gameState.takenCards && Array.isArray(gameState.takenCards)) {
-            setTakenCards(new Set(gameState.takenCards));
-          }
+          // Set initial game and taken cards
+          dispatch({ type: 'SNAPSHOT', snapshot: gameState, at: serverNow() });
           
+          // Also check if user's cards from store are in taken cards (fallback check)
+          const cardInTaken = storeCardIds.some((id) => gameState.takenCards?.includes(id));
+
           // Check if user is already in the game
-          const userInGame = await checkUserInGame(currentGameId, user.id);
-          setIsUserInGame(userInGame);
-          
-          // Also check if user's card from store is in taken cards (fallback check)
-          if (!userInGame && storeCardId && gameState.takenCards) {
-            const cardInTaken = gameState.takenCards.includes(storeCardId);
-            if (cardInTaken) {
-              setIsUserInGame(true);
-            }
+          try {
+            const userInGame = await checkUserInGame(currentGameId, user.id);
+            setIsUserInGame(userInGame || cardInTaken);
+          } catch (error) {
+            // A failed check doesn't mean "not joined" - only the taken-card fallback can decide here
+            console.error('Error checking if user is in game:', error);
+            if (cardInTaken) setIsUserInGame(true);
           }
         } catch (error) {
           console.error('Error fetching game data:', error);
@@ -72,359 +108,236 @@ export default function CardSelection({ user, wallet }: CardSelectionProps) {
     };
 
     fetchGameData();
-  }, [currentGameId, user?.id, storeCardId]);
+  }, [currentGameId, user?.id, storeCardIds]);
 
-  // Listen to WebSocket messages for real-time updates
+  // A finished/cancelled game can't be joined - clear it and wait for NEW_GAME_AVAILABLE
   useEffect(() => {
-    if (!socket) return;
-
-    const handleMessage = (event: MessageEvent) => {
-      try {
-        const message: WebSocketMessage = JSON.parse(event.data);
-
-        switch (message.event) {
-          case 'INITIAL_STATE':
-            if (message.data.game) {
-              setGame(message.data.game);
-            }
-            // Update taken cards from initial state
-            if (message.data.takenCards && Array.isArray(message.data.takenCards)) {
-              setTakenCards(new Set(message.data.takenCards));
-            }
-            break;
-
-          case 'GAME_STATUS':
-            // Check if this is a FINISHED/CANCELLED status message
-            if (message.data.status === 'FINISHED' || message.data.status === 'CANCELLED') {
-              if (currentGameId) {
-                console.log(`🔄 Game status FINISHED/CANCELLED for gameId=${currentGameId}`);
-                // Clear the game - wait for NEW_GAME_AVAILABLE
-                setGame(null);
-                // Clean up processed games ref
-                processedGamesRef.current.delete(currentGameId);
-                // Clear currentGameId so we can set it to the new game
-                setCurrentGameId(null);
-              }
-              break;
-            }
-            
-            // Regular GAME_STATUS with state update
-            if (message.data.state) {
-              // If state is FINISHED or CANCELLED, clear the game
-              if (message.data.state === 'FINISHED' || message.data.state === 'CANCELLED') {
-                if (currentGameId) {
-                  console.log(`🔄 Game state FINISHED/CANCELLED for gameId=${currentGameId}`);
-                  setGame(null);
-                  processedGamesRef.current.delete(currentGameId);
-                  setCurrentGameId(null);
-                }
-              } else {
-                setGame((prev) => prev ? { 
-                  ...prev, 
-                  state: message.data.state,
-                  player_count: message.data.player_count ?? prev.player_count,
-                  prize_pool: message.data.prize_pool ?? prev.prize_pool
-                } : null);
-              }
-            }
-            break;
-
-          case 'PLAYER_COUNT':
-            if (message.data.count !== undefined) {
-              setGame((prev) => prev ? { ...prev, player_count: message.data.count } : null);
-            }
-            break;
+    if (!snapshot.ended) return;
+    console.log(`🔄 Game ${snapshot.game?.id} ended - waiting for NEW_GAME_AVAILABLE`);
+    if (currentGameId) {
+      // Clean up processed games ref
+      processedGamesRef.current.delete(currentGameId);
+    }
+    dispatch({ type: 'RESET' });
+    // Clear currentGameId so we can set it to the new game
+    setCurrentGameId(null);
+    // Runs when the game ends, not whenever the ids it reads change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [snapshot.ended]);
 
-          case 'PLAYER_JOINED':
-            // Update player count and add card to taken cards
-            setGame((prev) => {
-              if (!prev) return null;
-              
-              let newPlayerCount: number;
-              if (message.data.count !== undefined) {
-                newPlayerCount = message.data.count;
-              } else {
-                newPlayerCount = (prev.player_count || 0) + 1;
-              }
-              
-              return {
-                ...prev,
-                player_count: newPlayerCount,
-                prize_pool: message.data.prize_pool ?? prev.prize_pool,
-              };
+  // Listen to WebSocket messages for real-time updates
+  useGameEvents(channel, (message: GameEvent) => {
+    dispatch({ type: 'EVENT', event: message, at: serverNow() });
+
+    switch (message.event) {
+      case 'PLAYER_JOINED': {
+        // If this is the current user's card, update isUserInGame
+        const joinedCardId = message.data.card_id;
+        if (joinedCardId !== undefined && storeCardIds.includes(joinedCardId) && user?.id && currentGameId) {
+          checkUserInGame(currentGameId, user.id)
+            .then((inGame) => setIsUserInGame(inGame))
+            .catch(() => {
+              // Fallback: if user's card is in taken cards, assume they're in game
+              setIsUserInGame(true);
             });
-            // Add card to taken cards if card_id is provided
-            if (message.data.card_id !== undefined) {
-              setTakenCards((prev) => new Set([...prev, message.data.card_id]));
-              // If this is the current user's card, update isUserInGame
-              if (message.data.card_id === storeCardId && user?.id && currentGameId) {
+        }
+        break;
+      }
+
+      case 'PLAYER_LEFT': {
+        const leftCardId = message.data.card_id;
+        // Refresh taken cards from server to ensure accuracy
+        // The reducer already dropped the leaving player's card - the snapshot restores it if another player has it
+        if (currentGameId) {
+          getGameState(currentGameId)
+            .then((gameState) => {
+              dispatch({ type: 'SNAPSHOT', snapshot: gameState, at: serverNow() });
+              console.log('🔄 Refreshed taken cards after player left:', gameState.takenCards);
+
+              // Re-check if user is still in game
+              if (user?.id) {
                 checkUserInGame(currentGameId, user.id)
-                  .then((inGame) => setIsUserInGame(inGame))
+                  .then((inGame) => {
+                    setIsUserInGame(inGame);
+                    // Fallback: check if user's card is in taken cards
+                    if (!inGame && storeCardIds.some((id) => gameState.takenCards?.includes(id))) {
+                      setIsUserInGame(true);
+                    }
+                  })
                   .catch(() => {
-                    // Fallback: if user's card is in taken cards, assume they're in game
-                    setIsUserInGame(true);
+                    // Fallback: check if user's card is in taken cards
+                    setIsUserInGame(storeCardIds.some((id) => gameState.takenCards?.includes(id)));
                   });
               }
-            }
-            break;
-
-          case 'PLAYER_LEFT':
-            // Update player count when players leave
-            setGame((prev) => {
-              if (!prev) return null;
-              
-              let newPlayerCount: number;
-              if (message.data.count !== undefined) {
-                newPlayerCount = message.data.count;
-              } else {
-                newPlayerCount = Math.max(0, (prev.player_count || 0) - 1);
+            })
+            .catch((err) => {
+              console.error('Error refreshing taken cards after player left:', err);
+              // If user's card was removed, update isUserInGame
+              if (leftCardId !== undefined && storeCardIds.includes(leftCardId) && user?.id) {
+                setIsUserInGame(false);
               }
-              
-              return {
-                ...prev,
-                player_count: newPlayerCount,
-                prize_pool: message.data.prize_pool ?? prev.prize_pool,
-              };
             });
-            
-            // Refresh taken cards from server to ensure accuracy
-            // This ensures the leaving player's card is removed unless another player has it
-            if (currentGameId) {
-              getGameState(currentGameId)
-                .then((gameState) => {
-                  if (gameState.takenCards && Array.isArray(gameState.takenCards)) {
-                    setTakenCards(new Set(gameState.takenCards));
-                    console.log('🔄 Refreshed taken cards after player left:', gameState.takenCards);
-                    
-                    // Re-check if user is still in game
-                    if (user?.id) {
-                      checkUserInGame(currentGameId, user.id)
-                        .then((inGame) => {
-                          setIsUserInGame(inGame);
-                          // Fallback: check if user's card is in taken cards
-                          if (!inGame && storeCardId && gameState.takenCards.includes(storeCardId)) {
-                            setIsUserInGame(true);
-                          }
-                        })
-                        .catch(() => {
-                          // Fallback: check if user's card is in taken cards
-                          if (storeCardId && gameState.takenCards.includes(storeCardId)) {
-                            setIsUserInGame(true);
-                          } else {
-                            setIsUserInGame(false);
-                          }
-                        });
-                    }
-                  }
-                })
-                .catch((err) => {
-                  console.error('Error refreshing taken cards after player left:', err);
-                  // Fallback: Remove card from taken cards if card_id is provided
-                  if (message.data.card_id !== undefined) {
-                    setTakenCards((prev) => {
-                      const newSet = new Set(prev);
-                      newSet.delete(message.data.card_id);
-                      return newSet;
-                    });
-                    // If user's card was removed, update isUserInGame
-                    if (message.data.card_id === storeCardId && user?.id) {
-                      setIsUserInGame(false);
-                    }
-                  }
-                });
-            } else {
-              // Fallback: Remove card from taken cards if card_id is provided and no gameId
-              if (message.data.card_id !== undefined) {
-                setTakenCards((prev) => {
-                  const newSet = new Set(prev);
-                  newSet.delete(message.data.card_id);
-                  return newSet;
-                });
-                // If user's card was removed, update isUserInGame
-                if (message.data.card_id === storeCardId) {
-                  setIsUserInGame(false);
-                }
-              }
-            }
-            break;
-
-          case 'COUNTDOWN':
-            // Countdown updates - game state should already be COUNTDOWN
-            // Could update countdown_ends if needed
-            break;
+        } else if (leftCardId !== undefined && storeCardIds.includes(leftCardId)) {
+          // If user's card was removed, update isUserInGame
+          setIsUserInGame(false);
+        }
+        break;
+      }
 
-          case 'CARDS_TAKEN':
-            // Update taken cards list
-            if (message.data.takenCards && Array.isArray(message.data.takenCards)) {
-              setTakenCards(new Set(message.data.takenCards));
+      case 'NEW_GAME_AVAILABLE':
+        // New game is available - fetch and update currentGameId
+        const processingId = `${selectedGameTypeString}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        console.log(`🎮 [${processingId}] New game available for ${selectedGameTypeString}:`, message.data);
+        if (message.data.gameId && message.data.gameType === selectedGameTypeString) {
+          const gameId = message.data.gameId;
+          
+          // Check if we've already processed this game ID to prevent duplicates
+          if (processedGamesRef.current.has(gameId)) {
+            console.log(`⚠️ [${processingId}] Game ${gameId} already processed for ${selectedGameTypeString}, skipping duplicate`);
+            return;
+          }
+          
+          // Check if we're already fetching this game
+          if (fetchingGamesRef.current.has(gameId)) {
+            console.log(`⚠️ [${processingId}] Game ${gameId} already being fetched for ${selectedGameTypeString}, skipping duplicate fetch`);
+            return;
+          }
+          
+          // Mark as fetching to prevent concurrent fetches
+          fetchingGamesRef.current.add(gameId);
+          
+          // Mark as processing to prevent duplicate processing BEFORE async call
+          processedGamesRef.current.add(gameId);
+          
+          console.log(`📥 [${processingId}] Fetching game state for ${gameId} (${selectedGameTypeString})...`);
+          
+          // Helper function to fetch game with retry logic
+          const fetchGameWithRetry = async (retryCount: number = 0, maxRetries: number = 3): Promise<Game | null> => {
+            const delay = Math.min(1000 * Math.pow(2, retryCount), 3000); // Exponential backoff: 1s, 2s, 3s
+            
+            if (retryCount > 0) {
+              console.log(`⏳ [${processingId}] Retrying fetch (attempt ${retryCount + 1}/${maxRetries + 1}) after ${delay}ms delay...`);
+              await new Promise(resolve => setTimeout(resolve, delay));
             }
-            break;
-
-          case 'NUMBER_DRAWN':
-            // Number drawn - update game state to DRAWING if it's still WAITING or COUNTDOWN
-            setGame((prev) => {
-              if (!prev) return null;
-              
-              // If game is in COUNTDOWN or WAITING state, transition to DRAWING
-              if (prev.state === 'COUNTDOWN' || prev.state === 'WAITING') {
-                console.log(`🔄 Updating state from ${prev.state} to DRAWING (number drawn)`);
-                return { ...prev, state: 'DRAWING' };
+            
+            try {
+              // Try getGameState first
+              const gameState = await getGameState(gameId);
+              if (gameState?.game) {
+                return gameState.game;
               }
-              
-              return prev;
-            });
-            break;
-
-          case 'PLAYER_ELIMINATED':
-            // Player eliminated - could update player count
-            if (message.data.count !== undefined) {
-              setGame((prev) => prev ? { ...prev, player_count: message.data.count } : null);
-            }
-            break;
-
-          case 'WINNER':
-            // Game finished - clear the game and wait for NEW_GAME_AVAILABLE
-            if (currentGameId) {
-              console.log(`🏆 Winner announced for gameId=${currentGameId}`);
-              setGame(null);
-              processedGamesRef.current.delete(currentGameId);
-              setCurrentGameId(null);
-            }
-            break;
-
-          case 'NEW_GAME_AVAILABLE':
-            // New game is available - fetch and update currentGameId
-            const processingId = `${selectedGameTypeString}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-            console.log(`🎮 [${processingId}] New game available for ${selectedGameTypeString}:`, message.data);
-            if (message.data.gameId && message.data.gameType === selectedGameTypeString) {
-              const gameId = message.data.gameId;
-              
-              // Check if we've already processed this game ID to prevent duplicates
-              if (processedGamesRef.current.has(gameId)) {
-                console.log(`⚠️ [${processingId}] Game ${gameId} already processed for ${selectedGameTypeString}, skipping duplicate`);
-                return;
+            } catch (error) {
+              // If getGameState fails, try getGames as fallback
+              if (retryCount < maxRetries) {
+                console.warn(`⚠️ [${processingId}] getGameState failed (attempt ${retryCount + 1}), will retry:`, toApiError(error).message);
+                return fetchGameWithRetry(retryCount + 1, maxRetries);
               }
               
-              // Check if we're already fetching this game
-              if (fetchingGamesRef.current.has(gameId)) {
-                console.log(`⚠️ [${processingId}] Game ${gameId} already being fetched for ${selectedGameTypeString}, skipping duplicate fetch`);
-                return;
+              // Last attempt: try getGames fallback
+              console.warn(`⚠️ [${processingId}] getGameState failed, trying getGames fallback...`);
+              try {
+                const games = await getGames(selectedGameTypeString || undefined, demoMode);
+                const newGame = games.find((g) => g.id === gameId);
+                if (newGame) {
+                  console.log(`✅ [${processingId}] Found new game via getGames fallback`);
+                  return newGame;
+                }
+              } catch (fallbackError) {
+                console.error(`❌ [${processingId}] getGames fallback also failed:`, fallbackError);
               }
               
-              // Mark as fetching to prevent concurrent fetches
-              fetchingGamesRef.current.add(gameId);
-              
-              // Mark as processing to prevent duplicate processing BEFORE async call
-              processedGamesRef.current.add(gameId);
-              
-              console.log(`📥 [${processingId}] Fetching game state for ${gameId} (${selectedGameTypeString})...`);
+              // If still failing and we have retries left, retry
+              if (retryCount < maxRetries) {
+                return fetchGameWithRetry(retryCount + 1, maxRetries);
+              }
               
-              // Helper function to fetch game with retry logic
-              const fetchGameWithRetry = async (retryCount: number = 0, maxRetries: number = 3): Promise<Game | null> => {
-                const delay = Math.min(1000 * Math.pow(2, retryCount), 3000); // Exponential backoff: 1s, 2s, 3s
-                
-                if (retryCount > 0) {
-                  console.log(`⏳ [${processingId}] Retrying fetch (attempt ${retryCount + 1}/${maxRetries + 1}) after ${delay}ms delay...`);
-                  await new Promise(resolve => setTimeout(resolve, delay));
-                }
-                
-                try {
-                  // Try getGameState first
-                  const gameState = await getGameState(gameId);
-                  if (gameState?.game) {
-                    return gameState.game;
-                  }
-                } catch (error: any) {
-                  // If getGameState fails, try getGames as fallback
-                  if (retryCount < maxRetries) {
-                    console.warn(`⚠️ [${processingId}] getGameState failed (attempt ${retryCount + 1}), will retry:`, error.message);
-                    return fetchGameWithRetry(retryCount + 1, maxRetries);
-                  }
-                  
-                  // Last attempt: try getGames fallback
-                  console.warn(`⚠️ [${processingId}] getGameState failed, trying getGames fallback...`);
-                  try {
-                    const games = await getGames(selectedGameTypeString || undefined);
-                    const newGame = games.find((g) => g.id === gameId);
-                    if (newGame) {
-                      console.log(`✅ [${processingId}] Found new game via getGames fallback`);
-                      return newGame;
-                    }
-                  } catch (fallbackError) {
-                    console.error(`❌ [${processingId}] getGames fallback also failed:`, fallbackError);
-                  }
-                  
-                  // If still failing and we have retries left, retry
-                  if (retryCount < maxRetries) {
-                    return fetchGameWithRetry(retryCount + 1, maxRetries);
+              throw error;
+            }
+            
+            return null;
+          };
+          
+          // Fetch with retry logic (handles timing issue where game might not be in DB yet)
+          setTimeout(() => {
+            fetchGameWithRetry()
+              .then((newGame) => {
+                if (newGame) {
+                  console.log(`✅ [${processingId}] Successfully fetched new game ${newGame.id} for ${selectedGameTypeString}`);
+                  // Update currentGameId to the new game
+                  setCurrentGameId(newGame.id);
+                  // Update game state
+                  dispatch({ type: 'GAME', game: newGame, at: serverNow() });
+                  // Set initial taken cards if available
+                  if (newGame.id) {
+                    getGameState(newGame.id)
+                      .then((gameState) => {
+                        dispatch({ type: 'SNAPSHOT', snapshot: gameState, at: serverNow() });
+                      })
+                      .catch((err) => {
+                        console.error('Error fetching taken cards for new game:', err);
+                      });
                   }
-                  
-                  throw error;
+                } else {
+                  console.error(`❌ [${processingId}] Could not fetch new game ${gameId} after all retries`);
+                  // Remove from processed set so we can retry later
+                  processedGamesRef.current.delete(gameId);
+                  fetchingGamesRef.current.delete(gameId);
                 }
-                
-                return null;
-              };
-              
-              // Fetch with retry logic (handles timing issue where game might not be in DB yet)
-              setTimeout(() => {
-                fetchGameWithRetry()
-                  .then((newGame) => {
-                    if (newGame) {
-                      console.log(`✅ [${processingId}] Successfully fetched new game ${newGame.id} for ${selectedGameTypeString}`);
-                      // Update currentGameId to the new game
-                      setCurrentGameId(newGame.id);
-                      // Update game state
-                      setGame(newGame);
-                      // Set initial taken cards if available
-                      if (newGame.id) {
-                        getGameState(newGame.id)
-                          .then((gameState) => {
-                            if (gameState.takenCards && Array.isArray(gameState.takenCards)) {
-                              setTakenCards(new Set(gameState.takenCards));
-                            }
-                          })
-                          .catch((err) => {
-                            console.error('Error fetching taken cards for new game:', err);
-                          });
-                      }
-                    } else {
-                      console.error(`❌ [${processingId}] Could not fetch new game ${gameId} after all retries`);
-                      // Remove from processed set so we can retry later
-                      processedGamesRef.current.delete(gameId);
-                      fetchingGamesRef.current.delete(gameId);
-                    }
-                  })
-                  .catch((error) => {
-                    console.error(`❌ [${processingId}] Failed to fetch new game ${gameId} after all retries:`, error);
-                    // Remove from processed set on error, so we can retry
-                    processedGamesRef.current.delete(gameId);
-                    fetchingGamesRef.current.delete(gameId);
-                  })
-                  .finally(() => {
-                    // Always remove from fetching set when done
-                    fetchingGamesRef.current.delete(gameId);
-                  });
-              }, 1500); // Initial 1.5s delay to ensure backend has committed the game to DB
-            }
-            break;
-
-          default:
-            break;
+              })
+              .catch((error) => {
+                console.error(`❌ [${processingId}] Failed to fetch new game ${gameId} after all retries:`, error);
+                // Remove from processed set on error, so we can retry
+                processedGamesRef.current.delete(gameId);
+                fetchingGamesRef.current.delete(gameId);
+              })
+              .finally(() => {
+                // Always remove from fetching set when done
+                fetchingGamesRef.current.delete(gameId);
+              });
+          }, 1500); // Initial 1.5s delay to ensure backend has committed the game to DB
         }
-      } catch (error) {
-        console.error('Error parsing WebSocket message:', error);
-      }
-    };
+        break;
 
-    socket.addEventListener('message', handleMessage);
+      default:
+        break;
+    }
+  }, () => {
+    // Frames sent while the socket was down are lost - reconcile against the server
+    dispatch({ type: 'STALE' });
+  });
 
-    return () => {
-      socket.removeEventListener('message', handleMessage);
-    };
-  }, [socket, currentGameId, selectedGameTypeString, setCurrentGameId, user, storeCardId]);
+  const showResynced = useGameResync(currentGameId, snapshot, dispatch);
+
+  // Preview the given card (the last picked one), or nothing
+  const showPreview = (cardId: number | undefined) => {
+    const cardNumbers = cardId !== undefined ? getCardData(cardId) : null;
+    setSelectedCardData(cardId !== undefined && cardNumbers ? { id: cardId, numbers: cardNumbers } : null);
+  };
 
   const handleCardClick = (cardId: number) => {
-    setSelectedCardId(cardId);
+    // Tapping a picked card again puts it back
+    if (selectedCardIds.includes(cardId)) {
+      haptic.selection();
+      const remaining = selectedCardIds.filter((id) => id !== cardId);
+      setSelectedCardIds(remaining);
+      showPreview(remaining[remaining.length - 1]);
+      return;
+    }
+
+    if (takenCards.has(cardId)) {
+      haptic.notify('warning');
+      toast.info(t('cards.taken', { id: cardId }));
+      return;
+    }
+
+    if (selectedCardIds.length >= MAX_CARDS_PER_GAME) {
+      haptic.notify('warning');
+      toast.warning(t('cards.maxCards', { count: MAX_CARDS_PER_GAME }));
+      return;
+    }
+
+    haptic.selection();
+    setSelectedCardIds([...selectedCardIds, cardId]);
     
     // Get card data from local storage (fast, no API call)
     const cardNumbers = getCardData(cardId);
@@ -434,58 +347,159 @@ export default function CardSelection({ user, wallet }: CardSelectionProps) {
         numbers: cardNumbers,
       });
     } else {
-      alert('Invalid card ID');
+      toast.error(t('cards.invalidCard'));
+    }
+  };
+
+  // Bring a card into view in the grid and outline it
+  const jumpToCard = (cardId: number) => {
+    setHighlightCardId(cardId);
+    cardRefs.current.get(cardId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleCardSearch = (value: string) => {
+    setCardSearch(value);
+    const cardId = Number(value);
+    if (CARD_IDS.includes(cardId)) {
+      jumpToCard(cardId);
+    } else {
+      setHighlightCardId(null);
     }
   };
 
+  // Show a card found by search and pick it when it is free
+  const pickFoundCard = (cardId: number) => {
+    jumpToCard(cardId);
+    if (!selectedCardIds.includes(cardId) && !takenCards.has(cardId)) {
+      handleCardClick(cardId);
+    }
+  };
+
+  const handleToggleFavorite = (cardId: number) => {
+    haptic.selection();
+    const next = toggleFavoriteCard(favoriteCards, cardId);
+    setFavoriteCards(next);
+    saveFavoriteCards(user.id, next);
+  };
+
+  const handleLuckyPick = () => {
+    const cardId = pickRandomCard(CARD_IDS.filter((id) => !takenCards.has(id) && !selectedCardIds.includes(id)));
+    if (cardId === null) {
+      toast.info(t('cards.noneAvailable'));
+      return;
+    }
+    pickFoundCard(cardId);
+  };
+
   const handleJoinGame = async () => {
-    if (!selectedCardId || !currentGameId) {
-      alert('Please select a card');
+    if (selectedCardIds.length === 0 || !currentGameId) {
+      toast.warning(t('cards.selectCard'));
+      return;
+    }
+
+    if (totalCost > balance) {
+      toast.warning(t('cards.insufficient'));
       return;
     }
 
     if (!user || !user.id) {
-      alert('User information not found');
+      toast.error(t('cards.noUser'));
       return;
     }
 
     setJoining(true);
 
     try {
-      const response = await axios.post(
-        `${API_URL}/api/v1/games/${currentGameId}/join`,
-        {
-          user_id: user.id, // Use user UUID, not telegram_id
-          card_id: selectedCardId,
-        }
-      );
+      const response = await joinGame(currentGameId, {
+        user_id: user.id, // Use user UUID, not telegram_id
+        card_id: selectedCardIds[0],
+        card_ids: selectedCardIds,
+      });
 
-      if (response.data.player) {
-        setStoreCardId(selectedCardId);
-        setCurrentView('play');
+      if (response.player) {
+        joinedRef.current = true;
+        setStoreCardIds(selectedCardIds);
+        // Replace so going back from the game lands on the lobby, not this picker
+        router.replace(routes.play(currentGameId));
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error joining game:', err);
-      const errorMessage = err.response?.data?.error || err.response?.data?.message || 'Failed to join game';
-      alert(errorMessage);
+      haptic.notify('error');
+      toast.error(apiErrorMessage(toApiError(err)));
     } finally {
       setJoining(false);
     }
   };
 
+  const gameOpen = !!game && (game.state === 'WAITING' || game.state === 'COUNTDOWN');
+  const canJoin = gameOpen && selectedCardIds.length > 0 && totalCost <= balance;
+
+  // When a game opens, start from the first favorite that is still free
+  useEffect(() => {
+    if (!game || !gameOpen || isUserInGame || preselectedGameRef.current === game.id) return;
+    preselectedGameRef.current = game.id;
+    if (selectedCardIds.length > 0) return;
+    const cardId = firstFreeFavorite(favoriteCards, takenCards);
+    if (cardId === null) return;
+    console.log(`⭐ Pre-selecting favorite card ${cardId} for game ${game.id}`);
+    setSelectedCardIds([cardId]);
+    showPreview(cardId);
+    // Once per game opening - later changes to the favorites or taken cards must not re-pick
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game?.id, gameOpen, isUserInGame]);
+
+  // A picked card taken by someone else (CARDS_TAKEN / PLAYER_JOINED) before joining moves to the next free favorite
+  useEffect(() => {
+    if (joinedRef.current || joining || isUserInGame) return;
+    const lost = selectedCardIds.filter((id) => takenCards.has(id));
+    if (lost.length === 0) return;
+
+    let next = selectedCardIds.filter((id) => !takenCards.has(id));
+    lost.forEach((cardId) => {
+      const fallback = firstFreeFavorite(favoriteCards, takenCards, next);
+      if (fallback !== null) {
+        next = [...next, fallback];
+        toast.warning(t('favorites.movedTo', { taken: cardId, next: fallback }));
+      } else {
+        toast.warning(t('cards.taken', { id: cardId }));
+      }
+    });
+    haptic.notify('warning');
+    setSelectedCardIds(next);
+    showPreview(next[next.length - 1]);
+    // Only a new taken list can take a picked card away; re-running on selection changes would repeat the toasts
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [snapshot.takenCards]);
+  const nativeBack = useTelegramBackButton(() => router.back(routes.lobby()));
+  const nativeJoin = useTelegramMainButton({
+    text: !gameOpen
+      ? t('cards.pleaseWait')
+      : selectedCardIds.length > 1
+      ? t('cards.joinWithCost', { amount: formatCurrency(totalCost) })
+      : t('cards.join'),
+    onClick: handleJoinGame,
+    enabled: canJoin,
+    progress: joining,
+  });
+
   return (
     <main className="min-h-screen bg-blue-600 text-white flex flex-col">
+      <ResyncedIndicator show={showResynced} />
       {/* Back Button and Balance */}
       <div className="px-2 sm:px-4 py-1.5 sm:py-2 flex items-center justify-between flex-shrink-0 bg-blue-600">
-        <button
-          onClick={() => setCurrentView('selection')}
-          className="hover:text-blue-200 text-white text-sm sm:text-base flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1 sm:py-2 font-bold"
-        >
-          <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-          </svg>
-          <span className="hidden sm:inline">ተመለስ</span>
-        </button>
+        {nativeBack ? (
+          <div></div>
+        ) : (
+          <button
+            onClick={() => router.back(routes.lobby())}
+            className="hover:text-blue-200 text-white text-sm sm:text-base flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1 sm:py-2 font-bold"
+          >
+            <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            <span className="hidden sm:inline">{t('common.back')}</span>
+          </button>
+        )}
         
         {/* Balance */}
         <div className="flex items-center gap-1.5 sm:gap-2">
@@ -493,8 +507,9 @@ export default function CardSelection({ user, wallet }: CardSelectionProps) {
             <path d="M4 4a2 2 0 00-2 2v1a16.94 16.94 0 0012 6 16.94 16.94 0 0012-6V6a2 2 0 00-2-2H4z" />
             <path fillRule="evenodd" d="M18 9H2v5a2 2 0 002 2h12a2 2 0 002-2V9zM4 13a1 1 0 011-1h1a1 1 0 110 2H5a1 1 0 01-1-1zm5-1a1 1 0 100 2h1a1 1 0 100-2H9z" clipRule="evenodd" />
           </svg>
-          <span className="text-yellow-300 font-bold text-sm sm:text-lg">
-            {wallet.balance.toFixed(2)} ETB
+          {demoMode && <DemoBadge />}
+          <span className={`${demoMode ? 'text-amber-300' : 'text-yellow-300'} font-bold text-sm sm:text-lg`}>
+            {formatCurrency(balance)}
           </span>
         </div>
       </div>
@@ -504,25 +519,28 @@ export default function CardSelection({ user, wallet }: CardSelectionProps) {
         <div className="px-2 sm:px-4 py-2 sm:py-3 bg-green-600 border-b-2 border-green-500 flex-shrink-0">
           <button
             onClick={async () => {
-              // Fetch and set card ID if not already set
-              if (!storeCardId && currentGameId && user?.id) {
+              // Fetch and set card IDs if not already set
+              if (storeCardIds.length === 0 && currentGameId && user?.id) {
                 try {
-                  const cardId = await getPlayerCardId(currentGameId, user.id);
-                  if (cardId) {
-                    setStoreCardId(cardId);
+                  const cardIds = await getPlayerCardIds(currentGameId, user.id);
+                  if (cardIds.length > 0) {
+                    setStoreCardIds(cardIds);
                   }
                 } catch (error) {
-                  console.error('Error fetching player card ID:', error);
+                  // The play screen looks the cards up again
+                  console.error('Error fetching player card IDs:', error);
                 }
               }
-              setCurrentView('play');
+              if (currentGameId) {
+                router.replace(routes.play(currentGameId));
+              }
             }}
             className="w-full py-2.5 sm:py-3 rounded-lg font-bold text-base sm:text-lg flex items-center justify-center gap-2 transition-all shadow-lg bg-gradient-to-r from-green-500 via-green-600 to-green-700 text-white hover:from-green-600 hover:via-green-700 hover:to-green-800"
           >
             <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-8.707l-3-3a1 1 0 00-1.414 0l-3 3a1 1 0 001.414 1.414L9 9.414V13a1 1 0 102 0V9.414l1.293 1.293a1 1 0 001.414-1.414z" clipRule="evenodd" />
             </svg>
-            <span>ጨዋታውን ቀጥል</span>
+            <span>{t('cards.continueGame')}</span>
           </button>
         </div>
       )}
@@ -534,7 +552,7 @@ export default function CardSelection({ user, wallet }: CardSelectionProps) {
           <div className="flex items-center gap-2 sm:gap-4">
             {/* Bet Amount */}
             <span className="text-white font-bold text-sm sm:text-base">
-              {selectedGameType || game?.bet_amount || 0} ብር
+              {t('lobby.stakeName', { amount: bet })}
             </span>
             
             {/* Player Count */}
@@ -548,30 +566,90 @@ export default function CardSelection({ user, wallet }: CardSelectionProps) {
           
           {/* Potential Win */}
           <div className="bg-yellow-400/30 text-yellow-200 px-2 sm:px-3 py-1 sm:py-1.5 rounded font-bold text-xs sm:text-sm border border-yellow-300">
-            {game ? `${calculatePotentialWin(game).toFixed(2)} ብር ደራሽ` : '- ብር ደራሽ'}
+            {t('lobby.derash', { amount: game ? formatCurrency(calculatePotentialWin(game)) : '-' })}
           </div>
         </div>
         
+        {/* Find a card: jump to a number, hide taken ones, or let luck pick */}
+        <div className="w-full max-w-[360px] mx-auto mb-2 flex items-center gap-1.5 text-xs sm:text-sm">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={cardSearch}
+            onChange={(e) => handleCardSearch(e.target.value.replace(/\D/g, ''))}
+            placeholder={t('cards.searchPlaceholder')}
+            className={`w-20 sm:w-24 bg-blue-700 border rounded px-2 py-1.5 text-white placeholder-blue-300 outline-none ${
+              cardSearch && highlightCardId === null ? 'border-red-400' : 'border-blue-400 focus:border-yellow-300'
+            }`}
+          />
+          <label className="flex items-center gap-1 text-blue-100 font-semibold">
+            <input type="checkbox" checked={hideTaken} onChange={(e) => setHideTaken(e.target.checked)} className="accent-yellow-300" />
+            <span>{t('cards.hideTaken')}</span>
+          </label>
+          <button
+            onClick={handleLuckyPick}
+            className="ml-auto bg-green-500 hover:bg-green-600 text-white font-bold px-2.5 py-1.5 rounded whitespace-nowrap"
+          >
+            🍀 {t('cards.luckyPick')}
+          </button>
+        </div>
+        {cardSearch && highlightCardId === null && (
+          <p className="w-full max-w-[360px] mx-auto -mt-1 mb-2 text-red-300 text-xs">{t('cards.noSuchCard', { id: cardSearch })}</p>
+        )}
+
+        {/* Favorites in order of preference - the first free one is picked when a game opens */}
+        {favoriteCards.length > 0 && (
+          <div className="w-full max-w-[360px] mx-auto mb-2 flex flex-wrap items-center gap-1.5 text-xs sm:text-sm">
+            <span className="text-yellow-300 font-bold">★ {t('favorites.title')}</span>
+            {favoriteCards.map((cardId) => {
+              const isSelected = selectedCardIds.includes(cardId);
+              const isTaken = takenCards.has(cardId) && !isSelected;
+              return (
+                <span
+                  key={cardId}
+                  className={`${isSelected ? 'bg-red-500' : 'bg-blue-500'} ${isTaken ? 'opacity-50 line-through' : ''} px-2 py-0.5 rounded font-bold flex items-center gap-1`}
+                >
+                  <button onClick={() => pickFoundCard(cardId)}>#{cardId}</button>
+                  <button onClick={() => handleToggleFavorite(cardId)} className="text-white/70 hover:text-white" aria-label={t('favorites.remove')}>
+                    ×
+                  </button>
+                </span>
+              );
+            })}
+          </div>
+        )}
+
+        <CardFinder takenCards={takenCards} selectedCardIds={selectedCardIds} onPick={pickFoundCard} />
+
         {/* 10x10 Cards Grid - Square */}
         <div className="flex justify-center mb-3">
           <div className="grid grid-cols-10 gap-1 sm:gap-1.5 w-full max-w-[360px] aspect-square">
             {CARD_IDS.map((cardId) => {
-              const isSelected = selectedCardId === cardId;
+              const isSelected = selectedCardIds.includes(cardId);
               const isTaken = takenCards.has(cardId) && !isSelected;
+              // A card jumped to stays visible even when taken ones are hidden
+              if (hideTaken && isTaken && cardId !== highlightCardId) return null;
               
               return (
                 <button
                   key={cardId}
+                  ref={(el) => {
+                    if (el) cardRefs.current.set(cardId, el);
+                    else cardRefs.current.delete(cardId);
+                  }}
                   onClick={() => handleCardClick(cardId)}
-                  className={`aspect-square rounded-lg border-2 transition-all text-xs sm:text-sm font-bold ${
+                  className={`relative aspect-square rounded-lg border-2 transition-all text-xs sm:text-sm font-bold ${
                     isSelected
                       ? 'bg-red-500 border-red-600 text-white ring-2 ring-red-400 shadow-lg scale-105 z-10'
                       : isTaken
                       ? 'bg-gradient-to-br from-blue-400 to-blue-600 text-white border-red-500 shadow hover:bg-blue-500'
                       : 'bg-gradient-to-br from-blue-400 to-blue-600 text-white hover:bg-blue-500 hover:border-blue-200 shadow'
-                  }`}
+                  } ${cardId === highlightCardId && !isSelected ? 'ring-2 ring-yellow-300 scale-105 z-10' : ''}`}
                 >
                   {cardId}
+                  {favoriteCards.includes(cardId) && (
+                    <span className="absolute top-0 right-0.5 text-[8px] sm:text-[10px] leading-none text-yellow-300">★</span>
+                  )}
                 </button>
               );
             })}
@@ -581,7 +659,15 @@ export default function CardSelection({ user, wallet }: CardSelectionProps) {
         {/* Selected Card Preview */}
         {selectedCardData && (
           <div className="flex flex-col items-center mb-3">
-            <div className="bg-blue-700 rounded-lg p-1 sm:p-1.5 w-full max-w-[180px] shadow-lg border-2 border-blue-500">
+            <div className="relative bg-blue-700 rounded-lg p-1 sm:p-1.5 w-full max-w-[180px] shadow-lg border-2 border-blue-500">
+              {/* Star - add the card to (or drop it from) the favorites */}
+              <button
+                onClick={() => handleToggleFavorite(selectedCardData.id)}
+                className="absolute -top-3 -right-3 w-7 h-7 rounded-full bg-blue-800 border-2 border-blue-500 text-yellow-300 text-base leading-none flex items-center justify-center shadow"
+                aria-label={favoriteCards.includes(selectedCardData.id) ? t('favorites.remove') : t('favorites.add')}
+              >
+                {favoriteCards.includes(selectedCardData.id) ? '★' : '☆'}
+              </button>
               {/* Header Row - B I N G O */}
               <div className="grid grid-cols-5 gap-1 sm:gap-1.5 mb-1 sm:mb-1.5">
                 {(['B', 'I', 'N', 'G', 'O'] as const).map((letter, idx) => {
@@ -622,49 +708,63 @@ export default function CardSelection({ user, wallet }: CardSelectionProps) {
             </div>
           </div>
         )}
+
+        {/* Keep playing - join the next games of this stake automatically */}
+        {selectedGameTypeString && (
+          <AutoJoinPanel gameType={selectedGameTypeString} selectedCardId={selectedCardIds[selectedCardIds.length - 1] ?? null} />
+        )}
       </div>
 
+      {/* Cost of the picked cards against the balance */}
+      {selectedCardIds.length > 0 && (
+        <div className="px-4 py-1.5 bg-blue-700 flex items-center justify-between text-xs sm:text-sm font-semibold flex-shrink-0">
+          <span>
+            {t('cards.cost', { count: selectedCardIds.length, bet: formatCurrency(bet), total: formatCurrency(totalCost) })}
+          </span>
+          <span className={totalCost > balance ? 'text-red-300' : 'text-blue-200'}>
+            {totalCost > balance ? t('cards.notEnough') : t('cards.left', { amount: formatCurrency(balance - totalCost) })}
+          </span>
+        </div>
+      )}
+
       {/* Join Button - Fixed Footer */}
-      <footer className="p-4 bg-blue-600 border-t border-blue-500/50 flex-shrink-0">
-        <button
-          onClick={handleJoinGame}
-          disabled={
-            !selectedCardId || 
-            joining || 
-            !game || 
-            (game?.state !== 'WAITING' && game?.state !== 'COUNTDOWN')
-          }
-          className={`w-full py-2.5 sm:py-3 rounded-lg font-bold text-base sm:text-lg flex items-center justify-center gap-2 transition-all shadow-lg ${
-            selectedCardId && !joining && game && (game?.state === 'WAITING' || game?.state === 'COUNTDOWN')
-              ? 'bg-gradient-to-r from-blue-400 via-blue-500 to-yellow-400 text-white hover:from-blue-500 hover:via-blue-600 hover:to-yellow-500'
-              : 'bg-gray-500 text-gray-300 cursor-not-allowed'
-          }`}
-        >
-          {joining ? (
-            <>
-              <svg className="animate-spin h-4 w-4 sm:h-5 sm:w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              <span>Joining...</span>
-            </>
-          ) : !game || (game?.state !== 'WAITING' && game?.state !== 'COUNTDOWN') ? (
-            <>
-              <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
-              </svg>
-              <span>እባክህ ትንሽ ይጠብቁ</span>
-            </>
-          ) : (
-            <>
-              <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
-              </svg>
-              <span>ወደ ጨዋታው ይግቡ </span>
-            </>
-          )}
-        </button>
-      </footer>
+      {!nativeJoin && (
+        <footer className="p-4 bg-blue-600 border-t border-blue-500/50 flex-shrink-0">
+          <button
+            onClick={handleJoinGame}
+            disabled={!canJoin || joining}
+            className={`w-full py-2.5 sm:py-3 rounded-lg font-bold text-base sm:text-lg flex items-center justify-center gap-2 transition-all shadow-lg ${
+              canJoin && !joining
+                ? 'bg-gradient-to-r from-blue-400 via-blue-500 to-yellow-400 text-white hover:from-blue-500 hover:via-blue-600 hover:to-yellow-500'
+                : 'bg-gray-500 text-gray-300 cursor-not-allowed'
+            }`}
+          >
+            {joining ? (
+              <>
+                <svg className="animate-spin h-4 w-4 sm:h-5 sm:w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                <span>{t('cards.joining')}</span>
+              </>
+            ) : !game || (game?.state !== 'WAITING' && game?.state !== 'COUNTDOWN') ? (
+              <>
+                <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                </svg>
+                <span>{t('cards.pleaseWait')}</span>
+              </>
+            ) : (
+              <>
+                <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                </svg>
+                <span>{t('cards.join')}</span>
+              </>
+            )}
+          </button>
+        </footer>
+      )}
     </main>
   );
 }
@@ -0,0 +1,72 @@
+'use client';
+
+import { useConnectionStatus } from '@/hooks/useSocket';
+import { useServerSecond } from '@/hooks/useCountdown';
+import { gameConnections } from '@/lib/gameConnections';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ConnectionBannerProps {
+  // Compact pill for the Header; the full-width bar is for the play screen
+  compact?: boolean;
+}
+
+// Live connection state of the game sockets - tap to retry when not connected
+export default function ConnectionBanner({ compact = false }: ConnectionBannerProps) {
+  const { state, retryAt } = useConnectionStatus();
+  const { t } = useTranslation();
+  // Tick once a second while showing "reconnecting in N s"
+  useServerSecond(state === 'reconnecting' && retryAt !== null);
+
+  const retryIn = retryAt !== null ? Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)) : null;
+
+  let label: string;
+  let color: string;
+  switch (state) {
+    case 'connected':
+      label = t('connection.connected');
+      color = 'bg-green-500';
+      break;
+    case 'connecting':
+      label = t('connection.connecting');
+      color = 'bg-yellow-500';
+      break;
+    case 'reconnecting':
+      label = retryIn ? t('connection.reconnectingIn', { seconds: retryIn }) : t('connection.reconnecting');
+      color = 'bg-yellow-500';
+      break;
+    default:
+      label = t('connection.offline');
+      color = 'bg-red-500';
+      break;
+  }
+
+  const canRetry = state === 'reconnecting' || state === 'offline';
+
+  if (compact) {
+    return (
+      <button
+        onClick={() => canRetry && gameConnections.retryNow()}
+        disabled={!canRetry}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-full bg-blue-700/60 text-xs font-semibold text-white"
+        title={canRetry ? t('connection.tapToRetry') : label}
+      >
+        <span className={`w-2 h-2 rounded-full ${color} ${state !== 'connected' ? 'animate-pulse' : ''}`}></span>
+        <span className={state === 'connected' ? 'hidden sm:inline' : ''}>{label}</span>
+      </button>
+    );
+  }
+
+  // The play screen only needs the bar when something is wrong
+  if (state === 'connected') return null;
+
+  return (
+    <button
+      onClick={() => canRetry && gameConnections.retryNow()}
+      disabled={!canRetry}
+      className={`w-full ${color} text-white text-xs sm:text-sm font-bold py-1 px-3 flex items-center justify-center gap-2 flex-shrink-0`}
+    >
+      <span>{label}</span>
+      {canRetry && <span className="underline">{t('connection.tapToRetry')}</span>}
+    </button>
+  );
+}
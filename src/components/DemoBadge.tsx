@@ -0,0 +1,18 @@
+'use client';
+
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface DemoBadgeProps {
+  className?: string;
+}
+
+// Marks screens and balances that use play money
+export default function DemoBadge({ className = '' }: DemoBadgeProps) {
+  const { t } = useTranslation();
+
+  return (
+    <span className={`bg-amber-400 text-amber-950 text-[10px] sm:text-xs font-black px-1.5 py-0.5 rounded uppercase tracking-wide ${className}`}>
+      {t('common.demo')}
+    </span>
+  );
+}
@@ -1,9 +1,14 @@
 'use client';
 
-import { useState } from 'react';
-import { type User, type Wallet, deposit, getWalletByTelegramId, API_URL } from '@/lib/api';
-import { useGameStore } from '@/store/gameStore';
-import axios from 'axios';
+import { useState, useEffect, useRef } from 'react';
+import { useAppRouter } from '@/hooks/useAppRouter';
+import { type User, type Wallet, deposit, getWalletByTelegramId, toApiError } from '@/lib/api';
+import { routes } from '@/lib/routes';
+import { haptic } from '@/lib/telegram';
+import { toast } from '@/lib/notifications';
+import { useTelegramBackButton, useTelegramMainButton } from '@/hooks/useTelegramButtons';
+import { useTranslation } from '@/hooks/useTranslation';
+import Modal from './Modal';
 
 interface DepositProps {
   user: User;
@@ -39,13 +44,17 @@ const PAYMENT_TYPES = [
 ] as const;
 
 export default function Deposit({ user, wallet, onWalletUpdate }: DepositProps) {
-  const { setCurrentView } = useGameStore();
+  const router = useAppRouter();
   const [amount, setAmount] = useState<string>('');
   const [paymentType, setPaymentType] = useState<string>('');
   const [transactionId, setTransactionId] = useState<string>('');
   const [submitting, setSubmitting] = useState(false);
   const [copied, setCopied] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
+  const successTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { t, formatCurrency, apiErrorMessage } = useTranslation();
+  const minAmount = formatCurrency(DEPOSIT_CONFIG.MIN_AMOUNT);
+  const maxAmount = formatCurrency(DEPOSIT_CONFIG.MAX_AMOUNT);
 
   const accountNumber = paymentType ? PAYMENT_ACCOUNTS[paymentType] || '' : '';
   const amountNum = parseFloat(amount) || 0;
@@ -62,16 +71,29 @@ export default function Deposit({ user, wallet, onWalletUpdate }: DepositProps)
     }
   };
 
+  // Back to the wallet the form came from, rather than stacking another wallet page on top of it
+  const closeSuccessModal = () => {
+    if (successTimerRef.current) clearTimeout(successTimerRef.current);
+    successTimerRef.current = null;
+    setShowSuccessModal(false);
+    router.back(routes.wallet());
+  };
+
+  // A pending auto-close must not navigate after the player already left
+  useEffect(() => () => {
+    if (successTimerRef.current) clearTimeout(successTimerRef.current);
+  }, []);
+
   const handleDeposit = async () => {
     if (!canDeposit || !paymentType) return;
 
     const depositAmount = parseFloat(amount);
     if (depositAmount < DEPOSIT_CONFIG.MIN_AMOUNT) {
-      alert(`Minimum deposit amount is ${DEPOSIT_CONFIG.MIN_AMOUNT} ETB`);
+      toast.warning(t('deposit.minError', { amount: minAmount }));
       return;
     }
     if (depositAmount > DEPOSIT_CONFIG.MAX_AMOUNT) {
-      alert(`Maximum deposit amount is ${DEPOSIT_CONFIG.MAX_AMOUNT} ETB`);
+      toast.warning(t('deposit.maxError', { amount: maxAmount }));
       return;
     }
 
@@ -87,59 +109,64 @@ export default function Deposit({ user, wallet, onWalletUpdate }: DepositProps)
       }
 
       // Show success modal
+      haptic.notify('success');
       setShowSuccessModal(true);
       
       // Auto-close and navigate after 3 seconds
-      setTimeout(() => {
-        setShowSuccessModal(false);
-        setCurrentView('wallet');
-      }, 3000);
-    } catch (err: any) {
+      successTimerRef.current = setTimeout(closeSuccessModal, 3000);
+    } catch (err) {
       console.error('Error depositing:', err);
-      const errorMessage = err.response?.data?.error || err.response?.data?.message || 'Failed to submit deposit request';
-      alert(errorMessage);
+      haptic.notify('error');
+      toast.error(apiErrorMessage(toApiError(err)));
     } finally {
       setSubmitting(false);
     }
   };
 
+  const nativeBack = useTelegramBackButton(() => router.back(routes.wallet()));
+  const nativeSubmit = useTelegramMainButton({
+    text: t('deposit.submit'),
+    onClick: handleDeposit,
+    enabled: !!canDeposit,
+    visible: !showSuccessModal,
+    progress: submitting,
+  });
+
   return (
     <main className="min-h-screen bg-blue-600 text-white flex flex-col">
       {/* Success Modal */}
       {showSuccessModal && (
-        <div className="fixed inset-0 bg-blue-600 bg-opacity-95 flex items-center justify-center z-50">
-          <div className="bg-blue-700 border-2 border-blue-400 rounded-lg p-6 sm:p-8 max-w-md mx-4 text-center shadow-xl">
-            <div className="text-4xl sm:text-5xl mb-4">✅</div>
-            <h2 className="text-xl sm:text-2xl font-bold text-white mb-4">
-              Deposit request submitted successfully!
-            </h2>
-            <p className="text-blue-200 text-sm sm:text-base mb-6">
-              It will be processed after admin approval.
-            </p>
+        <Modal
+          icon="✅"
+          title={t('deposit.successTitle')}
+          actions={
             <button
-              onClick={() => {
-                setShowSuccessModal(false);
-                setCurrentView('wallet');
-              }}
+              onClick={closeSuccessModal}
               className="bg-green-500 hover:bg-green-600 text-white font-bold text-sm sm:text-base px-6 sm:px-8 py-2 sm:py-3 rounded-lg transition-all"
             >
-              OK
+              {t('common.ok')}
             </button>
-          </div>
-        </div>
+          }
+        >
+          <p className="text-blue-200 text-sm sm:text-base">{t('deposit.successBody')}</p>
+        </Modal>
       )}
 
       {/* Header */}
       <div className="px-4 py-2 flex items-center justify-between bg-blue-700">
-        <button
-          onClick={() => setCurrentView('wallet')}
-          className="hover:text-blue-200 text-white text-sm sm:text-base flex items-center gap-2 px-2 sm:px-3 py-1 sm:py-2 font-bold"
-        >
-          <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-          </svg>
-          <span>ተመለስ</span>
-        </button>
+        {nativeBack ? (
+          <div></div>
+        ) : (
+          <button
+            onClick={() => router.back(routes.wallet())}
+            className="hover:text-blue-200 text-white text-sm sm:text-base flex items-center gap-2 px-2 sm:px-3 py-1 sm:py-2 font-bold"
+          >
+            <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            <span>{t('common.back')}</span>
+          </button>
+        )}
         <h1 className="text-xl sm:text-2xl font-bold"></h1>
         <div className="w-20"></div>
       </div>
@@ -149,20 +176,20 @@ export default function Deposit({ user, wallet, onWalletUpdate }: DepositProps)
         {/* Instructions Box */}
         <div className="bg-blue-500 rounded-lg p-4 border-2 border-blue-400">
           <h2 className="text-white font-bold text-base sm:text-lg mb-2">
-            ገንዘብ Deposit ለማደረግ መሟላት ያለባቸው ነገሮች
+            {t('deposit.rulesTitle')}
           </h2>
           <div className="text-white text-sm space-y-1">
-            <p>• ተቀማጭ የሆነው መጠን እና ወደ ሂሳቡ የላኩት መጠን እኩል መሆን አለባቸው።</p>
-            <p>• ገንዘብ ሲላኩ የመላኪያውን ሙሉ SMS (full SMS) ያስገቡ</p>
-            <p>• ዝቅተኛው የገንዘብ መጠን {DEPOSIT_CONFIG.MIN_AMOUNT} ብር ነው</p>
-            <p>• ከፍተኛው የገንዘብ መጠን {DEPOSIT_CONFIG.MAX_AMOUNT} ብር ነው</p>
+            <p>• {t('deposit.ruleSameAmount')}</p>
+            <p>• {t('deposit.ruleFullSms')}</p>
+            <p>• {t('deposit.ruleMin', { amount: minAmount })}</p>
+            <p>• {t('deposit.ruleMax', { amount: maxAmount })}</p>
           </div>
         </div>
 
         {/* Payment Type Dropdown */}
         <div>
           <label className="block text-white font-bold text-sm sm:text-base mb-2">
-            የመክፈያ አማራጭ ይምረጡ
+            {t('deposit.paymentType')}
           </label>
           <select
             value={paymentType}
@@ -173,7 +200,7 @@ export default function Deposit({ user, wallet, onWalletUpdate }: DepositProps)
             className="w-full bg-white text-gray-900 px-4 py-3 rounded-lg text-lg font-semibold border-0 appearance-none"
             style={{ backgroundColor: 'white', color: '#111827' }}
           >
-            <option value="" style={{ backgroundColor: 'white', color: '#111827' }}>አይነት ይምረጡ</option>
+            <option value="" style={{ backgroundColor: 'white', color: '#111827' }}>{t('deposit.choosePaymentType')}</option>
             {PAYMENT_TYPES.map((type) => (
               <option key={type.value} value={type.value} style={{ backgroundColor: 'white', color: '#111827' }}>
                 {type.label}
@@ -186,13 +213,13 @@ export default function Deposit({ user, wallet, onWalletUpdate }: DepositProps)
         {paymentType && accountNumber && (
           <div className="bg-blue-700 rounded-lg p-4 border-2 border-blue-400">
             <div className="text-center">
-              <p className="text-blue-200 text-sm mb-2">Account Number:</p>
+              <p className="text-blue-200 text-sm mb-2">{t('deposit.accountNumber')}</p>
               <p className="text-white font-bold text-2xl mb-2">{accountNumber}</p>
               <button
                 onClick={handleCopyAccount}
                 className="text-blue-300 underline text-sm hover:text-blue-200"
               >
-                {copied ? 'Copied!' : 'ኮፒ'}
+                {copied ? t('deposit.copied') : t('deposit.copy')}
               </button>
             </div>
           </div>
@@ -201,13 +228,13 @@ export default function Deposit({ user, wallet, onWalletUpdate }: DepositProps)
         {/* Amount Input */}
         <div>
           <label className="block text-white font-bold text-sm sm:text-base mb-2">
-            ያስገቡት የብር መጠን
+            {t('deposit.amount')}
           </label>
           <input
             type="number"
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
-            placeholder="ያስገቡት የብር መጠን"
+            placeholder={t('deposit.amount')}
             min={DEPOSIT_CONFIG.MIN_AMOUNT}
             max={DEPOSIT_CONFIG.MAX_AMOUNT}
             className="w-full bg-white text-gray-900 px-4 py-3 rounded-lg text-lg font-semibold"
@@ -215,9 +242,9 @@ export default function Deposit({ user, wallet, onWalletUpdate }: DepositProps)
           {amount && (
             <div className="mt-2 text-sm">
               {amountNum < DEPOSIT_CONFIG.MIN_AMOUNT ? (
-                <p className="text-red-300">Minimum deposit is {DEPOSIT_CONFIG.MIN_AMOUNT} ETB</p>
+                <p className="text-red-300">{t('deposit.minError', { amount: minAmount })}</p>
               ) : amountNum > DEPOSIT_CONFIG.MAX_AMOUNT ? (
-                <p className="text-red-300">Maximum deposit is {DEPOSIT_CONFIG.MAX_AMOUNT} ETB</p>
+                <p className="text-red-300">{t('deposit.maxError', { amount: maxAmount })}</p>
               ) : null}
             </div>
           )}
@@ -227,12 +254,12 @@ export default function Deposit({ user, wallet, onWalletUpdate }: DepositProps)
         {paymentType && (
           <div>
             <label className="block text-white font-bold text-sm sm:text-base mb-2">
-              Full Transaction SMS
+              {t('deposit.sms')}
             </label>
             <textarea
               value={transactionId}
               onChange={(e) => setTransactionId(e.target.value)}
-              placeholder="Paste the full transaction SMS"
+              placeholder={t('deposit.smsPlaceholder')}
               rows={4}
               className="w-full bg-white text-gray-900 px-4 py-3 rounded-lg text-base sm:text-lg font-semibold resize-y"
             />
@@ -240,17 +267,19 @@ export default function Deposit({ user, wallet, onWalletUpdate }: DepositProps)
         )}
 
         {/* Deposit Button */}
-        <button
-          onClick={handleDeposit}
-          disabled={!canDeposit || submitting}
-          className={`w-full font-bold text-lg py-4 rounded-lg transition-all shadow-lg ${
-            canDeposit && !submitting
-              ? 'bg-green-500 hover:bg-green-600 text-white'
-              : 'bg-gray-500 text-gray-300 cursor-not-allowed'
-          }`}
-        >
-          {submitting ? 'Submitting...' : 'ገቢ ያድርጉ'}
-        </button>
+        {!nativeSubmit && (
+          <button
+            onClick={handleDeposit}
+            disabled={!canDeposit || submitting}
+            className={`w-full font-bold text-lg py-4 rounded-lg transition-all shadow-lg ${
+              canDeposit && !submitting
+                ? 'bg-green-500 hover:bg-green-600 text-white'
+                : 'bg-gray-500 text-gray-300 cursor-not-allowed'
+            }`}
+          >
+            {submitting ? t('deposit.submitting') : t('deposit.submit')}
+          </button>
+        )}
       </div>
     </main>
   );
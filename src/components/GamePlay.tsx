@@ -1,12 +1,33 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useSearchParams } from 'next/navigation';
-import { API_URL, getGameState, calculatePotentialWin, getWalletByTelegramId, getPlayerCardId, type Game, type User, type Wallet } from '@/lib/api';
+import { useState, useEffect, useReducer, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { getGameState, claimBingo, leaveGame, toApiError, calculatePotentialWin, getWalletByTelegramId, getPlayerCardIds, type User, type Wallet, type ClaimBingoResponse } from '@/lib/api';
 import { useGameStore } from '@/store/gameStore';
-import { useGameWebSocket, type WebSocketMessage } from '@/hooks/useSocket';
-import { getCardData } from '@/lib/cardData';
-import axios from 'axios';
+import { useGameEvents, type GameEvent } from '@/hooks/useSocket';
+import { gameConnections } from '@/lib/gameConnections';
+import { gameReducer, emptyGameSnapshot } from '@/lib/gameState';
+import { serverNow } from '@/lib/clock';
+import { useGameResync } from '@/hooks/useGameResync';
+import { useCountdown } from '@/hooks/useCountdown';
+import { getCardData, BINGO_LETTERS } from '@/lib/cardData';
+import { getActivePatterns, analyzeCard, summarizeProgress, checkClaim, cellKey, type CardProgress } from '@/lib/bingoPatterns';
+import { loadDaubMode, saveDaubMode, DAUB_MODE_OPTIONS, type DaubMode } from '@/lib/daubMode';
+import { routes } from '@/lib/routes';
+import { haptic } from '@/lib/telegram';
+import { callNumber, playSound } from '@/lib/audioCaller';
+import { toast, confirmDialog, closeDialog } from '@/lib/notifications';
+import { useTelegramBackButton, useTelegramMainButton } from '@/hooks/useTelegramButtons';
+import { useAutoJoin } from '@/hooks/useAutoJoin';
+import { useTranslation } from '@/hooks/useTranslation';
+import ResyncedIndicator from './ResyncedIndicator';
+import ConnectionBanner from './ConnectionBanner';
+import DemoBadge from './DemoBadge';
+import CallerControls from './CallerControls';
+import Modal from './Modal';
+
+// The countdown sound is a "3, 2, 1" - start it this many seconds before the draw
+const COUNTDOWN_SOUND_AT = 3;
 
 interface GamePlayProps {
   user: User;
@@ -14,40 +35,89 @@ interface GamePlayProps {
   onWalletUpdate?: (wallet: Wallet) => void;
 }
 
-interface DrawnNumber {
-  letter: string;
-  number: number;
-  drawn_at: string;
-}
-
 export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps) {
-  const searchParams = useSearchParams();
-  const [game, setGame] = useState<Game | null>(null);
-  const [drawnNumbers, setDrawnNumbers] = useState<DrawnNumber[]>([]);
-  const [markedNumbers, setMarkedNumbers] = useState<Set<string>>(new Set()); // Track marked numbers on player's card
-  const [countdown, setCountdown] = useState<number | null>(null);
+  const router = useRouter();
+  const { t, formatCurrency, apiErrorMessage } = useTranslation();
+  const [snapshot, dispatch] = useReducer(gameReducer, emptyGameSnapshot);
   const [claimingBingo, setClaimingBingo] = useState(false);
   const [leaving, setLeaving] = useState(false);
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
   const [winnerPopup, setWinnerPopup] = useState<{ show: boolean; message: string; prize?: number; winnerName?: string; cardId?: number; markedNumbers?: number[] } | null>(null);
-  const [wsReconnectKey, setWsReconnectKey] = useState(0);
   const [currentWallet, setCurrentWallet] = useState<Wallet>(wallet);
   
-  const { currentGameId, selectedGameTypeString, selectedCardId, setCurrentView, setSelectedCardId } = useGameStore();
+  const { currentGameId, selectedGameTypeString, selectedCardIds, setSelectedCardIds, markedNumbers: markedByCard, markNumber, clearActiveGame } = useGameStore();
+  // The card shown in the grid when the player holds several
+  const [activeCardId, setActiveCardId] = useState<number | null>(null);
+  const activeCard = activeCardId !== null && selectedCardIds.includes(activeCardId) ? activeCardId : selectedCardIds[0] ?? null;
+  // Marks live in the store (per card) so they survive a reload of the webview
+  const markedNumbers = useMemo(() => new Set(activeCard ? markedByCard[activeCard] ?? [] : []), [markedByCard, activeCard]);
+
+  const [daubMode, setDaubMode] = useState<DaubMode>(() => loadDaubMode(user.id));
+
+  const { game, drawnNumbers } = snapshot;
+
+  // The winning patterns this game plays with - validation and near-win hints both use them
+  const activePatterns = useMemo(() => getActivePatterns(game?.patterns), [game?.patterns]);
+
+  // Live pattern analysis for every card, refreshed on each mark
+  const cardProgress = useMemo(() => {
+    const progress: Record<number, CardProgress> = {};
+    selectedCardIds.forEach((cardId) => {
+      const card = getCardData(cardId);
+      if (card) progress[cardId] = summarizeProgress(analyzeCard(card, new Set(markedByCard[cardId] ?? []), activePatterns));
+    });
+    return progress;
+  }, [selectedCardIds, markedByCard, activePatterns]);
+  const activeProgress = activeCard ? cardProgress[activeCard] : undefined;
+  // A card with a complete pattern, on screen or not - the card on screen wins when both are
+  const completeCard = activeProgress?.complete ? activeCard : selectedCardIds.find((cardId) => cardProgress[cardId]?.complete) ?? null;
+  // Cells on patterns that are one number away from a win
+  const nearWinCells = new Set(activeProgress?.oneToGo.flatMap((p) => p.cells) ?? []);
+
+  // Buzz once when any of the player's cards completes a pattern
+  const anyCardComplete = completeCard !== null;
+  useEffect(() => {
+    if (anyCardComplete) haptic.notify('success');
+  }, [anyCardComplete]);
+
+  // Ticks on the shared server-synced clock so it matches the lobby
+  const countdown = useCountdown(game?.state === 'COUNTDOWN' ? game.countdown_ends : null, snapshot.secondsLeft);
   
+  useEffect(() => {
+    if (countdown === COUNTDOWN_SOUND_AT) playSound('countdown');
+  }, [countdown]);
+
   // Sync wallet when prop changes
   useEffect(() => {
     setCurrentWallet(wallet);
   }, [wallet]);
   
   // Get player's card data
-  const playerCardNumbers = selectedCardId ? getCardData(selectedCardId) : null;
+  const playerCardNumbers = activeCard ? getCardData(activeCard) : null;
 
-  // Connect to WebSocket for real-time updates
-  // Use gameId (not gameType) for GamePlay page to get specific game updates
-  // Extract actual gameId (in case we need to force reconnect with key)
-  const actualGameId = currentGameId?.split('?')[0] || currentGameId;
-  const socket = useGameWebSocket(null, wsReconnectKey > 0 ? `${actualGameId}-reconnect-${wsReconnectKey}` : actualGameId);
+  const changeDaubMode = (mode: DaubMode) => {
+    setDaubMode(mode);
+    saveDaubMode(user.id, mode);
+  };
+
+  // Auto-daub: mark every drawn number on all of the player's cards as it arrives
+  // (also catches up on numbers drawn before the page loaded or while offline)
+  useEffect(() => {
+    if (daubMode !== 'auto') return;
+    selectedCardIds.forEach((cardId) => {
+      const card = getCardData(cardId);
+      if (!card) return;
+      drawnNumbers.forEach(({ letter, number }) => {
+        const col = BINGO_LETTERS.indexOf(letter);
+        if (col !== -1 && card.some((row) => row[col] === number)) {
+          markNumber(cardId, `${letter}-${number}`);
+        }
+      });
+    });
+  }, [daubMode, drawnNumbers, selectedCardIds, markNumber]);
+
+  // Subscribe by gameId (not gameType) on the play screen to get this specific game's updates
+  const channel = currentGameId ? { gameId: currentGameId } : null;
 
   // Fetch initial game state and player card ID if missing
   useEffect(() => {
@@ -55,19 +125,16 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
       if (currentGameId && user?.id) {
         try {
           const gameState = await getGameState(currentGameId);
-          setGame(gameState.game);
-          if (gameState.drawnNumbers) {
-            setDrawnNumbers(gameState.drawnNumbers);
-          }
+          dispatch({ type: 'SNAPSHOT', snapshot: gameState, at: serverNow() });
           
-          // If selectedCardId is missing, fetch it from the backend
-          if (!selectedCardId) {
-            const cardId = await getPlayerCardId(currentGameId, user.id);
-            if (cardId) {
-              setSelectedCardId(cardId);
-              console.log('✅ Fetched player card ID:', cardId);
+          // If the player's cards are missing, fetch them from the backend
+          if (selectedCardIds.length === 0) {
+            const cardIds = await getPlayerCardIds(currentGameId, user.id);
+            if (cardIds.length > 0) {
+              setSelectedCardIds(cardIds);
+              console.log('✅ Fetched player card IDs:', cardIds);
             } else {
-              console.warn('⚠️ Could not fetch player card ID');
+              console.warn('⚠️ Could not fetch player card IDs');
             }
           }
         } catch (error) {
@@ -77,286 +144,93 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
     };
 
     fetchGameData();
-  }, [currentGameId, user?.id, selectedCardId, setSelectedCardId]);
+  }, [currentGameId, user?.id, selectedCardIds.length, setSelectedCardIds]);
+
+  // Leaving the play screen for good - forget the saved game so it isn't restored
+  const exitToLobby = () => {
+    clearActiveGame();
+    router.replace(routes.lobby());
+  };
+
+  const { finishGame, joiningNext, autoJoinActive } = useAutoJoin({
+    user,
+    gameType: selectedGameTypeString,
+    demo: !!snapshot.game?.is_demo,
+    onExit: exitToLobby,
+    onWalletUpdate: (updatedWallet) => {
+      setCurrentWallet(updatedWallet);
+      onWalletUpdate?.(updatedWallet);
+    },
+  });
 
   // Listen to WebSocket messages
-  useEffect(() => {
-    if (!socket) {
-      console.log('⚠️ WebSocket not connected. currentGameId:', currentGameId);
-      return;
-    }
-    
-    console.log('✅ WebSocket connected for game:', currentGameId);
+  useGameEvents(channel, (message: GameEvent) => {
+    dispatch({ type: 'EVENT', event: message, at: serverNow() });
+
+    switch (message.event) {
+      case 'NUMBER_DRAWN':
+        haptic.impact('light');
+        // A repeated frame (e.g. after a reconnect) shouldn't be called twice
+        if (!drawnNumbers.some((n) => n.number === message.data.number)) {
+          callNumber(message.data.letter, message.data.number);
+        }
+        break;
 
-    const handleMessage = (event: MessageEvent) => {
-      try {
-        const message: WebSocketMessage = JSON.parse(event.data);
-        
-        // Debug logging to see what messages we're receiving
-        console.log('📨 WebSocket message received:', message.event, message.data);
-
-        switch (message.event) {
-          case 'INITIAL_STATE':
-            if (message.data.game) {
-              console.log('🎮 Initial game state:', message.data.game);
-              setGame(message.data.game);
-            }
-            if (message.data.drawnNumbers) {
-              setDrawnNumbers(message.data.drawnNumbers);
-            }
-            break;
-
-          case 'GAME_STATUS':
-            if (message.data.state) {
-              console.log('🔄 Game status changed:', message.data.state, 'Player count:', message.data.player_count);
-              setGame((prev) => {
-                if (!prev) return null;
-                const updated = {
-                  ...prev,
-                  state: message.data.state,
-                  player_count: message.data.player_count ?? prev.player_count,
-                  prize_pool: message.data.prize_pool ?? prev.prize_pool,
-                  countdown_ends: message.data.countdown_ends ?? prev.countdown_ends,
-                };
-                console.log('📊 Updated game state:', updated);
-                return updated;
-              });
-              
-              // Handle countdown based on state change
-              if (message.data.state !== 'COUNTDOWN') {
-                // Clear countdown when state changes to DRAWING, FINISHED, etc.
-                setCountdown(null);
-              } else {
-                // State is COUNTDOWN - set countdown from message or calculate
-                if (message.data.secondsLeft !== undefined) {
-                  // Only set if > 0, otherwise clear it
-                  if (message.data.secondsLeft > 0) {
-                    setCountdown(message.data.secondsLeft);
-                  } else {
-                    setCountdown(null);
-                  }
-                } else if (message.data.countdown_ends) {
-                  // Calculate from countdown_ends if secondsLeft not provided
-                  const now = new Date().getTime();
-                  const ends = new Date(message.data.countdown_ends).getTime();
-                  const seconds = Math.max(0, Math.floor((ends - now) / 1000));
-                  if (seconds > 0) {
-                    setCountdown(seconds);
-                  } else {
-                    setCountdown(null);
-                  }
-                }
-              }
-            }
-            // Also check if countdown_ends is set but state wasn't updated
-            else if (message.data.countdown_ends) {
-              setGame((prev) => {
-                if (!prev || prev.state !== 'WAITING') return prev;
-                // If we have countdown_ends but state is still WAITING, update to COUNTDOWN
-                console.log('🔄 Auto-updating state from WAITING to COUNTDOWN (countdown_ends received)');
-                return {
-                  ...prev,
-                  state: 'COUNTDOWN',
-                  countdown_ends: message.data.countdown_ends,
-                  player_count: message.data.player_count ?? prev.player_count,
-                  prize_pool: message.data.prize_pool ?? prev.prize_pool,
-                };
-              });
-            }
-            break;
-
-          case 'COUNTDOWN':
-            console.log('⏰ Countdown update:', message.data.secondsLeft);
-            // Only process COUNTDOWN events if state is COUNTDOWN or WAITING
-            // Don't process if state is already DRAWING or FINISHED
-            setGame((prev) => {
-              if (!prev) return null;
-              // Don't update state if already DRAWING, FINISHED, CLOSED, or CANCELLED
-              if (prev.state === 'DRAWING' || prev.state === 'FINISHED' || prev.state === 'CLOSED' || prev.state === 'CANCELLED') {
-                // Clear countdown if state is DRAWING or beyond
-                if (prev.state === 'DRAWING') {
-                  setCountdown(null);
-                }
-                return prev;
-              }
-              
-              // If state is still WAITING, update it to COUNTDOWN
-              const newState = prev.state === 'WAITING' ? 'COUNTDOWN' : prev.state;
-              
-              // Only set countdown if state is COUNTDOWN
-              if (newState === 'COUNTDOWN' && message.data.secondsLeft !== undefined) {
-                setCountdown(message.data.secondsLeft);
-              } else if (message.data.secondsLeft === 0 || message.data.secondsLeft < 0) {
-                // If countdown reaches 0, clear it
-                setCountdown(null);
-              }
-              
-              return {
-                ...prev,
-                state: newState,
-                countdown_ends: message.data.countdown_ends ?? prev.countdown_ends,
-              };
-            });
-            break;
+      case 'WINNER':
+        // Show popup for all players in the game
+        const winnerName = message.data.winner_name || t('play.anotherPlayer');
+        const isCurrentUser = message.data.user_id === user.id;
+        const backendCardId = message.data.card_id;
 
-          case 'PLAYER_COUNT':
-            if (message.data.count !== undefined) {
-              setGame((prev) => prev ? { ...prev, player_count: message.data.count } : null);
-            }
-            break;
-
-          case 'PLAYER_JOINED':
-          case 'PLAYER_LEFT':
-            console.log(`👥 Player ${message.event}:`, message.data);
-            // Update player count when players join/leave
-            setGame((prev) => {
-              if (!prev) return null;
-              
-              // If count is provided, use it; otherwise increment/decrement manually
-              let newPlayerCount: number;
-              if (message.data.count !== undefined) {
-                newPlayerCount = message.data.count;
-              } else {
-                // Manually increment for JOINED, decrement for LEFT
-                if (message.event === 'PLAYER_JOINED') {
-                  newPlayerCount = (prev.player_count || 0) + 1;
-                } else {
-                  newPlayerCount = Math.max(0, (prev.player_count || 0) - 1);
-                }
+        console.log('🏆 WINNER payload from backend', message.data);
+        haptic.notify(isCurrentUser ? 'success' : 'warning');
+        playSound('win');
+        
+        setWinnerPopup({
+          show: true,
+          message: isCurrentUser ? t('play.youWon') : t('play.playerWon', { name: winnerName }),
+          prize: message.data.prize,
+          winnerName: isCurrentUser ? `${user.first_name} ${user.last_name || ''}`.trim() : winnerName,
+          cardId: backendCardId,
+          markedNumbers: message.data.marked_numbers,
+        });
+        
+        if (isCurrentUser) {
+          // Refresh wallet balance when user wins
+          getWalletByTelegramId(user.telegram_id.toString())
+            .then((updatedWallet) => {
+              setCurrentWallet(updatedWallet);
+              // Update parent component's wallet state
+              if (onWalletUpdate) {
+                onWalletUpdate(updatedWallet);
               }
-              
-              const updated = {
-                ...prev,
-                player_count: newPlayerCount,
-                prize_pool: message.data.prize_pool ?? prev.prize_pool,
-              };
-              console.log('📊 Updated player count:', newPlayerCount);
-              return updated;
+              console.log('💰 Updated wallet balance after win:', updatedWallet.balance);
+            })
+            .catch((err) => {
+              console.error('Error refreshing wallet after win:', err);
             });
-            break;
-
-          case 'NUMBER_DRAWN':
-            if (message.data.letter && message.data.number) {
-              const newDrawn: DrawnNumber = {
-                letter: message.data.letter,
-                number: message.data.number,
-                drawn_at: message.data.drawn_at || new Date().toISOString(),
-              };
-              // Add to drawn numbers - keep ALL drawn numbers
-              setDrawnNumbers((prev) => {
-                // Check if already exists to avoid duplicates
-                const exists = prev.some(n => n.letter === newDrawn.letter && n.number === newDrawn.number);
-                if (exists) return prev;
-                return [...prev, newDrawn];
-              });
-            }
-            break;
-
-          case 'WINNER':
-            // Show popup for all players in the game
-            const winnerName = message.data.winner_name || message.data.user_name || 'Another player';
-            const isCurrentUser = message.data.user_id === user.id;
-            const backendCardId = Number(message.data.card_id ?? message.data.card_number);
-
-            console.log('🏆 WINNER payload from backend', {
-              user_id: message.data.user_id,
-              card_id: message.data.card_id,
-              card_number: message.data.card_number,
-              resolved_card_id: Number.isFinite(backendCardId) ? backendCardId : undefined,
-              marked_numbers: message.data.marked_numbers,
-            });
-            
-            setWinnerPopup({
-              show: true,
-              message: isCurrentUser ? 'Congratulations! You won!' : `${winnerName} won the game!`,
-              prize: message.data.prize,
-              winnerName: isCurrentUser ? `${user.first_name} ${user.last_name || ''}`.trim() : winnerName,
-              cardId: Number.isFinite(backendCardId) ? backendCardId : undefined,
-              markedNumbers: message.data.marked_numbers,
-            });
-            
-            if (isCurrentUser) {
-              // Refresh wallet balance when user wins
-              getWalletByTelegramId(user.telegram_id.toString())
-                .then((updatedWallet) => {
-                  setCurrentWallet(updatedWallet);
-                  // Update parent component's wallet state
-                  if (onWalletUpdate) {
-                    onWalletUpdate(updatedWallet);
-                  }
-                  console.log('💰 Updated wallet balance after win:', updatedWallet.balance);
-                })
-                .catch((err) => {
-                  console.error('Error refreshing wallet after win:', err);
-                });
-            }
-            // Redirect after 5 seconds (increased to show card)
-            setTimeout(() => {
-              setCurrentView('selection');
-            }, 5000);
-            break;
-
-          case 'PLAYER_ELIMINATED':
-            if (message.data.user_id === user.id) {
-              alert('Your bingo claim was invalid. You have been eliminated.');
-              setCurrentView('selection');
-            }
-            break;
-
-          default:
-            break;
         }
-      } catch (error) {
-        console.error('Error parsing WebSocket message:', error);
-      }
-    };
-
-    socket.addEventListener('message', handleMessage);
-
-    return () => {
-      socket.removeEventListener('message', handleMessage);
-    };
-  }, [socket, user.id, setCurrentView]);
-
-  // Ensure state is COUNTDOWN if countdown_ends is set
-  useEffect(() => {
-    if (game && game.state === 'WAITING' && game.countdown_ends) {
-      console.log('🔄 Auto-updating state: WAITING -> COUNTDOWN (countdown_ends detected)');
-      setGame((prev) => prev ? { ...prev, state: 'COUNTDOWN' } : null);
-    }
-  }, [game?.state, game?.countdown_ends]);
-
-  // Update countdown timer - initial calculation when entering COUNTDOWN state
-  // WebSocket COUNTDOWN events will update it every second
-  useEffect(() => {
-    if (!game) {
-      setCountdown(null);
-      return;
-    }
-
-    // Clear countdown if state is not COUNTDOWN
-    if (game.state !== 'COUNTDOWN') {
-      setCountdown(null);
-      return;
-    }
+        // Show the winning card for a few seconds, then the next game or the lobby
+        finishGame();
+        break;
+
+      case 'PLAYER_ELIMINATED':
+        if (message.data.user_id === user.id) {
+          haptic.notify('error');
+          toast.error(t('play.eliminated'));
+          exitToLobby();
+        }
+        break;
 
-    if (!game.countdown_ends) {
-      return;
+      default:
+        break;
     }
+  }, () => {
+    // Frames sent while the socket was down are lost - reconcile against the server
+    dispatch({ type: 'STALE' });
+  });
 
-    // Calculate initial countdown when entering COUNTDOWN state
-    // WebSocket will send COUNTDOWN events to keep it updated
-    const now = new Date().getTime();
-    const ends = new Date(game.countdown_ends).getTime();
-    const seconds = Math.max(0, Math.floor((ends - now) / 1000));
-    
-    // Set initial countdown only if > 0, otherwise clear it
-    if (seconds > 0) {
-      setCountdown(seconds);
-    } else {
-      setCountdown(null);
-    }
-  }, [game?.state, game?.countdown_ends]);
+  const showResynced = useGameResync(currentGameId, snapshot, dispatch);
 
   // Handle marking a number on player's card
   const handleMarkNumber = (letter: string, number: number) => {
@@ -366,91 +240,67 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
     const isDrawn = drawnNumbers.some(n => n.letter === letter && n.number === number);
     
     if (!isDrawn) {
-      alert('This number has not been drawn yet!');
+      haptic.notify('error');
+      toast.warning(t('play.notDrawn'));
       return;
     }
 
     // Mark the number (only mark, don't toggle - once marked it stays marked)
-    setMarkedNumbers((prev) => {
-      const newSet = new Set(prev);
-      newSet.add(key);
-      return newSet;
-    });
+    haptic.selection();
+    if (activeCard) markNumber(activeCard, key);
   };
 
   // Handle bingo claim
   const handleClaimBingo = async () => {
-    if (!currentGameId || !playerCardNumbers) {
-      alert('Game or card information missing');
+    // Claim with the complete card even when another one is on screen
+    const claimCard = completeCard ?? activeCard;
+    const claimCardNumbers = claimCard ? getCardData(claimCard) : null;
+    if (!currentGameId || !claimCardNumbers || !claimCard) {
+      toast.error(t('play.missingInfo'));
       return;
     }
 
-    // Convert marked numbers to card position indices (0-24)
-    const markedIndices: number[] = [];
-    for (let row = 0; row < 5; row++) {
-      for (let col = 0; col < 5; col++) {
-        const cardNumber = playerCardNumbers[row][col];
-        const letter = ['B', 'I', 'N', 'G', 'O'][col];
-        const key = `${letter}-${cardNumber}`;
-
-        // Skip center square (always free)
-        if (row === 2 && col === 2 && cardNumber === 0) {
-          continue;
-        }
+    setActiveCardId(claimCard);
+    setClaimingBingo(true);
 
-        if (markedNumbers.has(key)) {
-          markedIndices.push(row * 5 + col);
-        }
+    try {
+      // Check against a fresh drawn list - a wrong claim gets the player eliminated,
+      // and a resync may have left the local list short
+      let drawn = drawnNumbers;
+      try {
+        const gameState = await getGameState(currentGameId);
+        dispatch({ type: 'SNAPSHOT', snapshot: gameState, at: serverNow() });
+        drawn = gameState.drawnNumbers;
+      } catch (error) {
+        console.warn('⚠️ Could not refresh drawn numbers before claiming, using the local list:', error);
       }
-    }
-
-    // Validate winning patterns:
-    // - Any full row/column/diagonal (center is always treated as marked)
-    // - 4 corners (0, 4, 20, 24)
-    const effectiveMarked = new Set<number>(markedIndices);
-    effectiveMarked.add(12); // free center
-
-    const winningLines = [
-      [0, 1, 2, 3, 4],
-      [5, 6, 7, 8, 9],
-      [10, 11, 12, 13, 14],
-      [15, 16, 17, 18, 19],
-      [20, 21, 22, 23, 24],
-      [0, 5, 10, 15, 20],
-      [1, 6, 11, 16, 21],
-      [2, 7, 12, 17, 22],
-      [3, 8, 13, 18, 23],
-      [4, 9, 14, 19, 24],
-      [0, 6, 12, 18, 24],
-      [4, 8, 12, 16, 20],
-    ];
-    const hasLineWin = winningLines.some((line) => line.every((pos) => effectiveMarked.has(pos)));
-    const hasCornerWin = [0, 4, 20, 24].every((pos) => effectiveMarked.has(pos));
 
-    if (!hasLineWin && !hasCornerWin) {
-      alert('Winning pattern required: full line (row/column/diagonal) or 4 corners.');
-      return;
-    }
-
-    setClaimingBingo(true);
+      const check = checkClaim(claimCardNumbers, new Set(markedByCard[claimCard] ?? []), drawn.map((n) => n.number), activePatterns);
+      if (!check.valid) {
+        console.log('🚫 Bingo claim blocked:', check.reason, check.unconfirmed);
+        haptic.notify('error');
+        toast.warning(check.reason);
+        return;
+      }
 
-    try {
+      // Card position indices (0-24) of the winning pattern
+      const markedIndices = check.winningCells;
+      console.log(`🎯 Claiming bingo with ${check.pattern.id}`);
 
-      const response = await axios.post(
-        `${API_URL}/api/v1/games/${currentGameId}/bingo`,
-        {
-          user_id: user.id,
-          marked_numbers: markedIndices,
-        }
-      );
+      const response = await claimBingo(currentGameId, {
+        user_id: user.id,
+        card_id: claimCard,
+        marked_numbers: markedIndices,
+      });
 
-      if (response.data.winner) {
+      if (response.winner) {
+        haptic.notify('success');
         setWinnerPopup({
           show: true,
-          message: 'Congratulations! You won!',
-          prize: response.data.prize,
+          message: t('play.youWon'),
+          prize: response.prize,
           winnerName: `${user.first_name} ${user.last_name || ''}`.trim(),
-          cardId: selectedCardId || undefined,
+          cardId: claimCard,
           markedNumbers: markedIndices,
         });
         
@@ -468,53 +318,59 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
             console.error('Error refreshing wallet after bingo win:', err);
           });
         
-        // Redirect after 5 seconds (increased to show card)
-        setTimeout(() => {
-          setCurrentView('selection');
-        }, 5000);
+        // Show the winning card for a few seconds, then the next game or the lobby
+        finishGame();
       } else {
-        alert(response.data.message || 'Invalid bingo claim. You have been eliminated.');
-        setCurrentView('selection');
+        haptic.notify('error');
+        toast.error(response.message || t('play.invalidClaim'));
+        exitToLobby();
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error claiming bingo:', err);
-      const errorMessage = err.response?.data?.message || err.response?.data?.error || 'Failed to claim bingo';
-      alert(errorMessage);
+      haptic.notify('error');
+      const apiError = toApiError(err);
+      toast.error(apiErrorMessage(apiError));
       
       // If the error response indicates elimination, navigate back to selection
-      if (err.response?.data?.winner === false) {
-        setCurrentView('selection');
+      if ((apiError.data as ClaimBingoResponse | null)?.winner === false) {
+        exitToLobby();
       }
     } finally {
       setClaimingBingo(false);
     }
   };
 
-  // Handle leave game - show confirmation modal
-  const handleLeaveGame = () => {
-    if (!currentGameId) return;
+  // Handle leave game - ask first, the bet isn't refunded
+  const handleLeaveGame = async () => {
+    if (!currentGameId || showLeaveConfirm) return;
+
     setShowLeaveConfirm(true);
+    const confirmed = await confirmDialog({
+      icon: '⚠️',
+      title: t('play.leaveConfirmTitle'),
+      message: t('play.leaveConfirmBody'),
+      confirmLabel: t('play.leaveGame'),
+      danger: true,
+    });
+    setShowLeaveConfirm(false);
+    if (confirmed) await confirmLeaveGame();
   };
 
-  // Confirm and execute leave game
+  // Execute leave game
   const confirmLeaveGame = async () => {
     if (!currentGameId) return;
 
-    setShowLeaveConfirm(false);
     setLeaving(true);
 
     try {
-      await axios.post(
-        `${API_URL}/api/v1/games/${currentGameId}/leave`,
-        {
-          user_id: user.id,
-        }
-      );
+      await leaveGame(currentGameId, {
+        user_id: user.id,
+      });
 
-      setCurrentView('selection');
-    } catch (err: any) {
+      exitToLobby();
+    } catch (err) {
       console.error('Error leaving game:', err);
-      alert('Failed to leave game. Please try again.');
+      toast.error(apiErrorMessage(toApiError(err)));
     } finally {
       setLeaving(false);
     }
@@ -527,26 +383,16 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
     try {
       // Fetch updated game state
       const gameState = await getGameState(currentGameId);
-      setGame(gameState.game);
-      
-      // Update drawn numbers
-      if (gameState.drawnNumbers) {
-        setDrawnNumbers(gameState.drawnNumbers);
-      }
+      dispatch({ type: 'SNAPSHOT', snapshot: gameState, at: serverNow() });
 
-      // Check WebSocket connection and force reconnect if closed
-      if (!socket || socket.readyState === WebSocket.CLOSED || socket.readyState === WebSocket.CLOSING) {
-        console.log('🔄 WebSocket is closed, forcing reconnection...');
-        // Force reconnection by updating the reconnect key (this will trigger hook to recreate connection)
-        setWsReconnectKey(prev => prev + 1);
-      } else if (socket.readyState === WebSocket.OPEN) {
-        console.log('✅ WebSocket is already connected');
-      } else if (socket.readyState === WebSocket.CONNECTING) {
-        console.log('⏳ WebSocket is connecting...');
+      // Force the shared connection to reconnect if it isn't open
+      if (channel && !gameConnections.isOpen(channel)) {
+        console.log('🔄 WebSocket is not open, forcing reconnection...');
+        gameConnections.reconnect(channel);
       }
     } catch (error) {
       console.error('Error refreshing game data:', error);
-      alert('Failed to refresh game data. Please try again.');
+      toast.error(t('play.refreshFailed'));
     }
   };
 
@@ -579,12 +425,23 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
   // Get recent 5 drawn numbers (newest at bottom)
   const recent5Drawn = [...drawnNumbers].slice(-5);
 
+  // Telegram's BackButton asks to leave (or dismisses the confirmation); its MainButton claims bingo
+  useTelegramBackButton(() => (showLeaveConfirm ? closeDialog(false) : handleLeaveGame()));
+  const nativeBingo = useTelegramMainButton({
+    // The native button can't pulse - flag a complete pattern in its label instead
+    text: anyCardComplete ? t('play.bingoNativeComplete') : t('play.bingoNative'),
+    onClick: handleClaimBingo,
+    enabled: !claimingBingo,
+    visible: !!game && !winnerPopup && !showLeaveConfirm,
+    progress: claimingBingo,
+  });
+
   if (!game || !playerCardNumbers) {
     return (
       <main className="min-h-screen bg-blue-600 text-white flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
-          <p>Loading game...</p>
+          <p>{t('play.loading')}</p>
         </div>
       </main>
     );
@@ -592,36 +449,8 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
 
   return (
     <main className="min-h-screen bg-blue-600 text-white flex flex-col relative">
-      {/* Leave Confirmation Modal */}
-      {showLeaveConfirm && (
-        <div className="fixed inset-0 bg-blue-600 bg-opacity-95 flex items-center justify-center z-50">
-          <div className="bg-blue-700 border-2 border-blue-400 rounded-lg p-6 sm:p-8 max-w-md mx-4 text-center shadow-xl">
-            <div className="text-4xl sm:text-5xl mb-4">⚠️</div>
-            <h2 className="text-xl sm:text-2xl font-bold text-white mb-4">
-              Are you sure you want to leave the game?
-            </h2>
-            <p className="text-blue-200 text-sm sm:text-base mb-6">
-              Your bet will not be refunded if you leave now.
-            </p>
-            <div className="flex gap-3 sm:gap-4 justify-center">
-              <button
-                onClick={() => setShowLeaveConfirm(false)}
-                className="bg-blue-500 hover:bg-blue-600 text-white font-bold text-sm sm:text-base px-6 sm:px-8 py-2 sm:py-3 rounded-lg transition-all"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={confirmLeaveGame}
-                disabled={leaving}
-                className="bg-pink-500 hover:bg-pink-600 text-white font-bold text-sm sm:text-base px-6 sm:px-8 py-2 sm:py-3 rounded-lg transition-all disabled:opacity-50"
-              >
-                {leaving ? 'Leaving...' : 'Leave Game'}
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
+      <ResyncedIndicator show={showResynced} />
+      <ConnectionBanner />
       {/* Winner Popup */}
       {winnerPopup && winnerPopup.show && (() => {
         const winnerCardNumbers = winnerPopup.cardId ? getCardData(winnerPopup.cardId) : null;
@@ -670,97 +499,112 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
         markedPositions.add(12);
         
         return (
-          <div className="fixed inset-0 bg-blue-600 bg-opacity-95 flex items-center justify-center z-50 overflow-y-auto p-4">
-            <div className="bg-blue-700 border-2 border-blue-400 rounded-lg p-4 sm:p-6 max-w-lg mx-auto text-center shadow-xl">
-              <div className="text-4xl sm:text-6xl mb-4">🎉</div>
-              <h2 className="text-xl sm:text-2xl font-bold text-white mb-2">
-                {winnerPopup.winnerName}
-              </h2>
-              {winnerPopup.prize && (
-                <p className="text-lg sm:text-xl font-bold text-yellow-300 mb-4">
-                  {winnerPopup.winnerName === `${user.first_name} ${user.last_name || ''}`.trim() 
-                    ? `You won ${winnerPopup.prize} ETB!`
-                    : `Won ${winnerPopup.prize} ETB!`}
-                </p>
-              )}
-              
-              {/* Winner's Bingo Card */}
-              {winnerCardNumbers && (
-                <div className="mt-4 mb-4">
-                  <div className="bg-blue-700 rounded-lg p-2 border-2 border-blue-500">
-                    <div className="grid grid-cols-5 gap-0.5">
-                      {/* Header Row */}
-                      {['B', 'I', 'N', 'G', 'O'].map((letter, idx) => {
-                        const colors = ['bg-pink-500', 'bg-green-400', 'bg-blue-500', 'bg-orange-500', 'bg-red-500'];
+          <Modal wide icon="🎉" title={winnerPopup.winnerName}>
+            {winnerPopup.prize && (
+              <p className="text-lg sm:text-xl font-bold text-yellow-300 mb-4">
+                {t(
+                  winnerPopup.winnerName === `${user.first_name} ${user.last_name || ''}`.trim() ? 'play.youWonPrize' : 'play.wonPrize',
+                  { amount: `${formatCurrency(winnerPopup.prize)}${game.is_demo ? ` (${t('common.demo')})` : ''}` }
+                )}
+              </p>
+            )}
+            {autoJoinActive && (
+              <p className="text-green-300 text-sm font-semibold mb-2">
+                🔁 {joiningNext ? t('play.joiningNext') : t('play.nextGameSoon')}
+              </p>
+            )}
+            
+            {/* Winner's Bingo Card */}
+            {winnerCardNumbers && (
+              <div className="mt-4 mb-4">
+                <div className="bg-blue-700 rounded-lg p-2 border-2 border-blue-500">
+                  <div className="grid grid-cols-5 gap-0.5">
+                    {/* Header Row */}
+                    {['B', 'I', 'N', 'G', 'O'].map((letter, idx) => {
+                      const colors = ['bg-pink-500', 'bg-green-400', 'bg-blue-500', 'bg-orange-500', 'bg-red-500'];
+                      return (
+                        <div
+                          key={letter}
+                          className={`${colors[idx]} text-white font-bold text-[8px] sm:text-[10px] p-1 rounded text-center shadow-sm`}
+                        >
+                          {letter}
+                        </div>
+                      );
+                    })}
+                    
+                    {/* Card Numbers */}
+                    {winnerCardNumbers.map((row: number[], rowIndex: number) =>
+                      row.map((number: number, colIndex: number) => {
+                        const isCenter = rowIndex === 2 && colIndex === 2 && number === 0;
+                        const index = rowIndex * 5 + colIndex;
+                        const isMarked = markedPositions.has(index) || isCenter;
+                        
                         return (
                           <div
-                            key={letter}
-                            className={`${colors[idx]} text-white font-bold text-[8px] sm:text-[10px] p-1 rounded text-center shadow-sm`}
+                            key={`${rowIndex}-${colIndex}`}
+                            className={`w-8 h-8 sm:w-10 sm:h-10 rounded border-2 flex items-center justify-center font-black text-[9px] sm:text-[11px] transition-all ${
+                              isCenter || isMarked
+                                ? 'bg-gray-900 text-white border-gray-800 shadow-inner'
+                                : 'bg-blue-800 text-white border-blue-500 shadow-sm'
+                            }`}
                           >
-                            {letter}
+                            {isCenter ? '#' : number}
                           </div>
                         );
-                      })}
-                      
-                      {/* Card Numbers */}
-                      {winnerCardNumbers.map((row: number[], rowIndex: number) =>
-                        row.map((number: number, colIndex: number) => {
-                          const isCenter = rowIndex === 2 && colIndex === 2 && number === 0;
-                          const index = rowIndex * 5 + colIndex;
-                          const isMarked = markedPositions.has(index) || isCenter;
-                          
-                          return (
-                            <div
-                              key={`${rowIndex}-${colIndex}`}
-                              className={`w-8 h-8 sm:w-10 sm:h-10 rounded border-2 flex items-center justify-center font-black text-[9px] sm:text-[11px] transition-all ${
-                                isCenter || isMarked
-                                  ? 'bg-gray-900 text-white border-gray-800 shadow-inner'
-                                  : 'bg-blue-800 text-white border-blue-500 shadow-sm'
-                              }`}
-                            >
-                              {isCenter ? '#' : number}
-                            </div>
-                          );
-                        })
-                      )}
-                    </div>
-                    <div className="text-center mt-1 text-white font-black text-[8px] sm:text-[9px]">
-                      BOARD NUMBER {winnerPopup.cardId}
-                    </div>
+                      })
+                    )}
+                  </div>
+                  <div className="text-center mt-1 text-white font-black text-[8px] sm:text-[9px]">
+                    {t('play.boardNumber', { id: winnerPopup.cardId ?? '' })}
                   </div>
                 </div>
-              )}
-              
-              <p className="text-blue-200 text-sm sm:text-base">
-                Redirecting to game selection...
-              </p>
-            </div>
-          </div>
+              </div>
+            )}
+            
+            <p className="text-blue-200 text-sm sm:text-base">
+              {t('play.redirecting')}
+            </p>
+          </Modal>
         );
       })()}
 
       {/* Top Header - Game Info */}
-      <div className="bg-blue-700 px-4 sm:px-8 py-2 flex items-center justify-between text-xs sm:text-sm">
+      <div className={`${game.is_demo ? 'bg-amber-700' : 'bg-blue-700'} px-4 sm:px-8 py-2 flex items-center justify-between text-xs sm:text-sm`}>
+        {game.is_demo && <DemoBadge />}
+        <CallerControls />
         <div>
-          <span className="text-blue-200">Derash: </span>
-          <span className="font-bold text-yellow-300">{calculatePotentialWin(game).toFixed(2)} ETB</span>
+          <span className="text-blue-200">{t('play.derash')} </span>
+          <span className="font-bold text-yellow-300">{formatCurrency(calculatePotentialWin(game))}</span>
         </div>
         <div>
-          <span className="text-blue-200">Players: </span>
+          <span className="text-blue-200">{t('play.players')} </span>
           <span className="font-bold text-white">{game.player_count}</span>
         </div>
         <div>
-          <span className="text-blue-200">Bet: </span>
-          <span className="font-bold text-white">{game.bet_amount} ETB</span>
+          <span className="text-blue-200">{t('play.bet')} </span>
+          <span className="font-bold text-white">{formatCurrency(game.bet_amount)}</span>
         </div>
       </div>
 
+      {/* Winning patterns in play */}
+      <div className="px-4 sm:px-8 py-1.5 bg-blue-800 flex flex-wrap items-center justify-center gap-1.5 text-xs">
+        <span className="text-blue-200">{t('play.winWith')}</span>
+        {activePatterns.map((pattern) => (
+          <span
+            key={pattern.id}
+            className={`${activeProgress?.completedPatternIds.includes(pattern.id) ? 'bg-green-500' : 'bg-blue-600'} px-2 py-0.5 rounded font-semibold`}
+          >
+            {pattern.icon} {t(pattern.name)}
+          </span>
+        ))}
+      </div>
+
       {/* Waiting Message */}
       {game.state === 'WAITING' && (
           <div className="mt-4 sm:mt-3 mb-4 sm:mb-4 text-center">
             <div className="bg-yellow-500/20 border-2 border-yellow-400 rounded-lg p-2 sm:p-3 inline-block">
               <p className="text-yellow-300 font-bold text-sm sm:text-base">
-                ⏳ Waiting for other players to join...
+                ⏳ {t('play.waitingForPlayers')}
               </p>
             </div>
           </div>
@@ -773,7 +617,7 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
           {game.state === 'COUNTDOWN' && countdown !== null && countdown > 0 && (
             <div className="lg:col-span-1">
               <div className="bg-blue-700 rounded-lg p-2 sm:p-3 flex flex-col items-center justify-center min-h-[100px] sm:min-h-[120px] border-2 border-blue-500">
-                <div className="text-white text-xs sm:text-sm font-semibold mb-1">TIMER</div>
+                <div className="text-white text-xs sm:text-sm font-semibold mb-1">{t('play.timer')}</div>
                 <div className="text-white text-2xl sm:text-4xl font-bold">{countdown}</div>
               </div>
             </div>
@@ -832,7 +676,7 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
 
                 {/* Recent 5 Drawn Numbers (Right) */}
                 <div className="w-28 sm:w-32 md:w-36 flex-shrink-0">
-                  <div className="text-white text-xs sm:text-sm font-bold mb-2">Recent 5</div>
+                  <div className="text-white text-xs sm:text-sm font-bold mb-2">{t('play.recent', { count: 5 })}</div>
                   <div className="flex flex-col gap-1.5">
                     {drawnNumbers.length > 0 ? (
                       [...drawnNumbers].slice(-5).map((drawn, idx) => {
@@ -854,7 +698,7 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
                         );
                       })
                     ) : (
-                      <div className="text-blue-200 text-xs sm:text-sm">No numbers drawn yet</div>
+                      <div className="text-blue-200 text-xs sm:text-sm">{t('play.noneDrawn')}</div>
                     )}
                   </div>
                 </div>
@@ -863,6 +707,34 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
               {/* Bottom: Bigger Player Bingo Card */}
               {playerCardNumbers && (
                 <div>
+                  {/* Card tabs - one per card bought in this game */}
+                  {selectedCardIds.length > 1 && (
+                    <div className="flex justify-center gap-1.5 mb-2">
+                      {selectedCardIds.map((cardId) => (
+                        <button
+                          key={cardId}
+                          onClick={() => setActiveCardId(cardId)}
+                          className={`${cardId === activeCard ? 'bg-red-500 text-white' : 'bg-blue-700 text-blue-100 hover:bg-blue-600'} px-2.5 py-1 rounded font-bold text-xs border border-blue-500`}
+                        >
+                          #{cardId}
+                          <span className="ml-1 opacity-75">({markedByCard[cardId]?.length ?? 0})</span>
+                          {cardProgress[cardId]?.complete ? ' ✅' : cardProgress[cardId]?.oneToGo.length ? ' 🔥' : ''}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {/* Marking mode */}
+                  <div className="flex justify-center gap-1 mb-2 text-xs">
+                    {DAUB_MODE_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => changeDaubMode(option.value)}
+                        className={`${daubMode === option.value ? 'bg-white text-blue-700' : 'bg-blue-700 text-blue-100 hover:bg-blue-600'} px-2 py-0.5 rounded font-bold`}
+                      >
+                        {t(option.label)}
+                      </button>
+                    ))}
+                  </div>
                   <div className="bg-blue-700 rounded-lg p-2 border-2 border-blue-500 w-fit mx-auto">
                     <div className="grid grid-cols-5 gap-x-px gap-y-px">
                       {/* Header Row */}
@@ -886,6 +758,10 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
                           const key = `${letter}-${number}`;
                           const isMarked = markedNumbers.has(key);
                           const isDrawn = drawnNumbersSet.has(key);
+                          // Assisted mode: drawn numbers the player hasn't tapped yet pulse
+                          const needsTap = daubMode === 'assisted' && isDrawn && !isMarked && !isCenter;
+                          const cell = rowIndex * 5 + colIndex;
+                          const isNeeded = activeProgress?.neededCells.includes(cell) ?? false;
                           
                           return (
                             <button
@@ -897,10 +773,12 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
                                   ? 'bg-gray-900 text-white border-gray-800 cursor-default shadow-inner'
                                   : isMarked
                                   ? 'bg-gray-900 text-white border-gray-800 shadow-inner'
+                                  : needsTap
+                                  ? 'bg-yellow-500 text-white border-yellow-300 cursor-pointer shadow-sm animate-pulse'
                                   : isDrawn
                                   ? 'bg-blue-900 text-white border-blue-700 cursor-pointer shadow-sm'
                                   : 'bg-blue-900 text-white border-blue-700 cursor-default shadow-sm'
-                              }`}
+                              } ${isNeeded ? 'ring-2 ring-yellow-300' : nearWinCells.has(cell) ? 'ring-1 ring-yellow-300/50' : ''}`}
                             >
                               {isCenter ? '#' : number}
                             </button>
@@ -910,6 +788,19 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
                     </div>
 
                   </div>
+
+                  {/* One to go - the exact numbers that would complete a pattern */}
+                  {activeProgress && activeProgress.neededCells.length > 0 && !activeProgress.complete && (
+                    <div className="mt-2 text-center text-xs sm:text-sm">
+                      <span className="text-yellow-300 font-bold">🔥 {t('play.oneToGo')} </span>
+                      <span className="text-white font-semibold">
+                        {activeProgress.neededCells.map((cell) => cellKey(playerCardNumbers, cell)).join(', ')}
+                      </span>
+                    </div>
+                  )}
+                  {activeProgress?.complete && (
+                    <div className="mt-2 text-center text-xs sm:text-sm text-green-300 font-bold">✅ {t('play.patternComplete')}</div>
+                  )}
                 </div>
               )}
             </div>
@@ -917,28 +808,32 @@ export default function GamePlay({ user, wallet, onWalletUpdate }: GamePlayProps
         </div>
 
         {/* Action Buttons */}
-        <div className="mt-3 sm:mt-4 grid grid-cols-3 gap-1 sm:gap-2">
+        <div className={`mt-3 sm:mt-4 grid ${nativeBingo ? 'grid-cols-2' : 'grid-cols-3'} gap-1 sm:gap-2`}>
           <button
             onClick={handleLeaveGame}
             disabled={leaving}
             className="bg-pink-500 hover:bg-pink-600 text-white font-bold text-xs sm:text-sm py-1.5 sm:py-2 rounded-lg transition-all disabled:opacity-50"
           >
-            {leaving ? 'Leaving...' : 'Leave'}
+            {leaving ? t('play.leaving') : t('play.leave')}
           </button>
           
-          <button
-            onClick={handleClaimBingo}
-            disabled={claimingBingo}
-            className="bg-gradient-to-r from-blue-400 via-blue-500 to-yellow-400 hover:from-blue-500 hover:via-blue-600 hover:to-yellow-500 text-white font-bold text-xs sm:text-sm py-1.5 sm:py-2 rounded-lg transition-all disabled:opacity-50"
-          >
-            {claimingBingo ? 'Verifying...' : 'Bingo'}
-          </button>
+          {!nativeBingo && (
+            <button
+              onClick={handleClaimBingo}
+              disabled={claimingBingo}
+              className={`bg-gradient-to-r from-blue-400 via-blue-500 to-yellow-400 hover:from-blue-500 hover:via-blue-600 hover:to-yellow-500 text-white font-bold text-xs sm:text-sm py-1.5 sm:py-2 rounded-lg transition-all disabled:opacity-50 ${
+                anyCardComplete ? 'animate-pulse ring-4 ring-yellow-300' : ''
+              }`}
+            >
+              {claimingBingo ? t('play.verifying') : t('play.bingo')}
+            </button>
+          )}
           
           <button
             onClick={handleRefresh}
             className="bg-yellow-400 hover:bg-yellow-500 text-white font-bold text-xs sm:text-sm py-1.5 sm:py-2 rounded-lg transition-all"
           >
-            Refresh
+            {t('play.refresh')}
           </button>
         </div>
       </div>
@@ -1,7 +1,13 @@
 'use client';
 
-import { type User, type Wallet } from '@/lib/api';
+import { useAppRouter } from '@/hooks/useAppRouter';
+import { type User, type Wallet, getPlayBalance } from '@/lib/api';
+import { routes } from '@/lib/routes';
 import { useGameStore } from '@/store/gameStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import ConnectionBanner from './ConnectionBanner';
+import DemoBadge from './DemoBadge';
+import LanguagePicker from './LanguagePicker';
 
 interface HeaderProps {
   user: User;
@@ -10,7 +16,9 @@ interface HeaderProps {
 
 export default function Header({ user, wallet }: HeaderProps) {
   const fullName = `${user.first_name} ${user.last_name || ''}`.trim();
-  const { setCurrentView } = useGameStore();
+  const router = useAppRouter();
+  const { demoMode, setDemoMode } = useGameStore();
+  const { t, formatCurrency } = useTranslation();
 
   return (
     <div className="px-4 py-1 flex items-center justify-between">
@@ -22,17 +30,33 @@ export default function Header({ user, wallet }: HeaderProps) {
         <span className="text-white font-semibold text-lg">{fullName}</span>
       </div>
 
-      {/* Right: Balance - Clickable */}
+      {/* Middle: Live connection state, the real/demo switch and the language */}
+      <div className="flex items-center gap-2">
+        <ConnectionBanner compact />
+        <LanguagePicker />
+        <button
+          onClick={() => setDemoMode(!demoMode)}
+          className={`px-2 py-1 rounded-full text-xs font-bold transition-colors ${
+            demoMode ? 'bg-amber-400 text-amber-950' : 'bg-blue-700/60 text-blue-200 hover:bg-blue-700'
+          }`}
+          title={demoMode ? t('header.switchToReal') : t('header.practice')}
+        >
+          {demoMode ? t('header.demoOn') : t('common.demo')}
+        </button>
+      </div>
+
+      {/* Right: Balance - Clickable (the wallet screen always shows the real balance) */}
       <button
-        onClick={() => setCurrentView('wallet')}
+        onClick={() => router.push(routes.wallet())}
         className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors cursor-pointer"
       >
         <svg className="w-5 h-5 text-yellow-400" fill="currentColor" viewBox="0 0 20 20">
           <path d="M4 4a2 2 0 00-2 2v1a16.94 16.94 0 0012 6 16.94 16.94 0 0012-6V6a2 2 0 00-2-2H4z" />
           <path fillRule="evenodd" d="M18 9H2v5a2 2 0 002 2h12a2 2 0 002-2V9zM4 13a1 1 0 011-1h1a1 1 0 110 2H5a1 1 0 01-1-1zm5-1a1 1 0 100 2h1a1 1 0 100-2H9z" clipRule="evenodd" />
         </svg>
-        <span className="text-yellow-400 font-semibold text-lg">
-          {wallet.balance.toFixed(2)} ETB
+        {demoMode && <DemoBadge />}
+        <span className={`${demoMode ? 'text-amber-300' : 'text-yellow-400'} font-semibold text-lg`}>
+          {formatCurrency(getPlayBalance(wallet, demoMode))}
         </span>
       </button>
     </div>
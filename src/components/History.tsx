@@ -1,8 +1,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useAppRouter } from '@/hooks/useAppRouter';
 import { type User, type Wallet, getDeposits, getWithdrawals, getTransfers, type Transaction, type TransferTransaction } from '@/lib/api';
-import { useGameStore } from '@/store/gameStore';
+import { routes } from '@/lib/routes';
+import { useTelegramBackButton } from '@/hooks/useTelegramButtons';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { MessageKey } from '@/lib/i18n';
+import { toast } from '@/lib/notifications';
 
 interface HistoryProps {
   user: User;
@@ -11,14 +16,22 @@ interface HistoryProps {
 
 type HistoryType = 'deposits' | 'withdrawals' | 'transfers';
 
+const STATUS_LABELS: Record<string, MessageKey> = {
+  completed: 'history.statusCompleted',
+  pending: 'history.statusPending',
+  failed: 'history.statusFailed',
+};
+
 export default function History({ user, wallet }: HistoryProps) {
-  const { setCurrentView } = useGameStore();
+  const router = useAppRouter();
+  const nativeBack = useTelegramBackButton(() => router.back(routes.wallet()));
   const [historyType, setHistoryType] = useState<HistoryType>('deposits');
   const [showAll, setShowAll] = useState(false); // Default to 10 records
   const [deposits, setDeposits] = useState<Transaction[]>([]);
   const [withdrawals, setWithdrawals] = useState<Transaction[]>([]);
   const [transfers, setTransfers] = useState<TransferTransaction[]>([]);
   const [loading, setLoading] = useState(false);
+  const { t, formatCurrency, formatDate } = useTranslation();
 
   useEffect(() => {
     const fetchHistory = async () => {
@@ -38,16 +51,16 @@ export default function History({ user, wallet }: HistoryProps) {
             setTransfers(transferData);
             break;
         }
-      } catch (err: any) {
+      } catch (err) {
         console.error('Error fetching history:', err);
-        alert('Failed to load history');
+        toast.error(t('history.loadFailed'));
       } finally {
         setLoading(false);
       }
     };
 
     fetchHistory();
-  }, [historyType, user.id, showAll]);
+  }, [historyType, user.id, showAll, t]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -62,23 +75,24 @@ export default function History({ user, wallet }: HistoryProps) {
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
+  // Unknown statuses from the backend are shown as they come
+  const getStatusLabel = (status: string) => (STATUS_LABELS[status] ? t(STATUS_LABELS[status]) : status.toUpperCase());
+
+  const formatTime = (dateString: string) =>
+    formatDate(dateString, {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
       hour: '2-digit',
       minute: '2-digit',
     });
-  };
 
   const renderDeposits = () => {
     if (loading) {
       return (
         <div className="text-center py-8">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
-          <p className="text-blue-200">Loading...</p>
+          <p className="text-blue-200">{t('common.loading')}</p>
         </div>
       );
     }
@@ -86,7 +100,7 @@ export default function History({ user, wallet }: HistoryProps) {
     if (deposits.length === 0) {
       return (
         <div className="text-center py-8 text-blue-200">
-          <p>No deposit history found</p>
+          <p>{t('history.noDeposits')}</p>
         </div>
       );
     }
@@ -100,17 +114,17 @@ export default function History({ user, wallet }: HistoryProps) {
           >
             <div className="flex justify-between items-start mb-2">
               <div>
-                <p className="text-white font-bold text-lg">+{transaction.amount.toFixed(2)} ETB</p>
-                <p className="text-blue-200 text-sm">{transaction.transaction_type || 'N/A'}</p>
+                <p className="text-white font-bold text-lg">+{formatCurrency(transaction.amount)}</p>
+                <p className="text-blue-200 text-sm">{transaction.transaction_type || t('history.notAvailable')}</p>
               </div>
               <span className={`font-semibold ${getStatusColor(transaction.status)}`}>
-                {transaction.status.toUpperCase()}
+                {getStatusLabel(transaction.status)}
               </span>
             </div>
             {transaction.transaction_id && (
-              <p className="text-blue-300 text-xs mb-1">TX ID: {transaction.transaction_id}</p>
+              <p className="text-blue-300 text-xs mb-1">{t('history.transactionId', { id: transaction.transaction_id })}</p>
             )}
-            <p className="text-blue-200 text-xs">{formatDate(transaction.created_at)}</p>
+            <p className="text-blue-200 text-xs">{formatTime(transaction.created_at)}</p>
           </div>
         ))}
       </div>
@@ -122,7 +136,7 @@ export default function History({ user, wallet }: HistoryProps) {
       return (
         <div className="text-center py-8">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
-          <p className="text-blue-200">Loading...</p>
+          <p className="text-blue-200">{t('common.loading')}</p>
         </div>
       );
     }
@@ -130,7 +144,7 @@ export default function History({ user, wallet }: HistoryProps) {
     if (withdrawals.length === 0) {
       return (
         <div className="text-center py-8 text-blue-200">
-          <p>No withdrawal history found</p>
+          <p>{t('history.noWithdrawals')}</p>
         </div>
       );
     }
@@ -144,13 +158,13 @@ export default function History({ user, wallet }: HistoryProps) {
           >
             <div className="flex justify-between items-start mb-2">
               <div>
-                <p className="text-white font-bold text-lg">-{transaction.amount.toFixed(2)} ETB</p>
+                <p className="text-white font-bold text-lg">-{formatCurrency(transaction.amount)}</p>
               </div>
               <span className={`font-semibold ${getStatusColor(transaction.status)}`}>
-                {transaction.status.toUpperCase()}
+                {getStatusLabel(transaction.status)}
               </span>
             </div>
-            <p className="text-blue-200 text-xs">{formatDate(transaction.created_at)}</p>
+            <p className="text-blue-200 text-xs">{formatTime(transaction.created_at)}</p>
           </div>
         ))}
       </div>
@@ -162,7 +176,7 @@ export default function History({ user, wallet }: HistoryProps) {
       return (
         <div className="text-center py-8">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
-          <p className="text-blue-200">Loading...</p>
+          <p className="text-blue-200">{t('common.loading')}</p>
         </div>
       );
     }
@@ -170,7 +184,7 @@ export default function History({ user, wallet }: HistoryProps) {
     if (transfers.length === 0) {
       return (
         <div className="text-center py-8 text-blue-200">
-          <p>No transfer history found</p>
+          <p>{t('history.noTransfers')}</p>
         </div>
       );
     }
@@ -188,19 +202,19 @@ export default function History({ user, wallet }: HistoryProps) {
               <div className="flex justify-between items-start mb-2">
                 <div>
                   <p className={`text-white font-bold text-lg ${isOutgoing ? '' : 'text-green-300'}`}>
-                    {isOutgoing ? '-' : '+'}{transaction.amount.toFixed(2)} ETB
+                    {isOutgoing ? '-' : '+'}{formatCurrency(transaction.amount)}
                   </p>
                   {item.to && (
                     <p className="text-blue-200 text-sm">
-                      {isOutgoing ? 'To' : 'From'}: {item.to.first_name} {item.to.last_name || ''}
+                      {t(isOutgoing ? 'history.to' : 'history.from', { name: `${item.to.first_name} ${item.to.last_name || ''}`.trim() })}
                     </p>
                   )}
                 </div>
                 <span className={`font-semibold ${getStatusColor(transaction.status)}`}>
-                  {transaction.status.toUpperCase()}
+                  {getStatusLabel(transaction.status)}
                 </span>
               </div>
-              <p className="text-blue-200 text-xs">{formatDate(transaction.created_at)}</p>
+              <p className="text-blue-200 text-xs">{formatTime(transaction.created_at)}</p>
             </div>
           );
         })}
@@ -212,15 +226,19 @@ export default function History({ user, wallet }: HistoryProps) {
     <main className="min-h-screen bg-blue-600 text-white flex flex-col">
       {/* Header */}
       <div className="px-4 py-2 flex items-center justify-between bg-blue-700">
-        <button
-          onClick={() => setCurrentView('wallet')}
-          className="hover:text-blue-200 text-white text-sm sm:text-base flex items-center gap-2 px-2 sm:px-3 py-1 sm:py-2 font-bold"
-        >
-          <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-          </svg>
-          <span>ተመለስ</span>
-        </button>
+        {nativeBack ? (
+          <div></div>
+        ) : (
+          <button
+            onClick={() => router.back(routes.wallet())}
+            className="hover:text-blue-200 text-white text-sm sm:text-base flex items-center gap-2 px-2 sm:px-3 py-1 sm:py-2 font-bold"
+          >
+            <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            <span>{t('common.back')}</span>
+          </button>
+        )}
         <h1 className="text-xl sm:text-2xl font-bold"></h1>
         {/* Show All Toggle */}
         <button
@@ -231,7 +249,7 @@ export default function History({ user, wallet }: HistoryProps) {
               : 'bg-blue-600 text-blue-200 hover:bg-blue-500'
           }`}
         >
-          {showAll ? 'All' : '10'}
+          {showAll ? t('history.all') : '10'}
         </button>
       </div>
 
@@ -249,7 +267,7 @@ export default function History({ user, wallet }: HistoryProps) {
                 : 'bg-blue-600 text-blue-200 hover:bg-blue-500'
             }`}
           >
-            Deposits
+            {t('history.deposits')}
           </button>
           <button
             onClick={() => {
@@ -262,7 +280,7 @@ export default function History({ user, wallet }: HistoryProps) {
                 : 'bg-blue-600 text-blue-200 hover:bg-blue-500'
             }`}
           >
-            Withdrawals
+            {t('history.withdrawals')}
           </button>
           <button
             onClick={() => {
@@ -275,7 +293,7 @@ export default function History({ user, wallet }: HistoryProps) {
                 : 'bg-blue-600 text-blue-200 hover:bg-blue-500'
             }`}
           >
-            Transfers
+            {t('history.transfers')}
           </button>
         </div>
       </div>
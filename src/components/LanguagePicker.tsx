@@ -0,0 +1,24 @@
+'use client';
+
+import { LOCALES, setLocale, type Locale } from '@/lib/i18n';
+import { useTranslation } from '@/hooks/useTranslation';
+
+// Language switch - defaults to the Telegram app's language until the player picks one
+export default function LanguagePicker() {
+  const { locale, t } = useTranslation();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={t('common.language')}
+      className="bg-blue-700/60 text-white text-xs font-semibold rounded-full px-2 py-1 border-none outline-none"
+    >
+      {LOCALES.map((option) => (
+        <option key={option.value} value={option.value} className="text-gray-900">
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface LoadingScreenProps {
+  message?: string;
+}
+
+export default function LoadingScreen({ message }: LoadingScreenProps) {
+  const { t } = useTranslation();
+
+  return (
+    <main className="min-h-screen bg-tg-bg text-tg-text flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-current mx-auto mb-4"></div>
+        <p>{message ?? t('common.loading')}</p>
+      </div>
+    </main>
+  );
+}
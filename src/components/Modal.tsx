@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, type ReactNode } from 'react';
+
+interface ModalProps {
+  icon?: ReactNode;
+  title?: ReactNode;
+  // Body - plain text or structured content (e.g. the winning card)
+  children?: ReactNode;
+  // Buttons under the body
+  actions?: ReactNode;
+  // Escape and a tap on the backdrop call this; leave it out for modals that must be answered
+  onClose?: () => void;
+  wide?: boolean;
+}
+
+// Full-screen overlay card shared by dialogs, success notices and the winner popup
+export default function Modal({ icon, title, children, actions, onClose, wide = false }: ModalProps) {
+  useEffect(() => {
+    if (!onClose) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-blue-600 bg-opacity-95 flex items-center justify-center z-50 overflow-y-auto p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        onClick={(e) => e.stopPropagation()}
+        className={`bg-blue-700 border-2 border-blue-400 rounded-lg ${wide ? 'p-4 sm:p-6 max-w-lg' : 'p-6 sm:p-8 max-w-md'} mx-auto text-center shadow-xl`}
+      >
+        {icon && <div className="text-4xl sm:text-5xl mb-4">{icon}</div>}
+        {title && <h2 className="text-xl sm:text-2xl font-bold text-white mb-4">{title}</h2>}
+        {children}
+        {actions && <div className="flex gap-3 sm:gap-4 justify-center mt-6">{actions}</div>}
+      </div>
+    </div>
+  );
+}
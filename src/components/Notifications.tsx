@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { usePathname } from 'next/navigation';
+import {
+  getNotifications,
+  onNotificationsChange,
+  getVisibleToasts,
+  dismissToast,
+  closeDialog,
+  closeAllDialogs,
+  type NotificationState,
+  type ToastKind,
+} from '@/lib/notifications';
+import { useTranslation } from '@/hooks/useTranslation';
+import Modal from './Modal';
+
+const EMPTY_STATE: NotificationState = { toasts: [], dialogs: [] };
+
+const TOAST_STYLES: Record<ToastKind, { icon: string; className: string }> = {
+  success: { icon: '✅', className: 'bg-green-500' },
+  info: { icon: 'ℹ️', className: 'bg-blue-500' },
+  warning: { icon: '⚠️', className: 'bg-yellow-500' },
+  error: { icon: '❌', className: 'bg-red-500' },
+};
+
+// Renders the toast stack and the dialog on screen - mounted once in the root layout
+export default function Notifications() {
+  const { t } = useTranslation();
+  const notifications = useSyncExternalStore(onNotificationsChange, getNotifications, () => EMPTY_STATE);
+  const dialog = notifications.dialogs[0];
+  const pathname = usePathname();
+
+  useEffect(() => {
+    closeAllDialogs();
+  }, [pathname]);
+
+  return (
+    <>
+      {dialog && (
+        <Modal
+          key={dialog.id}
+          icon={dialog.icon}
+          title={dialog.title}
+          onClose={() => closeDialog(false, dialog.id)}
+          actions={
+            <>
+              <button
+                onClick={() => closeDialog(false, dialog.id)}
+                className="bg-blue-500 hover:bg-blue-600 text-white font-bold text-sm sm:text-base px-6 sm:px-8 py-2 sm:py-3 rounded-lg transition-all"
+              >
+                {dialog.cancelLabel ?? t('common.cancel')}
+              </button>
+              <button
+                onClick={() => closeDialog(true, dialog.id)}
+                className={`${dialog.danger ? 'bg-pink-500 hover:bg-pink-600' : 'bg-green-500 hover:bg-green-600'} text-white font-bold text-sm sm:text-base px-6 sm:px-8 py-2 sm:py-3 rounded-lg transition-all`}
+              >
+                {dialog.confirmLabel ?? t('common.ok')}
+              </button>
+            </>
+          }
+        >
+          {dialog.message && <p className="text-blue-200 text-sm sm:text-base">{dialog.message}</p>}
+        </Modal>
+      )}
+
+      {/* Toasts - tap to dismiss early */}
+      <div role="status" aria-live="polite" className="fixed bottom-4 inset-x-0 z-[60] flex flex-col items-center gap-2 px-4 pointer-events-none">
+        {getVisibleToasts(notifications).map((toast) => (
+          <button
+            key={toast.id}
+            onClick={() => dismissToast(toast.id)}
+            title={t('common.close')}
+            className={`${TOAST_STYLES[toast.kind].className} pointer-events-auto max-w-md w-full text-white text-sm font-semibold px-4 py-2.5 rounded-lg shadow-lg flex items-start gap-2 text-left`}
+          >
+            <span>{TOAST_STYLES[toast.kind].icon}</span>
+            <span className="flex-1">{toast.message}</span>
+          </button>
+        ))}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface OpenInTelegramProps {
+  reason: 'missing' | 'expired';
+}
+
+export default function OpenInTelegram({ reason }: OpenInTelegramProps) {
+  const { t } = useTranslation();
+
+  return (
+    <main className="min-h-screen bg-blue-600 text-white flex items-center justify-center px-4">
+      <div className="bg-blue-700 border-2 border-blue-400 rounded-lg p-6 sm:p-8 max-w-md text-center shadow-xl">
+        <div className="text-4xl sm:text-5xl mb-4">📱</div>
+        <h1 className="text-xl sm:text-2xl font-bold text-yellow-300 mb-3">
+          {t('openInTelegram.title')}
+        </h1>
+        <p className="text-blue-200 text-sm sm:text-base">
+          {reason === 'expired' ? t('openInTelegram.expired') : t('openInTelegram.missing')}
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ResyncedIndicatorProps {
+  show: boolean;
+}
+
+// Brief notice that missed game updates were recovered from the server
+export default function ResyncedIndicator({ show }: ResyncedIndicatorProps) {
+  const { t } = useTranslation();
+  if (!show) return null;
+
+  return (
+    <div className="fixed top-2 left-1/2 -translate-x-1/2 z-50 bg-green-500 text-white text-xs sm:text-sm font-bold px-3 py-1 rounded-full shadow-lg flex items-center gap-1.5">
+      <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+      </svg>
+      <span>{t('resync.done')}</span>
+    </div>
+  );
+}
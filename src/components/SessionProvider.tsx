@@ -0,0 +1,151 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { createSession, getWalletByTelegramId, toApiError, type ApiError, type User, type Wallet } from '@/lib/api';
+import { clearSession, loadStoredSession, setSession, onSessionExpired } from '@/lib/auth';
+import { getTelegramInitData, initTelegramWebApp } from '@/lib/telegram';
+import { useGameSessionRestore } from '@/hooks/useGameSessionRestore';
+import { useTranslation } from '@/hooks/useTranslation';
+import OpenInTelegram from './OpenInTelegram';
+import LoadingScreen from './LoadingScreen';
+
+interface SessionContextValue {
+  user: User;
+  wallet: Wallet;
+  setWallet: (wallet: Wallet) => void;
+  // Refetch the balance (e.g. after a game finishes)
+  refreshWallet: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+// The signed-in player and their wallet; only usable below SessionProvider
+export function useSession(): SessionContextValue {
+  const session = useContext(SessionContext);
+  if (!session) {
+    throw new Error('useSession must be used inside SessionProvider');
+  }
+  return session;
+}
+
+interface SessionProviderProps {
+  children: ReactNode;
+}
+
+// Authenticates through Telegram once for every in-app route and renders them only when signed in
+export default function SessionProvider({ children }: SessionProviderProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [wallet, setWallet] = useState<Wallet | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [authProblem, setAuthProblem] = useState<'missing' | 'expired' | null>(null);
+  const authenticatingRef = useRef(true);
+  // Put the player back into a game a reload interrupted before showing any screen
+  const restoring = useGameSessionRestore(user);
+  const { t, apiErrorMessage } = useTranslation();
+
+  useEffect(() => {
+    // ready() hides Telegram's placeholder; expand() gives the board the full screen height
+    initTelegramWebApp();
+
+    // Exchange this launch's signed initData for a backend session
+    const startSession = async () => {
+      const initData = getTelegramInitData();
+      if (initData.status !== 'ok') {
+        setAuthProblem(initData.status);
+        return null;
+      }
+      const session = await createSession(initData.initData);
+      setSession(session);
+      return session;
+    };
+
+    const fetchUserData = async () => {
+      try {
+        // Reuse the session from an earlier load of this webview, otherwise exchange Telegram's initData
+        const storedSession = loadStoredSession();
+        let session = storedSession ?? (await startSession());
+        if (!session) return;
+
+        let walletData: Wallet;
+        try {
+          walletData = await getWalletByTelegramId(session.user.telegram_id.toString());
+        } catch (err) {
+          if (!storedSession || toApiError(err).code !== 'UNAUTHORIZED') throw err;
+          // The backend no longer accepts the stored token - the webview still holds fresh initData, so try that once
+          clearSession();
+          session = await startSession();
+          if (!session) return;
+          walletData = await getWalletByTelegramId(session.user.telegram_id.toString());
+        }
+
+        setUser(session.user);
+        setWallet(walletData);
+      } catch (err) {
+        console.error('Error fetching user data:', err);
+        const apiError = toApiError(err);
+        if (apiError.code === 'UNAUTHORIZED') {
+          // Telegram's signature was rejected (tampered or stale initData)
+          setAuthProblem('expired');
+        } else {
+          setError(apiError);
+        }
+      } finally {
+        authenticatingRef.current = false;
+        setLoading(false);
+      }
+    };
+
+    fetchUserData();
+  }, []);
+
+  // Any request rejected with 401 mid-session sends the player back to the Telegram launch screen
+  useEffect(() => {
+    return onSessionExpired(() => {
+      // During sign-in fetchUserData decides, since a rejected stored token is retried with fresh initData
+      if (authenticatingRef.current) return;
+      setUser(null);
+      setWallet(null);
+      setAuthProblem('expired');
+    });
+  }, []);
+
+  const refreshWallet = useCallback(async () => {
+    if (!user) return;
+    try {
+      const updatedWallet = await getWalletByTelegramId(user.telegram_id.toString());
+      setWallet(updatedWallet);
+    } catch (err) {
+      console.error('Error refetching wallet:', err);
+    }
+  }, [user]);
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  if (authProblem) {
+    return <OpenInTelegram reason={authProblem} />;
+  }
+
+  if (error || !user || !wallet) {
+    return (
+      <main className="min-h-screen bg-tg-bg text-tg-text flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4 text-red-400">{t('session.errorTitle')}</h1>
+          <p className="text-tg-hint">{error ? apiErrorMessage(error) : t('session.loadFailed')}</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (restoring) {
+    return <LoadingScreen message={t('session.restoring')} />;
+  }
+
+  return (
+    <SessionContext.Provider value={{ user, wallet, setWallet, refreshWallet }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
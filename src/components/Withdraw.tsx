@@ -1,8 +1,14 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { type User, type Wallet, withdraw, getWalletByTelegramId, getDeposits } from '@/lib/api';
-import { useGameStore } from '@/store/gameStore';
+import { useState, useEffect, useRef } from 'react';
+import { useAppRouter } from '@/hooks/useAppRouter';
+import { type User, type Wallet, withdraw, getWalletByTelegramId, getDeposits, toApiError } from '@/lib/api';
+import { routes } from '@/lib/routes';
+import { haptic } from '@/lib/telegram';
+import { toast } from '@/lib/notifications';
+import { useTelegramBackButton, useTelegramMainButton } from '@/hooks/useTelegramButtons';
+import { useTranslation } from '@/hooks/useTranslation';
+import Modal from './Modal';
 
 interface WithdrawProps {
   user: User;
@@ -28,14 +34,18 @@ const WITHDRAW_TYPES = [
 ] as const;
 
 export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps) {
-  const { setCurrentView } = useGameStore();
+  const router = useAppRouter();
   const [withdrawType, setWithdrawType] = useState<string>('');
   const [accountNumber, setAccountNumber] = useState<string>('');
   const [amount, setAmount] = useState<string>('');
   const [submitting, setSubmitting] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
+  const successTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [hasDeposits, setHasDeposits] = useState<boolean | null>(null); // null = checking, true = has deposits, false = no deposits
   const [checkingDeposits, setCheckingDeposits] = useState(true);
+  const { t, formatCurrency, apiErrorMessage } = useTranslation();
+  const minAmount = formatCurrency(WITHDRAW_CONFIG.MIN_AMOUNT);
+  const minRemaining = formatCurrency(WITHDRAW_CONFIG.MIN_REMAINING);
 
   // Check if user has at least one deposit
   useEffect(() => {
@@ -59,6 +69,19 @@ export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps
   const isValidAmount = amountNum >= WITHDRAW_CONFIG.MIN_AMOUNT && remainingBalance >= WITHDRAW_CONFIG.MIN_REMAINING;
   const canWithdraw = hasDeposits && withdrawType && accountNumber.trim() !== '' && isValidAmount;
 
+  // Back to the wallet the form came from, rather than stacking another wallet page on top of it
+  const closeSuccessModal = () => {
+    if (successTimerRef.current) clearTimeout(successTimerRef.current);
+    successTimerRef.current = null;
+    setShowSuccessModal(false);
+    router.back(routes.wallet());
+  };
+
+  // A pending auto-close must not navigate after the player already left
+  useEffect(() => () => {
+    if (successTimerRef.current) clearTimeout(successTimerRef.current);
+  }, []);
+
   const handleWithdraw = async () => {
     if (!canWithdraw) return;
 
@@ -66,17 +89,17 @@ export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps
 
     // Validation
     if (withdrawAmount < WITHDRAW_CONFIG.MIN_AMOUNT) {
-      alert(`Minimum withdrawal amount is ${WITHDRAW_CONFIG.MIN_AMOUNT} ETB`);
+      toast.warning(t('withdraw.minError', { amount: minAmount }));
       return;
     }
 
     if (wallet.balance - withdrawAmount < WITHDRAW_CONFIG.MIN_REMAINING) {
-      alert(`You must leave at least ${WITHDRAW_CONFIG.MIN_REMAINING} ETB in your account after withdrawal`);
+      toast.warning(t('withdraw.minRemainingError', { amount: minRemaining }));
       return;
     }
 
     if (withdrawAmount > wallet.balance) {
-      alert('Insufficient balance');
+      toast.warning(t('withdraw.insufficient'));
       return;
     }
 
@@ -92,59 +115,64 @@ export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps
       }
 
       // Show success modal
+      haptic.notify('success');
       setShowSuccessModal(true);
       
       // Auto-close and navigate after 3 seconds
-      setTimeout(() => {
-        setShowSuccessModal(false);
-        setCurrentView('wallet');
-      }, 3000);
-    } catch (err: any) {
+      successTimerRef.current = setTimeout(closeSuccessModal, 3000);
+    } catch (err) {
       console.error('Error withdrawing:', err);
-      const errorMessage = err.response?.data?.error || err.response?.data?.message || 'Failed to submit withdrawal request';
-      alert(errorMessage);
+      haptic.notify('error');
+      toast.error(apiErrorMessage(toApiError(err)));
     } finally {
       setSubmitting(false);
     }
   };
 
+  const nativeBack = useTelegramBackButton(() => router.back(routes.wallet()));
+  const nativeSubmit = useTelegramMainButton({
+    text: t('withdraw.submit'),
+    onClick: handleWithdraw,
+    enabled: !!canWithdraw,
+    visible: !showSuccessModal,
+    progress: submitting,
+  });
+
   return (
     <main className="min-h-screen bg-blue-600 text-white flex flex-col">
       {/* Success Modal */}
       {showSuccessModal && (
-        <div className="fixed inset-0 bg-blue-600 bg-opacity-95 flex items-center justify-center z-50">
-          <div className="bg-blue-700 border-2 border-blue-400 rounded-lg p-6 sm:p-8 max-w-md mx-4 text-center shadow-xl">
-            <div className="text-4xl sm:text-5xl mb-4">✅</div>
-            <h2 className="text-xl sm:text-2xl font-bold text-white mb-4">
-              Withdrawal request submitted successfully!
-            </h2>
-            <p className="text-blue-200 text-sm sm:text-base mb-6">
-              It will be processed after admin approval.
-            </p>
+        <Modal
+          icon="✅"
+          title={t('withdraw.successTitle')}
+          actions={
             <button
-              onClick={() => {
-                setShowSuccessModal(false);
-                setCurrentView('wallet');
-              }}
+              onClick={closeSuccessModal}
               className="bg-green-500 hover:bg-green-600 text-white font-bold text-sm sm:text-base px-6 sm:px-8 py-2 sm:py-3 rounded-lg transition-all"
             >
-              OK
+              {t('common.ok')}
             </button>
-          </div>
-        </div>
+          }
+        >
+          <p className="text-blue-200 text-sm sm:text-base">{t('deposit.successBody')}</p>
+        </Modal>
       )}
 
       {/* Header */}
       <div className="px-4 py-2 flex items-center justify-between bg-blue-700">
-        <button
-          onClick={() => setCurrentView('wallet')}
-          className="hover:text-blue-200 text-white text-sm sm:text-base flex items-center gap-2 px-2 sm:px-3 py-1 sm:py-2 font-bold"
-        >
-          <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-          </svg>
-          <span>ተመለስ</span>
-        </button>
+        {nativeBack ? (
+          <div></div>
+        ) : (
+          <button
+            onClick={() => router.back(routes.wallet())}
+            className="hover:text-blue-200 text-white text-sm sm:text-base flex items-center gap-2 px-2 sm:px-3 py-1 sm:py-2 font-bold"
+          >
+            <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            <span>{t('common.back')}</span>
+          </button>
+        )}
         <h1 className="text-xl sm:text-2xl font-bold"></h1>
         <div className="w-20"></div>
       </div>
@@ -153,15 +181,15 @@ export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps
       <div className="flex-1 px-4 py-6 space-y-4 overflow-y-auto">
         {/* Current Balance */}
         <div className="bg-blue-700 rounded-lg p-4 border-2 border-blue-400 text-center">
-          <p className="text-blue-200 text-sm mb-1">Current Balance</p>
-          <p className="text-white font-bold text-2xl">{wallet.balance.toFixed(2)} ETB</p>
+          <p className="text-blue-200 text-sm mb-1">{t('withdraw.currentBalance')}</p>
+          <p className="text-white font-bold text-2xl">{formatCurrency(wallet.balance)}</p>
         </div>
 
         {/* Checking Deposits Loading */}
         {checkingDeposits && (
           <div className="bg-blue-700 rounded-lg p-4 border-2 border-blue-400 text-center">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-2"></div>
-            <p className="text-blue-200 text-sm">Checking deposit history...</p>
+            <p className="text-blue-200 text-sm">{t('withdraw.checkingDeposits')}</p>
           </div>
         )}
 
@@ -172,16 +200,16 @@ export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps
               <svg className="w-6 h-6 text-white" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
               </svg>
-              <h3 className="text-white font-bold text-lg">Withdrawal Not Available</h3>
+              <h3 className="text-white font-bold text-lg">{t('withdraw.unavailableTitle')}</h3>
             </div>
             <p className="text-white text-sm">
-              You must make at least one deposit before you can withdraw funds. Please make a deposit first.
+              {t('withdraw.unavailableBody')}
             </p>
             <button
-              onClick={() => setCurrentView('deposit')}
+              onClick={() => router.push(routes.deposit())}
               className="mt-3 bg-white text-red-500 font-bold px-4 py-2 rounded-lg hover:bg-red-50 transition-all"
             >
-              Go to Deposit
+              {t('withdraw.goToDeposit')}
             </button>
           </div>
         )}
@@ -189,7 +217,7 @@ export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps
         {/* Withdraw Type Dropdown */}
         <div>
           <label className="block text-white font-bold text-sm sm:text-base mb-2">
-            የወጪ አማራጭ ይምረጡ
+            {t('withdraw.method')}
           </label>
           <select
             value={withdrawType}
@@ -203,7 +231,7 @@ export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps
             }`}
             style={{ backgroundColor: 'white', color: '#111827' }}
           >
-            <option value="" style={{ backgroundColor: 'white', color: '#111827' }}>አይነት ይምረጡ</option>
+            <option value="" style={{ backgroundColor: 'white', color: '#111827' }}>{t('deposit.choosePaymentType')}</option>
             {WITHDRAW_TYPES.map((type) => (
               <option key={type.value} value={type.value} style={{ backgroundColor: 'white', color: '#111827' }}>
                 {type.label}
@@ -216,13 +244,13 @@ export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps
         {withdrawType && (
           <div>
             <label className="block text-white font-bold text-sm sm:text-base mb-2">
-            የሂሳብ ቁጥር
+            {t('withdraw.accountNumber')}
             </label>
             <input
               type="text"
               value={accountNumber}
               onChange={(e) => setAccountNumber(e.target.value)}
-              placeholder="Enter account number"
+              placeholder={t('withdraw.accountNumberPlaceholder')}
               disabled={!hasDeposits || checkingDeposits}
               className={`w-full bg-white text-gray-900 px-4 py-3 rounded-lg text-lg font-semibold ${
                 !hasDeposits || checkingDeposits ? 'opacity-50 cursor-not-allowed' : ''
@@ -234,13 +262,13 @@ export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps
         {/* Amount Input */}
         <div>
           <label className="block text-white font-bold text-sm sm:text-base mb-2">
-            የብር መጠን
+            {t('withdraw.amount')}
           </label>
           <input
             type="number"
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
-            placeholder="ያስገቡት የብር መጠን"
+            placeholder={t('withdraw.amount')}
             min={WITHDRAW_CONFIG.MIN_AMOUNT}
             max={wallet.balance - WITHDRAW_CONFIG.MIN_REMAINING}
             disabled={!hasDeposits || checkingDeposits}
@@ -251,28 +279,30 @@ export default function Withdraw({ user, wallet, onWalletUpdate }: WithdrawProps
           {amount && (
             <div className="mt-2 text-sm">
               {amountNum < WITHDRAW_CONFIG.MIN_AMOUNT ? (
-                <p className="text-red-300">Minimum withdrawal is {WITHDRAW_CONFIG.MIN_AMOUNT} ETB</p>
+                <p className="text-red-300">{t('withdraw.minError', { amount: minAmount })}</p>
               ) : remainingBalance < WITHDRAW_CONFIG.MIN_REMAINING ? (
-                <p className="text-red-300">You must leave at least {WITHDRAW_CONFIG.MIN_REMAINING} ETB remaining</p>
+                <p className="text-red-300">{t('withdraw.minRemainingError', { amount: minRemaining })}</p>
               ) : (
-                <p className="text-green-300">Remaining balance: {remainingBalance.toFixed(2)} ETB</p>
+                <p className="text-green-300">{t('withdraw.remaining', { amount: formatCurrency(remainingBalance) })}</p>
               )}
             </div>
           )}
         </div>
 
         {/* Withdraw Button */}
-        <button
-          onClick={handleWithdraw}
-          disabled={!canWithdraw || submitting}
-          className={`w-full font-bold text-lg py-4 rounded-lg transition-all shadow-lg ${
-            canWithdraw && !submitting
-              ? 'bg-red-500 hover:bg-red-600 text-white'
-              : 'bg-gray-500 text-gray-300 cursor-not-allowed'
-          }`}
-        >
-          {submitting ? 'Submitting...' : 'ወጪ'}
-        </button>
+        {!nativeSubmit && (
+          <button
+            onClick={handleWithdraw}
+            disabled={!canWithdraw || submitting}
+            className={`w-full font-bold text-lg py-4 rounded-lg transition-all shadow-lg ${
+              canWithdraw && !submitting
+                ? 'bg-red-500 hover:bg-red-600 text-white'
+                : 'bg-gray-500 text-gray-300 cursor-not-allowed'
+            }`}
+          >
+            {submitting ? t('deposit.submitting') : t('withdraw.submit')}
+          </button>
+        )}
       </div>
     </main>
   );
@@ -0,0 +1,37 @@
+import { useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+
+// How many in-app pages sit behind the current one in this tab's history. A reload starts over at 0,
+// so back() never steps out of the app into whatever Telegram or the browser had open before.
+let historyDepth = 0;
+
+if (typeof window !== 'undefined') {
+  // Fires for router.back() as well as the browser's and Android's own back
+  window.addEventListener('popstate', () => {
+    historyDepth = Math.max(0, historyDepth - 1);
+  });
+}
+
+/**
+ * useRouter with history-aware back navigation.
+ * back(parent) steps back when the player got here inside the app and otherwise replaces the page
+ * with its parent, so repeated Back presses walk up to the lobby instead of bouncing between pages.
+ */
+export function useAppRouter() {
+  const router = useRouter();
+
+  return useMemo(
+    () => ({
+      push: (href: string) => {
+        historyDepth += 1;
+        router.push(href);
+      },
+      replace: (href: string) => router.replace(href),
+      back: (parent: string) => {
+        if (historyDepth > 0) router.back();
+        else router.replace(parent);
+      },
+    }),
+    [router]
+  );
+}
@@ -0,0 +1,18 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getAudioSettings, onAudioSettingsChange, preloadVoicePack, stopCaller, type AudioSettings } from '@/lib/audioCaller';
+
+/**
+ * The number caller's settings for the play screen. Preloads the chosen voice pack and
+ * silences the caller when the screen goes away.
+ */
+export function useAudioCaller(): AudioSettings {
+  const settings = useSyncExternalStore(onAudioSettingsChange, getAudioSettings, getAudioSettings);
+
+  useEffect(() => {
+    preloadVoicePack(settings.pack);
+  }, [settings.pack]);
+
+  useEffect(() => stopCaller, []);
+
+  return settings;
+}
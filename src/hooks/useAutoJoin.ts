@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { User, Wallet } from '@/lib/api';
+import { autoJoinKey, joinNextGame } from '@/lib/autoJoin';
+import { t } from '@/lib/i18n';
+import { routes } from '@/lib/routes';
+import { toast } from '@/lib/notifications';
+import { useGameStore } from '@/store/gameStore';
+import { useGameEvents } from '@/hooks/useSocket';
+
+// Keep the result on screen for a moment before moving on
+const NEXT_GAME_DELAY_MS = 5000;
+
+interface UseAutoJoinOptions {
+  user: User;
+  gameType: string | null;
+  demo: boolean;
+  // Leave for the lobby (no auto-join, or the queue stopped)
+  onExit: () => void;
+  onWalletUpdate?: (wallet: Wallet) => void;
+}
+
+/**
+ * "Keep playing" on the play screen. Call finishGame() when the game is over: with auto-join
+ * on for this stake in the ended game's mode (demo or real) it follows NEW_GAME_AVAILABLE and joins the next game, otherwise it exits.
+ * @returns finishGame, and joiningNext while the next game is being joined
+ */
+export function useAutoJoin({ user, gameType, demo, onExit, onWalletUpdate }: UseAutoJoinOptions) {
+  const router = useRouter();
+  const { autoJoin, setAutoJoin, recordAutoJoinRound, setCurrentGameId, setSelectedCardIds } = useGameStore();
+  const key = gameType ? autoJoinKey(gameType, demo) : null;
+  const settings = key ? autoJoin[key] : undefined;
+  const [finished, setFinished] = useState(false);
+  const [joiningNext, setJoiningNext] = useState(false);
+  // Set by NEW_GAME_AVAILABLE; otherwise the open game is looked up by type
+  const nextGameIdRef = useRef<string | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Watch the stake's type channel for the next game once this one is over
+  useGameEvents(finished && settings && gameType ? { gameType, demo } : null, (message) => {
+    if (message.event === 'NEW_GAME_AVAILABLE') {
+      nextGameIdRef.current = message.data.gameId;
+    }
+  });
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  const stop = (reason: string) => {
+    console.log(`⏹️ Keep playing stopped for ${gameType}: ${reason}`);
+    if (key) setAutoJoin(key, null);
+    toast.info(t('autoJoin.stopped', { reason }));
+    onExit();
+  };
+
+  const joinNext = async () => {
+    // Read the latest settings - the player may have changed them in the meantime
+    const current = key ? useGameStore.getState().autoJoin[key] : undefined;
+    if (!gameType || !key || !current || current.demo !== demo) {
+      onExit();
+      return;
+    }
+
+    setJoiningNext(true);
+    try {
+      const previousCardIds = useGameStore.getState().selectedCardIds;
+      const result = await joinNextGame({ gameType, demo, user, settings: current, previousCardIds, gameId: nextGameIdRef.current });
+      if (result.status === 'stopped') {
+        stop(result.reason);
+        return;
+      }
+
+      console.log(`🔁 Auto-joined game ${result.gameId} with cards ${result.cardIds.join(', ')}`);
+      // Taken or unaffordable cards were dropped - say so rather than quietly playing fewer
+      if (result.cardIds.length < previousCardIds.length) {
+        toast.info(t('autoJoin.fewerCards', { count: result.cardIds.length, previous: previousCardIds.length }));
+      }
+      recordAutoJoinRound(key, result.bet);
+      onWalletUpdate?.(result.wallet);
+      setCurrentGameId(result.gameId);
+      setSelectedCardIds(result.cardIds);
+      router.replace(routes.play(result.gameId));
+    } catch (error) {
+      console.error('Error auto-joining next game:', error);
+      stop(t('autoJoin.joinFailed'));
+    } finally {
+      setJoiningNext(false);
+    }
+  };
+
+  const finishGame = () => {
+    // Both the WINNER event and our own winning claim end the game
+    if (timerRef.current) return;
+    setFinished(true);
+    timerRef.current = setTimeout(settings ? joinNext : onExit, NEXT_GAME_DELAY_MS);
+  };
+
+  return { finishGame, joiningNext, autoJoinActive: !!settings };
+}
@@ -0,0 +1,59 @@
+import { useSyncExternalStore } from 'react';
+import { onClockChange, secondsUntil, serverNow } from '@/lib/clock';
+
+// One ticker for the whole app so every view flips to the next second together.
+// It polls a little faster than once a second and only notifies when the server second changes.
+const POLL_MS = 200;
+
+let currentSecond = Math.floor(serverNow() / 1000);
+let timer: ReturnType<typeof setInterval> | null = null;
+let stopClockListener: (() => void) | null = null;
+const listeners = new Set<() => void>();
+
+const tick = () => {
+  const second = Math.floor(serverNow() / 1000);
+  if (second === currentSecond) return;
+  currentSecond = second;
+  listeners.forEach((listener) => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  if (!timer) {
+    tick();
+    timer = setInterval(tick, POLL_MS);
+    // A corrected offset should show up right away, not on the next whole second
+    stopClockListener = onClockChange(tick);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && timer) {
+      clearInterval(timer);
+      timer = null;
+      stopClockListener?.();
+      stopClockListener = null;
+    }
+  };
+};
+
+// Nothing ticks until the client subscribes
+const noopSubscribe = () => () => {};
+const getSnapshot = () => currentSecond;
+
+/**
+ * Re-render once per server second.
+ * @param active - Pass false to stop ticking while nothing is counting down
+ */
+export function useServerSecond(active: boolean = true): number {
+  return useSyncExternalStore(active ? subscribe : noopSubscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Seconds left until `countdownEnds` on the server's clock, ticking every second.
+ * Falls back to the last server-reported seconds when the end time is unknown.
+ */
+export function useCountdown(countdownEnds: string | null | undefined, fallbackSeconds: number | null = null): number | null {
+  useServerSecond(!!countdownEnds);
+  return countdownEnds ? secondsUntil(countdownEnds) : fallbackSeconds;
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState, type Dispatch } from 'react';
+import { getGameState } from '@/lib/api';
+import type { GameAction, GameSnapshot } from '@/lib/gameState';
+import { serverNow } from '@/lib/clock';
+
+const RETRY_DELAY_MS = 3000;
+const RESYNCED_INDICATOR_MS = 2500;
+
+/**
+ * Reconcile a stale game snapshot against the REST state without user action.
+ * The reducer marks the snapshot stale on sequence/drawn-count gaps and after reconnects;
+ * this refetches getGameState until it succeeds.
+ * @returns true for a moment after stale state was replaced, to show a "resynced" indicator
+ */
+export function useGameResync(
+  gameId: string | null,
+  snapshot: GameSnapshot,
+  dispatch: Dispatch<GameAction>
+): boolean {
+  const [showResynced, setShowResynced] = useState(false);
+  // Bumped to retry a failed resync
+  const [attempt, setAttempt] = useState(0);
+  // Only logged - a gap that widens while the resync is in flight shouldn't restart it
+  const gapRef = useRef(snapshot.gap);
+  gapRef.current = snapshot.gap;
+
+  useEffect(() => {
+    if (!snapshot.stale || !gameId) return;
+
+    // Aborted when the game changes (or the snapshot is no longer stale) so a late reply can't land on another game
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    if (gapRef.current) {
+      console.warn(`⚠️ Event gap detected for game ${gameId}`, gapRef.current);
+    }
+    console.log(`🔄 Resyncing game ${gameId} from server state...`);
+
+    getGameState(gameId, { signal: controller.signal })
+      .then((gameState) => {
+        if (controller.signal.aborted || gameState.game.id !== gameId) return;
+        dispatch({ type: 'SNAPSHOT', snapshot: gameState, at: serverNow() });
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Error resyncing game state:', error);
+        retryTimer = setTimeout(() => setAttempt((n) => n + 1), RETRY_DELAY_MS);
+      });
+
+    return () => {
+      controller.abort();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [snapshot.stale, gameId, attempt, dispatch]);
+
+  useEffect(() => {
+    if (!snapshot.resyncedAt) return;
+    setShowResynced(true);
+    const timer = setTimeout(() => setShowResynced(false), RESYNCED_INDICATOR_MS);
+    return () => clearTimeout(timer);
+  }, [snapshot.resyncedAt]);
+
+  return showResynced;
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { getGameState, getPlayerCardIds, type User } from '@/lib/api';
+import { isEndState } from '@/lib/gameState';
+import { routes } from '@/lib/routes';
+import { useGameStore } from '@/store/gameStore';
+
+/**
+ * Check the game saved in the store before the app renders.
+ * A game the player still holds a card in sends them back to its play screen with their marks;
+ * a finished game, or one they are no longer in, is cleared.
+ * @returns true while the check (and any redirect) is in progress
+ */
+export function useGameSessionRestore(user: User | null): boolean {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [restoring, setRestoring] = useState(true);
+  const [redirectTo, setRedirectTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const { currentGameId, selectedCardIds, setSelectedCardIds, clearActiveGame } = useGameStore.getState();
+    // Only a joined game (one with cards) is worth restoring
+    if (!currentGameId || selectedCardIds.length === 0) {
+      setRestoring(false);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([getGameState(currentGameId), getPlayerCardIds(currentGameId, user.id)])
+      .then(([gameState, cardIds]) => {
+        if (cancelled) return;
+        if (cardIds.length === 0 || isEndState(gameState.game.state)) {
+          console.log(`🧹 Saved game ${currentGameId} is over, clearing it`);
+          clearActiveGame();
+          setRestoring(false);
+          return;
+        }
+
+        console.log(`♻️ Restoring game ${currentGameId} with cards ${cardIds.join(', ')}`);
+        setSelectedCardIds(cardIds);
+        const playRoute = routes.play(currentGameId);
+        if (pathname === playRoute) {
+          setRestoring(false);
+        } else {
+          setRedirectTo(playRoute);
+          router.replace(playRoute);
+        }
+      })
+      .catch((error) => {
+        // Keep the saved game - the play screen retries when the player opens it
+        console.error('Error restoring saved game:', error);
+        if (!cancelled) setRestoring(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // Once per signed-in player, at startup - later navigation must not restore again
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
+
+  // Hold the loading screen until the play route is showing so the lobby never flashes
+  useEffect(() => {
+    if (redirectTo && pathname === redirectTo) {
+      setRedirectTo(null);
+      setRestoring(false);
+    }
+  }, [pathname, redirectTo]);
+
+  return restoring;
+}
@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getGameTypesSnapshot, loadGameTypes, onGameTypesChange, type GameTypeInfo } from '@/lib/gameTypes';
+
+/**
+ * The lobby's game types. Renders the cached catalog right away and switches to the
+ * backend's catalog once it has loaded.
+ */
+export function useGameTypes(): GameTypeInfo[] {
+  const gameTypes = useSyncExternalStore(onGameTypesChange, getGameTypesSnapshot, getGameTypesSnapshot);
+
+  useEffect(() => {
+    loadGameTypes();
+  }, []);
+
+  return gameTypes;
+}
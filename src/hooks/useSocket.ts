@@ -1,119 +1,56 @@
-import { useEffect, useState, useRef } from 'react';
-import { WS_URL } from '@/lib/api';
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { gameConnections, channelKey, type GameChannel, type ChannelListener, type ReconnectListener, type ConnectionStatus } from '@/lib/gameConnections';
 
-export interface WebSocketMessage {
-  event: string;
-  data: any;
-}
+export type { GameChannel, ConnectionStatus } from '@/lib/gameConnections';
+export type { GameEvent } from '@/lib/gameEvents';
 
 /**
- * Connect to WebSocket by game type (recommended) or game ID
- * @param gameType - Game type string (G1-G7) - recommended
- * @param gameId - Game ID (UUID) - alternative to gameType
- * @returns WebSocket instance or null
+ * Subscribe to one or more game channels through the shared connection manager.
+ * The socket is shared with every other view watching the same channel and is kept open
+ * across view changes; only the listener is added/removed here.
+ * @param channels - Game type channel(s) ({ gameType: 'G1' }) or game id channel(s) ({ gameId })
+ * @param onMessage - Called for every message; always sees the latest render's closure
+ * @param onReconnect - Called when a channel's socket reopens after a drop
  */
-export function useGameWebSocket(
-  gameType: string | null,
-  gameId: string | null = null
-): WebSocket | null {
-  const [socket, setSocket] = useState<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttempts = useRef(0);
-  const maxReconnectAttempts = 5;
+export function useGameEvents(
+  channels: GameChannel | GameChannel[] | null,
+  onMessage: ChannelListener,
+  onReconnect?: ReconnectListener
+): void {
+  const handlerRef = useRef(onMessage);
+  handlerRef.current = onMessage;
+  const reconnectRef = useRef(onReconnect);
+  reconnectRef.current = onReconnect;
+
+  const list = channels ? (Array.isArray(channels) ? channels : [channels]) : [];
+  // Resubscribe only when the set of channels actually changes
+  const keys = list.map(channelKey).join('|');
 
   useEffect(() => {
-    // Need either gameType or gameId
-    if (!gameType && !gameId) {
-      return;
-    }
-
-    const connect = () => {
-      try {
-        // Ensure WS_URL doesn't have trailing slash
-        const baseUrl = WS_URL.endsWith('/') ? WS_URL.slice(0, -1) : WS_URL;
-        
-        // Connect by game type (recommended) or game ID
-        let wsUrl: string;
-        if (gameType && /^G[1-7]$/.test(gameType)) {
-          // Connect by game type (recommended)
-          wsUrl = `${baseUrl}/api/v1/ws/game?type=${gameType}`;
-        } else if (gameId) {
-          // Connect by game ID
-          // Extract actual gameId (remove any reconnect suffix if present)
-          const actualGameId = gameId.split('-reconnect-')[0];
-          wsUrl = `${baseUrl}/api/v1/ws/game/${actualGameId}`;
-        } else {
-          console.error('Invalid gameType or gameId provided');
-          return;
-        }
-
-        console.log('🔌 Attempting WebSocket connection to:', wsUrl);
-        const ws = new WebSocket(wsUrl);
-
-        ws.onopen = () => {
-          console.log('✅ Connected to WebSocket');
-          reconnectAttempts.current = 0;
-        };
-
-        ws.onerror = (error) => {
-          // Only log error on first attempt to reduce console spam
-          if (reconnectAttempts.current === 0) {
-            console.error('❌ WebSocket error:', error);
-            console.error('❌ WebSocket URL:', wsUrl);
-          }
-        };
-
-        ws.onclose = (event) => {
-          // Only log on first disconnect to reduce console spam
-          if (reconnectAttempts.current === 0) {
-            console.log('❌ Disconnected from WebSocket');
-            console.log('   Close code:', event.code);
-            if (event.reason) {
-              console.log('   Close reason:', event.reason);
-            }
-          }
-          setSocket(null);
+    if (list.length === 0) return;
 
-          // Don't reconnect if it was a clean close or if max attempts reached
-          if (event.code === 1000 || reconnectAttempts.current >= maxReconnectAttempts) {
-            if (reconnectAttempts.current >= maxReconnectAttempts) {
-              console.error('Max reconnection attempts reached. WebSocket connection failed.');
-            }
-            return;
-          }
-
-          // Attempt to reconnect
-          reconnectAttempts.current += 1;
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), 10000);
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connect();
-          }, delay);
-        };
-
-        setSocket(ws);
-      } catch (error) {
-        console.error('Failed to create WebSocket:', error);
-      }
-    };
-
-    connect();
+    const listener: ChannelListener = (message, channel) => handlerRef.current(message, channel);
+    const reconnectListener: ReconnectListener = (channel) => reconnectRef.current?.(channel);
+    const unsubscribers = list.map((channel) => gameConnections.subscribe(channel, listener, reconnectListener));
 
     return () => {
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-      if (socket) {
-        socket.close();
-      }
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
-  }, [gameType, gameId]);
+    // keys stands in for list, which is a new array on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [keys]);
+}
+
+const subscribeStatus = (listener: () => void) => gameConnections.onStatusChange(listener);
+const getStatus = () => gameConnections.getStatus();
 
-  return socket;
+// Combined health of every game socket the app currently uses
+export function useConnectionStatus(): ConnectionStatus {
+  return useSyncExternalStore(subscribeStatus, getStatus, getStatus);
 }
 
 // Generic WebSocket hook for Socket.IO compatibility (if needed elsewhere)
 export function useSocket(): WebSocket | null {
-  console.warn('useSocket is deprecated. Use useGameWebSocket instead for game connections.');
+  console.warn('useSocket is deprecated. Use useGameEvents instead for game connections.');
   return null;
 }
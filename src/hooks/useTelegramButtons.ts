@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import { getNativeWebApp } from '@/lib/telegram';
+
+/**
+ * Show Telegram's BackButton while the calling screen is mounted; inside Telegram it replaces the
+ * screen's in-page back button.
+ * @param onBack - What the button does; pass null to keep it hidden
+ * @returns true when the native button is in use, so the screen can hide its own back button
+ */
+export function useTelegramBackButton(onBack: (() => void) | null): boolean {
+  // BackButton arrived in Bot API 6.1
+  const [native] = useState(() => getNativeWebApp('6.1') !== null);
+  const onBackRef = useRef(onBack);
+  onBackRef.current = onBack;
+  const enabled = onBack !== null;
+
+  useEffect(() => {
+    const webApp = getNativeWebApp('6.1');
+    if (!webApp || !enabled) return;
+
+    const handleClick = () => onBackRef.current?.();
+    webApp.BackButton.onClick(handleClick);
+    webApp.BackButton.show();
+
+    return () => {
+      webApp.BackButton.offClick(handleClick);
+      webApp.BackButton.hide();
+    };
+  }, [enabled]);
+
+  return native && enabled;
+}
+
+interface MainButtonOptions {
+  text: string;
+  onClick: () => void;
+  // Greyed out and unclickable when false
+  enabled?: boolean;
+  visible?: boolean;
+  // Spinner while the action is running
+  progress?: boolean;
+}
+
+/**
+ * Drive Telegram's MainButton (the bar at the bottom of the mini app) from a screen's primary action;
+ * inside Telegram it replaces the screen's in-page action button.
+ * @returns true when running inside Telegram, whether or not the button is currently visible - a
+ * screen hiding it behind a modal must not bring its in-page button back
+ */
+export function useTelegramMainButton({ text, onClick, enabled = true, visible = true, progress = false }: MainButtonOptions): boolean {
+  const [native] = useState(() => getNativeWebApp() !== null);
+  const onClickRef = useRef(onClick);
+  onClickRef.current = onClick;
+
+  useEffect(() => {
+    const webApp = getNativeWebApp();
+    if (!webApp) return;
+
+    const handleClick = () => onClickRef.current();
+    webApp.MainButton.onClick(handleClick);
+
+    return () => {
+      webApp.MainButton.offClick(handleClick);
+      webApp.MainButton.hideProgress();
+      webApp.MainButton.hide();
+    };
+  }, []);
+
+  useEffect(() => {
+    const mainButton = getNativeWebApp()?.MainButton;
+    if (!mainButton) return;
+
+    mainButton.setText(text);
+    if (enabled && !progress) mainButton.enable();
+    else mainButton.disable();
+    if (progress) mainButton.showProgress(false);
+    else mainButton.hideProgress();
+    if (visible) mainButton.show();
+    else mainButton.hide();
+  }, [text, enabled, visible, progress]);
+
+  return native;
+}
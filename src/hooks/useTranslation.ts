@@ -0,0 +1,35 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  apiErrorMessage,
+  DEFAULT_LOCALE,
+  formatCurrency,
+  formatDate,
+  formatNumber,
+  getLocale,
+  onLocaleChange,
+  translate,
+  type MessageKey,
+  type MessageParams,
+} from '@/lib/i18n';
+import type { ApiError } from '@/lib/apiClient';
+
+/**
+ * The current language for a component, re-rendering it when the player switches.
+ * Also keeps <html lang> in step.
+ */
+export function useTranslation() {
+  const lang = useSyncExternalStore(onLocaleChange, getLocale, () => DEFAULT_LOCALE);
+
+  useEffect(() => {
+    document.documentElement.lang = lang;
+  }, [lang]);
+
+  return {
+    locale: lang,
+    t: (key: MessageKey, params?: MessageParams) => translate(lang, key, params),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, options, lang),
+    formatCurrency: (amount: number) => formatCurrency(amount, lang),
+    formatDate: (date: Date | string, options?: Intl.DateTimeFormatOptions) => formatDate(date, options, lang),
+    apiErrorMessage: (error: ApiError) => apiErrorMessage(error, lang),
+  };
+}
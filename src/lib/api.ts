@@ -1,37 +1,11 @@
-import axios from 'axios';
-
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
-
-// Derive WebSocket URL from API URL (ws:// for http, wss:// for https)
-const getWebSocketUrl = (): string => {
-  let wsUrl: string;
-  
-  if (process.env.NEXT_PUBLIC_WS_URL) {
-    wsUrl = process.env.NEXT_PUBLIC_WS_URL;
-  } else {
-    // Auto-detect protocol from API_URL
-    if (API_URL.startsWith('https://')) {
-      wsUrl = API_URL.replace('https://', 'wss://');
-    } else if (API_URL.startsWith('http://')) {
-      wsUrl = API_URL.replace('http://', 'ws://');
-    } else {
-      wsUrl = 'ws://localhost:8080';
-    }
-  }
-  
-  // Ensure protocol is correct (convert https/http to wss/ws if needed)
-  if (wsUrl.startsWith('https://')) {
-    wsUrl = wsUrl.replace('https://', 'wss://');
-  } else if (wsUrl.startsWith('http://')) {
-    wsUrl = wsUrl.replace('http://', 'ws://');
-  }
-  
-  return wsUrl;
-};
-
-const WS_URL = getWebSocketUrl();
+import { apiClient, requestConfig, ApiError, type RequestOptions } from '@/lib/apiClient';
+import { API_URL, WS_URL } from '@/lib/config';
+import type { AuthSession } from '@/lib/auth';
+import type { BingoLetter } from '@/lib/cardData';
+import { secondsUntil } from '@/lib/clock';
 
 export { API_URL, WS_URL };
+export { ApiError, toApiError, type RequestOptions } from '@/lib/apiClient';
 
 export interface User {
   id: string;
@@ -62,6 +36,8 @@ export interface Game {
   prize_pool: number;
   house_cut: number;
   winner_id: string | null;
+  is_demo?: boolean; // Play-money game - bets and prizes use demo_balance
+  patterns?: string[] | null; // Winning pattern ids (see lib/bingoPatterns); missing means line + corners
   countdown_ends: string | null;
   started_at: string | null;
   finished_at: string | null;
@@ -69,69 +45,258 @@ export interface Game {
   updated_at: string;
 }
 
+export interface DrawnNumber {
+  letter: BingoLetter;
+  number: number;
+  drawn_at: string;
+}
+
 export interface GameStateResponse {
   game: Game;
-  drawnNumbers: Array<{
-    letter: string;
-    number: number;
-    drawn_at: string;
-  }>;
+  drawnNumbers: DrawnNumber[];
   takenCards: number[];
 }
 
+// Game type catalog - the stakes the lobby offers, configured on the backend
+export interface GameTypeConfig {
+  id: string; // G1, G2, ...
+  name: string;
+  bet_amount: number;
+  min_players: number;
+  house_cut: number;
+  enabled: boolean;
+  sort_order: number;
+  // Only open between these times; null/missing means always open
+  schedule?: {
+    opens_at: string | null;
+    closes_at: string | null;
+  } | null;
+}
+
+// Card API
+export interface Card {
+  id: number;
+  numbers: number[][]; // 5x5 array: [row][column]
+}
+
+// Transaction interfaces
+export interface Transaction {
+  id: string;
+  user_id: string;
+  type: 'deposit' | 'withdraw' | 'transfer_in' | 'transfer_out';
+  amount: number;
+  status: 'pending' | 'completed' | 'failed' | 'cancelled';
+  transaction_type: string | null;
+  transaction_id: string | null;
+  reference: string | null;
+  created_at: string;
+}
+
+export interface TransferTransaction {
+  transaction: Transaction;
+  to?: {
+    id: string;
+    telegram_id: number;
+    first_name: string;
+    last_name: string | null;
+  };
+}
+
+export interface GamePlayer {
+  user_id: string;
+  game_id: string;
+  card_id: number;
+  card_ids?: number[]; // Every card the player bought in this game (card_id is the first)
+}
+
+// Request/response bodies for each /api/v1 route
+export interface CreateSessionRequest {
+  init_data: string;
+}
+export type CreateSessionResponse = AuthSession;
+
+export interface UserResponse {
+  user: User;
+}
+
+export interface WalletResponse {
+  wallet: Wallet;
+}
+
+export interface GamesResponse {
+  games: Game[];
+}
+
+export interface GameTypesResponse {
+  game_types: GameTypeConfig[];
+}
+
+export interface GamePlayerResponse {
+  player: GamePlayer | null;
+}
+
+export interface JoinGameRequest {
+  user_id: string;
+  card_id: number;
+  card_ids?: number[]; // Buy several cards at once - the bet is charged per card
+}
+export interface JoinGameResponse {
+  player: GamePlayer | null;
+}
+
+export interface ClaimBingoRequest {
+  user_id: string;
+  card_id: number; // The card that has bingo
+  marked_numbers: number[]; // card position indices (0-24), free center excluded
+}
+export interface ClaimBingoResponse {
+  winner: boolean;
+  prize?: number;
+  message?: string;
+}
+
+export interface LeaveGameRequest {
+  user_id: string;
+}
+export interface LeaveGameResponse {
+  message?: string;
+}
+
+export interface CardResponse {
+  card: Card;
+}
+
+export interface DepositRequest {
+  user_id: string;
+  amount: number;
+  transaction_type: string;
+  transaction_id: string;
+}
+
+export interface WithdrawRequest {
+  user_id: string;
+  amount: number;
+  account_number: string;
+  account_type: string;
+}
+
+export interface TransactionResponse {
+  transaction: Transaction;
+}
+
+export interface DepositsResponse {
+  deposits: Transaction[] | null;
+}
+
+export interface WithdrawalsResponse {
+  withdrawals: Transaction[] | null;
+}
+
+export interface TransfersResponse {
+  transfers: TransferTransaction[] | null;
+}
+
+// Auth API
+// Exchange Telegram WebApp initData (signed by Telegram) for a backend session
+export const createSession = async (initData: string, options?: RequestOptions): Promise<AuthSession> => {
+  const body: CreateSessionRequest = { init_data: initData };
+  const response = await apiClient.post<CreateSessionResponse>('/auth/telegram', body, requestConfig(options));
+  return response.data;
+};
+
 // User API
-export const getUserByTelegramId = async (telegramId: string): Promise<User> => {
-  const response = await axios.get(`${API_URL}/api/v1/user/telegram/${telegramId}`);
+export const getUserByTelegramId = async (telegramId: string, options?: RequestOptions): Promise<User> => {
+  const response = await apiClient.get<UserResponse>(`/user/telegram/${telegramId}`, requestConfig(options));
   return response.data.user;
 };
 
 // Wallet API
-export const getWalletByTelegramId = async (telegramId: string): Promise<Wallet> => {
-  const response = await axios.get(`${API_URL}/api/v1/wallet/telegram/${telegramId}`);
+export const getWalletByTelegramId = async (telegramId: string, options?: RequestOptions): Promise<Wallet> => {
+  const response = await apiClient.get<WalletResponse>(`/wallet/telegram/${telegramId}`, requestConfig(options));
   return response.data.wallet;
 };
 
 // Games API
-export const getGames = async (type?: string): Promise<Game[]> => {
-  const params = type ? { type } : {};
-  const response = await axios.get(`${API_URL}/api/v1/games`, { params });
+export const getGameTypes = async (options?: RequestOptions): Promise<GameTypeConfig[]> => {
+  const response = await apiClient.get<GameTypesResponse>('/game-types', requestConfig(options));
+  return response.data.game_types;
+};
+
+// Demo (play-money) games are listed separately from real ones
+export const getGames = async (type?: string, demo: boolean = false, options?: RequestOptions): Promise<Game[]> => {
+  const params = { ...(type ? { type } : {}), ...(demo ? { demo: true } : {}) };
+  const response = await apiClient.get<GamesResponse>('/games', requestConfig(options, { params }));
   return response.data.games;
 };
 
-export const getGameState = async (gameId: string): Promise<GameStateResponse> => {
-  const response = await axios.get(`${API_URL}/api/v1/games/${gameId}/state`);
+// The joinable (WAITING/COUNTDOWN) game of a type - asking by type makes the backend create one if none exists
+export const findOpenGame = async (gameType: string, demo: boolean = false, options?: RequestOptions): Promise<Game | null> => {
+  const games = await getGames(gameType, demo, options);
+  return games.find((g) => g.game_type === gameType && (g.state === 'WAITING' || g.state === 'COUNTDOWN')) ?? null;
+};
+
+export const getGameState = async (gameId: string, options?: RequestOptions): Promise<GameStateResponse> => {
+  const response = await apiClient.get<GameStateResponse>(`/games/${gameId}/state`, requestConfig(options));
   return response.data;
 };
 
-// Check if user is already a player in a game
-export const checkUserInGame = async (gameId: string, userId: string): Promise<boolean> => {
+export const joinGame = async (gameId: string, body: JoinGameRequest, options?: RequestOptions): Promise<JoinGameResponse> => {
+  const response = await apiClient.post<JoinGameResponse>(`/games/${gameId}/join`, body, requestConfig(options));
+  return response.data;
+};
+
+export const claimBingo = async (gameId: string, body: ClaimBingoRequest, options?: RequestOptions): Promise<ClaimBingoResponse> => {
+  const response = await apiClient.post<ClaimBingoResponse>(`/games/${gameId}/bingo`, body, requestConfig(options));
+  return response.data;
+};
+
+export const leaveGame = async (gameId: string, body: LeaveGameRequest, options?: RequestOptions): Promise<LeaveGameResponse> => {
+  const response = await apiClient.post<LeaveGameResponse>(`/games/${gameId}/leave`, body, requestConfig(options));
+  return response.data;
+};
+
+const getGamePlayer = async (gameId: string, userId: string, options?: RequestOptions): Promise<GamePlayer | null> => {
+  const response = await apiClient.get<GamePlayerResponse>(`/games/${gameId}/players/${userId}`, requestConfig(options));
+  return response.data.player ?? null;
+};
+
+/**
+ * Check if user is already a player in a game.
+ * Only a 404 means "not in the game"; other failures are thrown, like getPlayerCardIds.
+ */
+export const checkUserInGame = async (gameId: string, userId: string, options?: RequestOptions): Promise<boolean> => {
   try {
-    const response = await axios.get(`${API_URL}/api/v1/games/${gameId}/players/${userId}`);
-    return response.data.player !== null && response.data.player !== undefined;
-  } catch (error: any) {
-    // If endpoint doesn't exist or user is not in game, return false
-    if (error.response?.status === 404) {
+    const player = await getGamePlayer(gameId, userId, options);
+    return player !== null;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
       return false;
     }
-    console.error('Error checking if user is in game:', error);
-    return false;
+    throw error;
   }
 };
 
-// Get player's card ID from a game
-export const getPlayerCardId = async (gameId: string, userId: string): Promise<number | null> => {
+/**
+ * Get the player's cards in a game (empty when they are not playing).
+ * Other failures (offline, timeouts, 5xx) are thrown - they say nothing about whether the player is in the game.
+ */
+export const getPlayerCardIds = async (gameId: string, userId: string, options?: RequestOptions): Promise<number[]> => {
   try {
-    const response = await axios.get(`${API_URL}/api/v1/games/${gameId}/players/${userId}`);
-    if (response.data.player && response.data.player.card_id) {
-      return response.data.player.card_id;
+    const player = await getGamePlayer(gameId, userId, options);
+    if (!player) return [];
+    return player.card_ids?.length ? player.card_ids : player.card_id ? [player.card_id] : [];
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return [];
     }
-    return null;
-  } catch (error: any) {
-    console.error('Error getting player card ID:', error);
-    return null;
+    throw error;
   }
 };
 
+// The balance bets are paid from - demo play never touches the real balance
+export const getPlayBalance = (wallet: Wallet, demo: boolean): number =>
+  demo ? wallet.demo_balance : wallet.balance;
+
 // Calculate potential win based on game state
 export const calculatePotentialWin = (game: Game): number => {
   if (game.player_count === 0) return 0;
@@ -140,85 +305,53 @@ export const calculatePotentialWin = (game: Game): number => {
   return totalPool - houseCut;
 };
 
-// Calculate countdown seconds remaining
-export const getCountdownSeconds = (countdownEnds: string | null): number | null => {
-  if (!countdownEnds) return null;
-  const now = new Date().getTime();
-  const ends = new Date(countdownEnds).getTime();
-  const seconds = Math.max(0, Math.floor((ends - now) / 1000));
-  return seconds > 0 ? seconds : null;
-};
+// Calculate countdown seconds remaining on the server's clock
+export const getCountdownSeconds = (countdownEnds: string | null): number | null =>
+  secondsUntil(countdownEnds);
 
 // Card API
-export interface Card {
-  id: number;
-  numbers: number[][]; // 5x5 array: [row][column]
-}
-
-export const getCard = async (cardId: number): Promise<Card> => {
-  const response = await axios.get(`${API_URL}/api/v1/cards/${cardId}`);
+export const getCard = async (cardId: number, options?: RequestOptions): Promise<Card> => {
+  const response = await apiClient.get<CardResponse>(`/cards/${cardId}`, requestConfig(options));
   return response.data.card;
 };
 
-// Transaction interfaces
-export interface Transaction {
-  id: string;
-  user_id: string;
-  type: 'deposit' | 'withdraw' | 'transfer_in' | 'transfer_out';
-  amount: number;
-  status: 'pending' | 'completed' | 'failed' | 'cancelled';
-  transaction_type: string | null;
-  transaction_id: string | null;
-  reference: string | null;
-  created_at: string;
-}
-
-export interface TransferTransaction {
-  transaction: Transaction;
-  to?: {
-    id: string;
-    telegram_id: number;
-    first_name: string;
-    last_name: string | null;
-  };
-}
-
 // Wallet Transaction API
-export const deposit = async (userId: string, amount: number, transactionType: string, transactionId: string): Promise<Transaction> => {
-  const response = await axios.post(`${API_URL}/api/v1/wallet/deposit`, {
+export const deposit = async (userId: string, amount: number, transactionType: string, transactionId: string, options?: RequestOptions): Promise<Transaction> => {
+  const body: DepositRequest = {
     user_id: userId,
     amount,
     transaction_type: transactionType,
     transaction_id: transactionId,
-  });
+  };
+  const response = await apiClient.post<TransactionResponse>('/wallet/deposit', body, requestConfig(options));
   return response.data.transaction;
 };
 
-export const withdraw = async (userId: string, amount: number, accountNumber: string, accountType: string): Promise<Transaction> => {
-  const response = await axios.post(`${API_URL}/api/v1/wallet/withdraw`, {
+export const withdraw = async (userId: string, amount: number, accountNumber: string, accountType: string, options?: RequestOptions): Promise<Transaction> => {
+  const body: WithdrawRequest = {
     user_id: userId,
     amount,
     account_number: accountNumber,
     account_type: accountType,
-  });
+  };
+  const response = await apiClient.post<TransactionResponse>('/wallet/withdraw', body, requestConfig(options));
   return response.data.transaction;
 };
 
-export const getDeposits = async (userId: string, all: boolean = false): Promise<Transaction[]> => {
+export const getDeposits = async (userId: string, all: boolean = false, options?: RequestOptions): Promise<Transaction[]> => {
   const params = all ? { all: 'true' } : {};
-  const response = await axios.get(`${API_URL}/api/v1/wallet/${userId}/deposits`, { params });
+  const response = await apiClient.get<DepositsResponse>(`/wallet/${userId}/deposits`, requestConfig(options, { params }));
   return response.data.deposits || [];
 };
 
-export const getWithdrawals = async (userId: string, all: boolean = false): Promise<Transaction[]> => {
+export const getWithdrawals = async (userId: string, all: boolean = false, options?: RequestOptions): Promise<Transaction[]> => {
   const params = all ? { all: 'true' } : {};
-  const response = await axios.get(`${API_URL}/api/v1/wallet/${userId}/withdrawals`, { params });
+  const response = await apiClient.get<WithdrawalsResponse>(`/wallet/${userId}/withdrawals`, requestConfig(options, { params }));
   return response.data.withdrawals || [];
 };
 
-export const getTransfers = async (userId: string, all: boolean = false): Promise<TransferTransaction[]> => {
+export const getTransfers = async (userId: string, all: boolean = false, options?: RequestOptions): Promise<TransferTransaction[]> => {
   const params = all ? { all: 'true' } : {};
-  const response = await axios.get(`${API_URL}/api/v1/wallet/${userId}/transfers`, { params });
+  const response = await apiClient.get<TransfersResponse>(`/wallet/${userId}/transfers`, requestConfig(options, { params }));
   return response.data.transfers || [];
 };
-
@@ -0,0 +1,139 @@
+import axios, { type AxiosError, type AxiosRequestConfig, type AxiosResponse } from 'axios';
+import { API_URL } from '@/lib/config';
+import { getSessionToken, expireSession } from '@/lib/auth';
+import { recordServerTime, serverTimeFromHeaders } from '@/lib/clock';
+
+export type ApiErrorCode =
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'VALIDATION'
+  | 'RATE_LIMITED'
+  | 'SERVER'
+  | 'UNKNOWN';
+
+/**
+ * The only error type the API layer throws.
+ * `message` is for logs - show the player apiErrorMessage() (lib/i18n), which translates the code
+ * unless the backend explained itself. `data` keeps the raw response body for callers
+ * that need route-specific fields (e.g. `winner: false` on a rejected bingo claim).
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  // The backend's own { error } / { message }, when it sent one
+  readonly serverMessage: string | null;
+  readonly status: number | null;
+  readonly retryable: boolean;
+  readonly data: unknown;
+
+  constructor(code: ApiErrorCode, serverMessage: string | null = null, status: number | null = null, data: unknown = null) {
+    super(serverMessage ?? `API request failed (${code}${status ? ` ${status}` : ''})`);
+    this.name = 'ApiError';
+    this.code = code;
+    this.serverMessage = serverMessage;
+    this.status = status;
+    this.retryable = code === 'NETWORK' || code === 'TIMEOUT' || code === 'RATE_LIMITED' || code === 'SERVER';
+    this.data = data;
+  }
+}
+
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 400 || status === 422) return 'VALIDATION';
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status >= 500) return 'SERVER';
+  return 'UNKNOWN';
+};
+
+// Normalize anything thrown by axios (or elsewhere) into an ApiError
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isCancel(error)) {
+    return new ApiError('CANCELLED');
+  }
+
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError<unknown>;
+
+    if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+      return new ApiError('TIMEOUT');
+    }
+
+    if (!axiosError.response) {
+      return new ApiError('NETWORK');
+    }
+
+    const { status, data } = axiosError.response;
+    const code = codeForStatus(status);
+    // Backend handlers reply with either { error } or { message }
+    const body = typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+    const serverMessage = typeof body.error === 'string' ? body.error : typeof body.message === 'string' ? body.message : null;
+    return new ApiError(code, serverMessage || null, status, data);
+  }
+
+  return new ApiError('UNKNOWN');
+};
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Single client for every /api/v1 route - callers pass paths relative to the prefix
+export const apiClient = axios.create({
+  baseURL: `${API_URL}/api/v1`,
+  timeout: DEFAULT_TIMEOUT_MS,
+});
+
+// When each request left, so responses can be used as clock samples
+const sentAt = new WeakMap<object, number>();
+
+const sampleServerClock = (response: AxiosResponse | undefined) => {
+  if (!response) return;
+  const started = sentAt.get(response.config);
+  const serverTime = serverTimeFromHeaders(response.headers as Record<string, unknown>);
+  if (started !== undefined && serverTime !== null) {
+    recordServerTime(serverTime, started, Date.now());
+  }
+};
+
+// Attach the session token to every backend request
+apiClient.interceptors.request.use((config) => {
+  const token = getSessionToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  sentAt.set(config, Date.now());
+  return config;
+});
+
+apiClient.interceptors.response.use((response) => {
+  sampleServerClock(response);
+  return response;
+}, (error) => {
+  // Error responses carry the server's clock too
+  sampleServerClock(error?.response);
+  const apiError = toApiError(error);
+  // A 401 means the session token was rejected - drop it so the app asks for a fresh Telegram launch
+  if (apiError.code === 'UNAUTHORIZED' && error.config?.headers?.Authorization) {
+    expireSession();
+  }
+  return Promise.reject(apiError);
+});
+
+// Map RequestOptions onto axios config
+export const requestConfig = (options: RequestOptions = {}, config: AxiosRequestConfig = {}): AxiosRequestConfig => ({
+  ...config,
+  signal: options.signal,
+  timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+});
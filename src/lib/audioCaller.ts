@@ -0,0 +1,144 @@
+import { AUDIO_URL } from '@/lib/config';
+import { BINGO_LETTERS, type BingoLetter } from '@/lib/cardData';
+import { readPlayerPref, writePlayerPref } from '@/lib/playerPrefs';
+
+// Reads drawn numbers aloud from pre-recorded voice packs
+
+export type VoicePack = 'am' | 'en';
+
+export const VOICE_PACKS: { value: VoicePack; label: string }[] = [
+  { value: 'am', label: 'አማ' },
+  { value: 'en', label: 'EN' },
+];
+
+export interface AudioSettings {
+  pack: VoicePack;
+  volume: number; // 0-1
+  muted: boolean;
+}
+
+type Sound = 'win' | 'countdown';
+
+const DEFAULT_SETTINGS: AudioSettings = { pack: 'am', volume: 0.8, muted: false };
+// Calls waiting behind the one playing; older ones are dropped so the voice never lags the board
+const MAX_PENDING_CALLS = 2;
+
+// Without a configured pack location there is nothing to play - no preloads, no calls
+export const callerAvailable = AUDIO_URL !== null;
+
+const clipName = (letter: BingoLetter, number: number) => `${letter}${number}`;
+const clipUrl = (pack: VoicePack, name: string) => `${AUDIO_URL}/${pack}/${name}.mp3`;
+
+// Every clip in a pack: the 75 calls plus the win and countdown sounds
+const packClipNames = (): string[] => [
+  ...BINGO_LETTERS.flatMap((letter, col) => Array.from({ length: 15 }, (_, i) => clipName(letter, col * 15 + i + 1))),
+  'win',
+  'countdown',
+];
+
+// One set of sound settings for the device - the phone's speaker doesn't change with the account
+const readSettings = (): AudioSettings =>
+  readPlayerPref('audio', null, DEFAULT_SETTINGS, (stored) =>
+    typeof stored === 'object' && stored !== null ? { ...DEFAULT_SETTINGS, ...stored } : DEFAULT_SETTINGS
+  );
+
+let settings: AudioSettings | null = null;
+const listeners = new Set<() => void>();
+// Preloaded clips per pack, keyed by clip name
+const packs = new Map<VoicePack, Map<string, HTMLAudioElement>>();
+const pending: string[] = [];
+let playing: HTMLAudioElement | null = null;
+
+export const getAudioSettings = (): AudioSettings => {
+  if (!settings) {
+    settings = readSettings();
+  }
+  return settings;
+};
+
+export const setAudioSettings = (change: Partial<AudioSettings>) => {
+  settings = { ...getAudioSettings(), ...change };
+  writePlayerPref('audio', null, settings);
+  if (settings.muted) stopCaller();
+  if (playing) playing.volume = settings.volume;
+  listeners.forEach((listener) => listener());
+};
+
+export const onAudioSettingsChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Start downloading a pack's clips so calls play without a delay (once per pack)
+export const preloadVoicePack = (pack: VoicePack) => {
+  if (!callerAvailable || typeof window === 'undefined' || packs.has(pack)) return;
+  const clips = new Map<string, HTMLAudioElement>();
+  packClipNames().forEach((name) => {
+    const audio = new Audio(clipUrl(pack, name));
+    audio.preload = 'auto';
+    clips.set(name, audio);
+  });
+  packs.set(pack, clips);
+  console.log(`🔈 Preloading ${pack} voice pack (${clips.size} clips)`);
+};
+
+const getClip = (name: string): HTMLAudioElement | null => {
+  const { pack } = getAudioSettings();
+  preloadVoicePack(pack);
+  return packs.get(pack)?.get(name) ?? null;
+};
+
+const play = (name: string) => {
+  const audio = getClip(name);
+  if (!audio) {
+    playNext();
+    return;
+  }
+  playing = audio;
+  audio.volume = getAudioSettings().volume;
+  audio.currentTime = 0;
+  audio.onended = playNext;
+  audio.onerror = playNext;
+  // Browsers refuse to play before the first user gesture - skip the clip rather than stall the queue
+  audio.play().catch((error) => {
+    console.warn(`🔇 Could not play ${name}:`, error);
+    if (playing === audio) playNext();
+  });
+};
+
+const playNext = () => {
+  if (playing) playing.onended = playing.onerror = null;
+  playing = null;
+  const next = pending.shift();
+  if (next) play(next);
+};
+
+/**
+ * Call a drawn number ("B 12"). Draws that arrive while a call is playing wait their turn,
+ * keeping only the latest few.
+ */
+export const callNumber = (letter: BingoLetter, number: number) => {
+  if (!callerAvailable || getAudioSettings().muted) return;
+  pending.push(clipName(letter, number));
+  if (pending.length > MAX_PENDING_CALLS) pending.splice(0, pending.length - MAX_PENDING_CALLS);
+  if (!playing) playNext();
+};
+
+// Win and countdown sounds cut in ahead of any calls still queued
+export const playSound = (sound: Sound) => {
+  if (!callerAvailable || getAudioSettings().muted) return;
+  stopCaller();
+  play(sound);
+};
+
+// Silence the caller and forget queued calls (leaving the play screen, muting)
+export const stopCaller = () => {
+  pending.length = 0;
+  if (playing) {
+    playing.onended = playing.onerror = null;
+    playing.pause();
+    playing = null;
+  }
+};
@@ -0,0 +1,84 @@
+import type { User } from '@/lib/api';
+
+export interface AuthSession {
+  token: string;
+  expires_at: string;
+  user: User;
+}
+
+const SESSION_STORAGE_KEY = 'biruh.session';
+
+let currentSession: AuthSession | null = null;
+const expiredListeners = new Set<() => void>();
+
+const isExpired = (session: AuthSession): boolean => {
+  const expiresAt = new Date(session.expires_at).getTime();
+  return Number.isFinite(expiresAt) && expiresAt <= Date.now();
+};
+
+// Restore a session saved earlier in this webview (survives reloads, not app restarts)
+export const loadStoredSession = (): AuthSession | null => {
+  if (currentSession) return currentSession;
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const raw = window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session: AuthSession = JSON.parse(raw);
+    if (!session.token || isExpired(session)) {
+      window.sessionStorage.removeItem(SESSION_STORAGE_KEY);
+      return null;
+    }
+    currentSession = session;
+    return session;
+  } catch (error) {
+    console.error('Error restoring session:', error);
+    return null;
+  }
+};
+
+export const setSession = (session: AuthSession) => {
+  currentSession = session;
+  if (typeof window !== 'undefined') {
+    window.sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  }
+};
+
+export const clearSession = () => {
+  currentSession = null;
+  if (typeof window !== 'undefined') {
+    window.sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+};
+
+export const getSessionToken = (): string | null => {
+  const session = currentSession ?? loadStoredSession();
+  if (!session) return null;
+  if (isExpired(session)) {
+    expireSession();
+    return null;
+  }
+  return session.token;
+};
+
+// Called when the backend rejects the token - drops it and tells the app to re-authenticate
+export const expireSession = () => {
+  if (!currentSession && !loadStoredSession()) return;
+  clearSession();
+  expiredListeners.forEach((listener) => listener());
+};
+
+export const onSessionExpired = (listener: () => void): (() => void) => {
+  expiredListeners.add(listener);
+  return () => {
+    expiredListeners.delete(listener);
+  };
+};
+
+// Browsers can't set headers on WebSocket handshakes, so the token travels as a query param
+export const withSessionToken = (url: string): string => {
+  const token = getSessionToken();
+  if (!token) return url;
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}token=${encodeURIComponent(token)}`;
+};
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { findOpenGame, getGameState, getWalletByTelegramId, joinGame, type Game, type User } from '@/lib/api';
+import { affordableCardCount, joinNextGame, newAutoJoinSettings, pickNextCards, type AutoJoinSettings } from '@/lib/autoJoin';
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  findOpenGame: vi.fn(),
+  getGameState: vi.fn(),
+  getWalletByTelegramId: vi.fn(),
+  joinGame: vi.fn(),
+}));
+
+const USER = { id: 'user-1', telegram_id: 42 } as User;
+
+const game: Game = {
+  id: 'game-2',
+  game_type: 'G1',
+  state: 'WAITING',
+  bet_amount: 10,
+  min_players: 2,
+  player_count: 1,
+  prize_pool: 10,
+  house_cut: 0,
+  winner_id: null,
+  countdown_ends: null,
+  started_at: null,
+  finished_at: null,
+  created_at: '2026-01-01T11:00:00Z',
+  updated_at: '2026-01-01T11:00:00Z',
+};
+
+const settings = (overrides: Partial<AutoJoinSettings> = {}): AutoJoinSettings => ({ ...newAutoJoinSettings(7, false), ...overrides });
+
+const withBalance = (balance: number) =>
+  vi.mocked(getWalletByTelegramId).mockResolvedValue({ user_id: 'user-1', balance, demo_balance: 0, updated_at: '' });
+
+describe('affordableCardCount', () => {
+  it('is limited by the balance and the rest of the spend cap', () => {
+    expect(affordableCardCount(settings(), 10, 35)).toBe(3);
+    expect(affordableCardCount(settings({ spendCap: 50, spent: 30 }), 10, 100)).toBe(2);
+    expect(affordableCardCount(settings({ spendCap: 50, spent: 50 }), 10, 100)).toBe(0);
+  });
+});
+
+describe('pickNextCards', () => {
+  it('keeps the previous cards that are still free and tops up from the preferred list', () => {
+    expect(pickNextCards([1, 2, 3], [7, 8], [2], 4)).toEqual([1, 3, 7]);
+  });
+
+  it('plays one card when there is no previous selection', () => {
+    expect(pickNextCards([], [7, 8], [7], 4)).toEqual([8]);
+  });
+
+  it('drops cards the player cannot afford', () => {
+    expect(pickNextCards([1, 2, 3, 4], [], [], 2)).toEqual([1, 2]);
+  });
+});
+
+describe('joinNextGame', () => {
+  beforeEach(() => {
+    vi.mocked(findOpenGame).mockReset();
+    vi.mocked(getGameState).mockReset();
+    vi.mocked(joinGame).mockReset().mockResolvedValue({ player: {} as never });
+    withBalance(100);
+  });
+
+  it('fetches the announced game once and rejoins with every previous card', async () => {
+    vi.mocked(getGameState).mockResolvedValue({ game, drawnNumbers: [], takenCards: [3] });
+
+    const result = await joinNextGame({ gameType: 'G1', demo: false, user: USER, settings: settings(), previousCardIds: [1, 2, 3], gameId: 'game-2' });
+
+    expect(getGameState).toHaveBeenCalledOnce();
+    expect(joinGame).toHaveBeenCalledWith('game-2', { user_id: 'user-1', card_id: 1, card_ids: [1, 2, 7] });
+    expect(result).toMatchObject({ status: 'joined', gameId: 'game-2', cardIds: [1, 2, 7], bet: 30 });
+  });
+
+  it('looks up the open game when none was announced', async () => {
+    vi.mocked(findOpenGame).mockResolvedValue(game);
+    vi.mocked(getGameState).mockResolvedValue({ game, drawnNumbers: [], takenCards: [] });
+
+    const result = await joinNextGame({ gameType: 'G1', demo: false, user: USER, settings: settings(), previousCardIds: [5] });
+
+    expect(findOpenGame).toHaveBeenCalledWith('G1', false);
+    expect(result).toMatchObject({ status: 'joined', cardIds: [5], bet: 10 });
+  });
+
+  it('plays fewer cards when the balance no longer covers all of them', async () => {
+    withBalance(25);
+    vi.mocked(getGameState).mockResolvedValue({ game, drawnNumbers: [], takenCards: [] });
+
+    const result = await joinNextGame({ gameType: 'G1', demo: false, user: USER, settings: settings(), previousCardIds: [1, 2, 3], gameId: 'game-2' });
+
+    expect(result).toMatchObject({ status: 'joined', cardIds: [1, 2], bet: 20 });
+  });
+
+  it('stops when every card is taken', async () => {
+    vi.mocked(getGameState).mockResolvedValue({ game, drawnNumbers: [], takenCards: [1, 7] });
+
+    const result = await joinNextGame({ gameType: 'G1', demo: false, user: USER, settings: settings(), previousCardIds: [1], gameId: 'game-2' });
+
+    expect(result.status).toBe('stopped');
+    expect(joinGame).not.toHaveBeenCalled();
+  });
+
+  it('stops after the last round', async () => {
+    vi.mocked(getGameState).mockResolvedValue({ game, drawnNumbers: [], takenCards: [] });
+
+    const result = await joinNextGame({
+      gameType: 'G1',
+      demo: false,
+      user: USER,
+      settings: settings({ maxRounds: 2, rounds: 2 }),
+      previousCardIds: [1],
+      gameId: 'game-2',
+    });
+
+    expect(result.status).toBe('stopped');
+    expect(joinGame).not.toHaveBeenCalled();
+  });
+
+  it('never joins a real game from a demo queue', async () => {
+    const result = await joinNextGame({ gameType: 'G1', demo: false, user: USER, settings: settings({ demo: true }), previousCardIds: [1], gameId: 'game-2' });
+
+    expect(result.status).toBe('stopped');
+    expect(getGameState).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import { findOpenGame, getGameState, getWalletByTelegramId, getPlayBalance, joinGame, type User, type Wallet } from '@/lib/api';
+import { formatCurrency, t } from '@/lib/i18n';
+
+// "Keep playing" for one stake: after each game the player is joined to the next one
+export interface AutoJoinSettings {
+  // Play-money or real games - a queue never crosses over to the other balance
+  demo: boolean;
+  // Preferred card first, then fallbacks for when it is taken
+  cardIds: number[];
+  // Stop after this many automatic joins (null = no limit)
+  maxRounds: number | null;
+  // Stop before bets would add up to more than this (null = no limit)
+  spendCap: number | null;
+  rounds: number;
+  spent: number;
+}
+
+// Settings are kept per mode and stake, e.g. "demo:G3"
+export const autoJoinKey = (gameType: string, demo: boolean) => `${demo ? 'demo' : 'real'}:${gameType}`;
+
+export const newAutoJoinSettings = (cardId: number, demo: boolean): AutoJoinSettings => ({
+  demo,
+  cardIds: [cardId],
+  maxRounds: 5,
+  spendCap: null,
+  rounds: 0,
+  spent: 0,
+});
+
+export type AutoJoinResult =
+  | { status: 'joined'; gameId: string; cardIds: number[]; bet: number; wallet: Wallet }
+  | { status: 'stopped'; reason: string };
+
+// Why the queue can't join another game, or null when it can
+export const autoJoinStopReason = (settings: AutoJoinSettings, bet: number, balance: number): string | null => {
+  if (settings.maxRounds !== null && settings.rounds >= settings.maxRounds) {
+    return t('autoJoin.allRoundsPlayed', { count: settings.maxRounds });
+  }
+  if (settings.spendCap !== null && settings.spent + bet > settings.spendCap) {
+    return t('autoJoin.spendCapReached', { amount: formatCurrency(settings.spendCap) });
+  }
+  if (balance < bet) {
+    return t('autoJoin.balanceTooLow');
+  }
+  return null;
+};
+
+// How many cards the balance and the spend cap still cover at this bet
+export const affordableCardCount = (settings: AutoJoinSettings, bet: number, balance: number): number => {
+  if (bet <= 0) return Infinity;
+  const byBalance = Math.floor(balance / bet);
+  const byCap = settings.spendCap === null ? Infinity : Math.floor((settings.spendCap - settings.spent) / bet);
+  return Math.max(0, Math.min(byBalance, byCap));
+};
+
+/**
+ * The cards to play next: the ones from the round that just ended that are still free, topped up from
+ * the preferred list to the same number, then cut down to what the player can afford.
+ */
+export const pickNextCards = (previousCardIds: number[], preferredCardIds: number[], takenCards: number[], affordable: number): number[] => {
+  const wanted = Math.max(1, previousCardIds.length);
+  const free = Array.from(new Set([...previousCardIds, ...preferredCardIds])).filter((id) => !takenCards.includes(id));
+  return free.slice(0, Math.min(wanted, affordable));
+};
+
+interface JoinNextGameParams {
+  gameType: string;
+  demo: boolean;
+  user: User;
+  settings: AutoJoinSettings;
+  // The cards played in the game that just ended - the next game is joined with as many
+  previousCardIds: number[];
+  // The game announced by NEW_GAME_AVAILABLE, if it arrived
+  gameId?: string | null;
+}
+
+/**
+ * Join the next game of a stake with the same cards as the last one, falling back to the preferred
+ * cards for any that are taken. Checks the round/spend limits and the (fresh) balance before joining.
+ */
+export const joinNextGame = async ({ gameType, demo, user, settings, previousCardIds, gameId }: JoinNextGameParams): Promise<AutoJoinResult> => {
+  // A queue set up in one mode must not spend the other balance
+  if (settings.demo !== demo) {
+    return { status: 'stopped', reason: t('autoJoin.noOpenGame') };
+  }
+
+  const announced = gameId ? await getGameState(gameId) : null;
+  const game = announced ? announced.game : await findOpenGame(gameType, demo);
+  if (!game || (game.state !== 'WAITING' && game.state !== 'COUNTDOWN') || !!game.is_demo !== demo) {
+    return { status: 'stopped', reason: t('autoJoin.noOpenGame') };
+  }
+
+  const wallet = await getWalletByTelegramId(user.telegram_id.toString());
+  const balance = getPlayBalance(wallet, demo);
+  const stopReason = autoJoinStopReason(settings, game.bet_amount, balance);
+  if (stopReason) {
+    return { status: 'stopped', reason: stopReason };
+  }
+
+  const { takenCards } = announced ?? (await getGameState(game.id));
+  const cardIds = pickNextCards(previousCardIds, settings.cardIds, takenCards, affordableCardCount(settings, game.bet_amount, balance));
+  if (cardIds.length === 0) {
+    return { status: 'stopped', reason: t('autoJoin.cardsTaken') };
+  }
+
+  const response = await joinGame(game.id, { user_id: user.id, card_id: cardIds[0], card_ids: cardIds });
+  if (!response.player) {
+    return { status: 'stopped', reason: t('autoJoin.joinFailed') };
+  }
+
+  // The bet is charged per card
+  return { status: 'joined', gameId: game.id, cardIds, bet: game.bet_amount * cardIds.length, wallet };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { BINGO_PATTERNS, cellKey, checkClaim, getActivePatterns, maskCells } from '@/lib/bingoPatterns';
+
+// Column c holds c*15+1 .. c*15+5 from top to bottom; the free center is 0
+const CARD = Array.from({ length: 5 }, (_, row) => Array.from({ length: 5 }, (_, col) => (row === 2 && col === 2 ? 0 : col * 15 + row + 1)));
+
+const pattern = (id: string) => BINGO_PATTERNS.find((p) => p.id === id)!;
+const marks = (...cells: number[]) => new Set(cells.map((cell) => cellKey(CARD, cell)));
+const numbersAt = (...cells: number[]) => cells.map((cell) => CARD[Math.floor(cell / 5)][cell % 5]);
+
+describe('pattern masks', () => {
+  it('covers a row, a column and the corners', () => {
+    expect(maskCells(['.....', 'XXXXX', '.....', '.....', '.....'])).toEqual([5, 6, 7, 8, 9]);
+    expect(maskCells(['..X..', '..X..', '..X..', '..X..', '..X..'])).toEqual([2, 7, 12, 17, 22]);
+    expect(maskCells(pattern('corners').masks[0])).toEqual([0, 4, 20, 24]);
+  });
+
+  it('has 12 line variants and a full blackout', () => {
+    expect(pattern('line').masks).toHaveLength(12);
+    expect(maskCells(pattern('blackout').masks[0])).toHaveLength(25);
+  });
+
+  it('falls back to line and corners when no known pattern is active', () => {
+    expect(getActivePatterns(null).map((p) => p.id)).toEqual(['line', 'corners']);
+    expect(getActivePatterns(['zigzag']).map((p) => p.id)).toEqual(['line', 'corners']);
+    expect(getActivePatterns(['frame', 'zigzag']).map((p) => p.id)).toEqual(['frame']);
+  });
+});
+
+describe('checkClaim', () => {
+  const patterns = getActivePatterns(null);
+
+  it('accepts a complete row backed by drawn numbers', () => {
+    const check = checkClaim(CARD, marks(0, 1, 2, 3, 4), numbersAt(0, 1, 2, 3, 4), patterns);
+    expect(check).toMatchObject({ valid: true, pattern: { id: 'line' }, winningCells: [0, 1, 2, 3, 4] });
+  });
+
+  it('returns only the winning cells, not every other mark on the card', () => {
+    const check = checkClaim(CARD, marks(0, 1, 2, 3, 4, 10, 18), numbersAt(0, 1, 2, 3, 4, 10, 18), patterns);
+    expect(check).toMatchObject({ valid: true, winningCells: [0, 1, 2, 3, 4] });
+  });
+
+  it('counts the free center without a mark', () => {
+    const check = checkClaim(CARD, marks(10, 11, 13, 14), numbersAt(10, 11, 13, 14), patterns);
+    expect(check).toMatchObject({ valid: true, pattern: { id: 'line' }, winningCells: [10, 11, 13, 14] });
+  });
+
+  it('rejects a complete-looking row that rests on an undrawn number', () => {
+    const check = checkClaim(CARD, marks(0, 1, 2, 3, 4), numbersAt(0, 1, 2, 3), patterns);
+    expect(check.valid).toBe(false);
+    if (check.valid) return;
+    expect(check.unconfirmed).toEqual([4]);
+    expect(check.reason).toContain(cellKey(CARD, 4));
+  });
+
+  it('rejects a row one number short and names the missing cell', () => {
+    const check = checkClaim(CARD, marks(0, 1, 2, 3), numbersAt(0, 1, 2, 3, 4), patterns);
+    expect(check.valid).toBe(false);
+    if (check.valid) return;
+    expect(check.unconfirmed).toEqual([]);
+    expect(check.reason).toContain(cellKey(CARD, 4));
+  });
+
+  it('accepts the four corners', () => {
+    const check = checkClaim(CARD, marks(0, 4, 20, 24), numbersAt(0, 4, 20, 24), patterns);
+    expect(check).toMatchObject({ valid: true, pattern: { id: 'corners' }, winningCells: [0, 4, 20, 24] });
+  });
+});
@@ -0,0 +1,183 @@
+import { BINGO_LETTERS } from '@/lib/cardData';
+import { t, type MessageKey } from '@/lib/i18n';
+
+// Card cells are numbered 0-24, row by row; the free center (12) holds 0
+
+// A 5x5 position mask, one string per row: 'X' is a cell the pattern needs, '.' is ignored
+type Mask = [string, string, string, string, string];
+
+export interface BingoPattern {
+  id: string;
+  name: MessageKey;
+  icon: string;
+  // Any one of these variants completes the pattern (e.g. each of the 12 lines)
+  masks: Mask[];
+}
+
+const LINE_MASKS: Mask[] = [
+  // Rows
+  ['XXXXX', '.....', '.....', '.....', '.....'],
+  ['.....', 'XXXXX', '.....', '.....', '.....'],
+  ['.....', '.....', 'XXXXX', '.....', '.....'],
+  ['.....', '.....', '.....', 'XXXXX', '.....'],
+  ['.....', '.....', '.....', '.....', 'XXXXX'],
+  // Columns
+  ['X....', 'X....', 'X....', 'X....', 'X....'],
+  ['.X...', '.X...', '.X...', '.X...', '.X...'],
+  ['..X..', '..X..', '..X..', '..X..', '..X..'],
+  ['...X.', '...X.', '...X.', '...X.', '...X.'],
+  ['....X', '....X', '....X', '....X', '....X'],
+  // Diagonals
+  ['X....', '.X...', '..X..', '...X.', '....X'],
+  ['....X', '...X.', '..X..', '.X...', 'X....'],
+];
+
+// Every pattern a game can switch on; add new ones here
+export const BINGO_PATTERNS: BingoPattern[] = [
+  { id: 'line', name: 'pattern.line', icon: '➖', masks: LINE_MASKS },
+  { id: 'corners', name: 'pattern.corners', icon: '🔲', masks: [['X...X', '.....', '.....', '.....', 'X...X']] },
+  { id: 'x', name: 'pattern.x', icon: '❌', masks: [['X...X', '.X.X.', '..X..', '.X.X.', 'X...X']] },
+  {
+    id: 'postage_stamp',
+    name: 'pattern.postageStamp',
+    icon: '📮',
+    masks: [
+      ['XX...', 'XX...', '.....', '.....', '.....'],
+      ['...XX', '...XX', '.....', '.....', '.....'],
+      ['.....', '.....', '.....', 'XX...', 'XX...'],
+      ['.....', '.....', '.....', '...XX', '...XX'],
+    ],
+  },
+  { id: 'frame', name: 'pattern.frame', icon: '🖼️', masks: [['XXXXX', 'X...X', 'X...X', 'X...X', 'XXXXX']] },
+  { id: 'blackout', name: 'pattern.blackout', icon: '⬛', masks: [['XXXXX', 'XXXXX', 'XXXXX', 'XXXXX', 'XXXXX']] },
+];
+
+// What games play when the backend doesn't say - full line or 4 corners
+export const DEFAULT_PATTERN_IDS = ['line', 'corners'];
+
+// Cell positions (0-24) a mask covers
+export const maskCells = (mask: Mask): number[] =>
+  mask.flatMap((row, rowIndex) => Array.from(row).flatMap((c, col) => (c === 'X' ? [rowIndex * 5 + col] : [])));
+
+/**
+ * The patterns a game plays with. Unknown ids are skipped so a newer backend can't break the board;
+ * with none left the defaults apply.
+ */
+export const getActivePatterns = (patternIds?: string[] | null): BingoPattern[] => {
+  const active = (patternIds ?? []).flatMap((id) => BINGO_PATTERNS.find((p) => p.id === id) ?? []);
+  return active.length > 0 ? active : BINGO_PATTERNS.filter((p) => DEFAULT_PATTERN_IDS.includes(p.id));
+};
+
+// The "B-12" key a card cell is marked under
+export const cellKey = (card: number[][], cell: number) => {
+  const col = cell % 5;
+  return `${BINGO_LETTERS[col]}-${card[Math.floor(cell / 5)][col]}`;
+};
+
+const cellNumber = (card: number[][], cell: number) => card[Math.floor(cell / 5)][cell % 5];
+
+// The free space is stored as 0 on the card
+const isFreeCell = (card: number[][], cell: number) => cellNumber(card, cell) === 0;
+
+export interface PatternProgress {
+  pattern: BingoPattern;
+  // The variant's cells
+  cells: number[];
+  // Cells still to be marked; empty when the variant is complete
+  missing: number[];
+}
+
+// How far each variant of each pattern is from complete on this card
+export const analyzeCard = (card: number[][], marked: Set<string>, patterns: BingoPattern[]): PatternProgress[] =>
+  patterns.flatMap((pattern) =>
+    pattern.masks.map((mask) => {
+      const cells = maskCells(mask);
+      return {
+        pattern,
+        cells,
+        missing: cells.filter((cell) => !isFreeCell(card, cell) && !marked.has(cellKey(card, cell))),
+      };
+    })
+  );
+
+export interface CardProgress {
+  complete: boolean;
+  // Ids of the patterns with a complete variant
+  completedPatternIds: string[];
+  // Variants one number away from complete
+  oneToGo: PatternProgress[];
+  // The cells that would complete a pattern (deduplicated)
+  neededCells: number[];
+}
+
+export const summarizeProgress = (progress: PatternProgress[]): CardProgress => {
+  const oneToGo = progress.filter((p) => p.missing.length === 1);
+  const completedPatternIds = Array.from(new Set(progress.filter((p) => p.missing.length === 0).map((p) => p.pattern.id)));
+  return {
+    complete: completedPatternIds.length > 0,
+    completedPatternIds,
+    oneToGo,
+    neededCells: Array.from(new Set(oneToGo.map((p) => p.missing[0]))),
+  };
+};
+
+export type ClaimCheck =
+  | {
+      valid: true;
+      pattern: BingoPattern;
+      // Positions (0-24) of the matched variant's cells, without the free center - what gets sent
+      // to claimBingo and highlighted as the win
+      winningCells: number[];
+    }
+  | {
+      valid: false;
+      reason: string;
+      // Cells the player marked that the drawn list doesn't back up
+      unconfirmed: number[];
+    };
+
+/**
+ * Check a claim the way the server will: marks are re-derived from the card numbers and
+ * the drawn list, so a mark that isn't backed by a drawn number never counts.
+ * @param drawnNumbers the numbers drawn so far (ideally freshly fetched)
+ */
+export const checkClaim = (card: number[][], marked: Set<string>, drawnNumbers: number[], patterns: BingoPattern[]): ClaimCheck => {
+  const drawn = new Set(drawnNumbers);
+  // Compare by number - the letter half of a "B-12" key adds nothing and can drift
+  const markedValues = new Set(Array.from(marked).map((key) => Number(key.slice(key.indexOf('-') + 1))));
+  const cells = Array.from({ length: 25 }, (_, cell) => cell).filter((cell) => !isFreeCell(card, cell));
+  const isMarked = (cell: number) => markedValues.has(cellNumber(card, cell));
+  const isConfirmed = (cell: number) => isMarked(cell) && drawn.has(cellNumber(card, cell));
+
+  const unconfirmed = cells.filter((cell) => isMarked(cell) && !drawn.has(cellNumber(card, cell)));
+  const variants = patterns.flatMap((pattern) =>
+    pattern.masks.map((mask) => ({ pattern, cells: maskCells(mask).filter((cell) => !isFreeCell(card, cell)) }))
+  );
+
+  const winning = variants.find((variant) => variant.cells.every(isConfirmed));
+  if (winning) {
+    return { valid: true, pattern: winning.pattern, winningCells: winning.cells };
+  }
+
+  // A pattern that looks complete on the card but rests on an undrawn number
+  const unbacked = variants.find((variant) => variant.cells.every(isMarked));
+  if (unbacked) {
+    const bad = unbacked.cells.filter((cell) => !isConfirmed(cell)).map((cell) => cellKey(card, cell));
+    return {
+      valid: false,
+      reason: t('pattern.notDrawn', { pattern: t(unbacked.pattern.name), numbers: bad.join(', '), count: bad.length }),
+      unconfirmed,
+    };
+  }
+
+  // Nothing complete - point at the closest pattern
+  const closest = variants.reduce((best, variant) =>
+    variant.cells.filter((cell) => !isConfirmed(cell)).length < best.cells.filter((cell) => !isConfirmed(cell)).length ? variant : best
+  );
+  const missing = closest.cells.filter((cell) => !isConfirmed(cell)).map((cell) => cellKey(card, cell));
+  return {
+    valid: false,
+    reason: t('pattern.incomplete', { pattern: t(closest.pattern.name), numbers: missing.join(', ') }),
+    unconfirmed,
+  };
+};
@@ -411,3 +411,15 @@ export const getCardData = (cardId: number): number[][] | null => {
   }
   return cardData[cardId - 1];
 };
+
+// Column letters, in card column order
+export const BINGO_LETTERS = ['B', 'I', 'N', 'G', 'O'] as const;
+export type BingoLetter = typeof BINGO_LETTERS[number];
+
+// Each column covers 15 numbers: B 1-15, I 16-30, N 31-45, G 46-60, O 61-75
+export const getLetterForNumber = (number: number): BingoLetter | null => {
+  if (!Number.isInteger(number) || number < 1 || number > 75) {
+    return null;
+  }
+  return BINGO_LETTERS[Math.floor((number - 1) / 15)];
+};
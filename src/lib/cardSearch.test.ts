@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { cardData } from '@/lib/cardData';
+import { findCardsWithNumbers, parseNumberList, pickRandomCard } from '@/lib/cardSearch';
+
+describe('parseNumberList', () => {
+  it('splits on anything that is not a digit and drops repeats and out-of-range numbers', () => {
+    expect(parseNumberList('7, 14 21/7')).toEqual([7, 14, 21]);
+    expect(parseNumberList('0 76 100 75')).toEqual([75]);
+    expect(parseNumberList('  ')).toEqual([]);
+  });
+});
+
+describe('findCardsWithNumbers', () => {
+  it('finds a card by all of its own numbers first', () => {
+    const numbers = cardData[4].flat().filter((n) => n !== 0);
+    const [best] = findCardsWithNumbers(numbers);
+    expect(best).toEqual({ cardId: 5, matched: numbers });
+  });
+
+  it('ranks by matches, then by card id, and leaves out cards with none', () => {
+    const matches = findCardsWithNumbers([1, 75]);
+    expect(matches.length).toBeGreaterThan(0);
+    expect(matches.length).toBeLessThanOrEqual(12);
+    matches.forEach((match, index) => {
+      expect(match.matched.length).toBeGreaterThan(0);
+      const next = matches[index + 1];
+      if (!next) return;
+      expect(match.matched.length > next.matched.length || (match.matched.length === next.matched.length && match.cardId < next.cardId)).toBe(true);
+    });
+  });
+
+  it('finds nothing for no numbers', () => {
+    expect(findCardsWithNumbers([])).toEqual([]);
+  });
+});
+
+describe('pickRandomCard', () => {
+  it('picks one of the given cards, or null when there are none', () => {
+    expect([3, 9, 12]).toContain(pickRandomCard([3, 9, 12]));
+    expect(pickRandomCard([])).toBeNull();
+  });
+});
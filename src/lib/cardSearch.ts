@@ -0,0 +1,41 @@
+import { cardData } from '@/lib/cardData';
+
+// Card picker search over the local card data - no API calls
+
+export interface CardMatch {
+  cardId: number;
+  // The searched numbers this card has
+  matched: number[];
+}
+
+// Results shown for a number search; the best matches come first
+const MAX_CARD_MATCHES = 12;
+
+// "7, 14 21" -> [7, 14, 21]: anything that isn't a digit separates, out-of-range and repeats are dropped
+export const parseNumberList = (input: string): number[] => {
+  const numbers = input
+    .split(/\D+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((n) => n >= 1 && n <= 75);
+  return Array.from(new Set(numbers));
+};
+
+/**
+ * Cards holding the most of the given numbers (e.g. a birthday), ranked by how many they hold.
+ * Cards with none of them are left out.
+ */
+export const findCardsWithNumbers = (numbers: number[]): CardMatch[] => {
+  if (numbers.length === 0) return [];
+  return cardData
+    .map((card, index) => {
+      const onCard = new Set(card.flat());
+      return { cardId: index + 1, matched: numbers.filter((n) => onCard.has(n)) };
+    })
+    .filter((match) => match.matched.length > 0)
+    .sort((a, b) => b.matched.length - a.matched.length || a.cardId - b.cardId)
+    .slice(0, MAX_CARD_MATCHES);
+};
+
+export const pickRandomCard = (cardIds: number[]): number | null =>
+  cardIds.length > 0 ? cardIds[Math.floor(Math.random() * cardIds.length)] : null;
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The estimate is module state - every test starts from a fresh copy
+let clock: typeof import('@/lib/clock');
+
+beforeEach(async () => {
+  vi.resetModules();
+  clock = await import('@/lib/clock');
+});
+
+describe('recordServerTime', () => {
+  it('takes the first sample as the offset, assuming the server stamped mid round trip', () => {
+    // Sent at 1000, back at 1200: the server's 6100 lines up with local 1100
+    clock.recordServerTime(6100, 1000, 1200);
+    expect(clock.getClockOffset()).toBe(5000);
+  });
+
+  it('moves a fifth of the way towards each later sample', () => {
+    clock.recordServerTime(6100, 1000, 1200);
+    clock.recordServerTime(7100, 1000, 1200);
+    expect(clock.getClockOffset()).toBe(5200);
+    clock.recordServerTime(7100, 1000, 1200);
+    expect(clock.getClockOffset()).toBe(5360);
+  });
+
+  it('ignores slow round trips and impossible timings', () => {
+    clock.recordServerTime(6100, 1000, 1200);
+    clock.recordServerTime(99999, 1000, 5000);
+    clock.recordServerTime(99999, 1200, 1000);
+    clock.recordServerTime(NaN, 1000, 1200);
+    expect(clock.getClockOffset()).toBe(5000);
+  });
+
+  it('only notifies listeners when the estimate moves noticeably', () => {
+    const listener = vi.fn();
+    clock.onClockChange(listener);
+    clock.recordServerTime(1100, 1000, 1200);
+    expect(listener).not.toHaveBeenCalled();
+    clock.recordServerTime(6100, 1000, 1200);
+    expect(listener).toHaveBeenCalledOnce();
+  });
+});
+
+describe('serverTimeFromHeaders', () => {
+  it('prefers the millisecond header', () => {
+    expect(clock.serverTimeFromHeaders({ 'x-server-time': '1767268800123', date: 'Thu, 01 Jan 2026 12:00:00 GMT' })).toBe(1767268800123);
+  });
+
+  it('falls back to the middle of the Date header second', () => {
+    expect(clock.serverTimeFromHeaders({ date: 'Thu, 01 Jan 2026 12:00:00 GMT' })).toBe(Date.parse('2026-01-01T12:00:00Z') + 500);
+    expect(clock.serverTimeFromHeaders({})).toBeNull();
+  });
+});
+
+describe('secondsUntil', () => {
+  it('counts whole seconds and is null once the time has passed', () => {
+    const now = Date.parse('2026-01-01T12:00:00Z');
+    expect(clock.secondsUntil('2026-01-01T12:00:30.900Z', now)).toBe(30);
+    expect(clock.secondsUntil('2026-01-01T11:59:59Z', now)).toBeNull();
+    expect(clock.secondsUntil(null, now)).toBeNull();
+  });
+});
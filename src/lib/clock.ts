@@ -0,0 +1,73 @@
+// Server clock estimation. Countdowns compare the server's countdown_ends against "now",
+// so a phone with a skewed clock would show the wrong remaining time - everything that
+// needs the current time for game logic should use serverNow() instead of Date.now().
+// Samples come from API response headers and, when the backend answers the socket heartbeat, from
+// PONG frames carrying server_time. The headers are the source to rely on - a backend that ignores
+// PING never sends PONG - but a cross-origin page only sees Date and X-Server-Time if the backend
+// lists them in Access-Control-Expose-Headers. With neither, the offset stays 0 (the device clock).
+
+// How much each new sample moves the estimate (exponentially weighted moving average)
+const SMOOTHING = 0.2;
+// Round trips slower than this say too little about when the server stamped the response
+const MAX_SAMPLE_RTT_MS = 3000;
+// Ignore jitter below this so the shared countdown doesn't flicker between seconds
+const NOTIFY_THRESHOLD_MS = 250;
+
+let offsetMs = 0;
+let sampleCount = 0;
+let lastNotifiedOffsetMs = 0;
+const listeners = new Set<() => void>();
+
+/**
+ * Feed one server timestamp observation into the offset estimate.
+ * @param serverTimeMs - The server's clock when it produced the response
+ * @param sentAt - Local time the request was sent
+ * @param receivedAt - Local time the response arrived
+ */
+export const recordServerTime = (serverTimeMs: number, sentAt: number, receivedAt: number) => {
+  const rtt = receivedAt - sentAt;
+  if (!Number.isFinite(serverTimeMs) || rtt < 0 || rtt > MAX_SAMPLE_RTT_MS) return;
+
+  // Assume the server stamped the response halfway through the round trip
+  const sample = serverTimeMs - (sentAt + rtt / 2);
+  offsetMs = sampleCount === 0 ? sample : offsetMs + SMOOTHING * (sample - offsetMs);
+  sampleCount += 1;
+
+  if (Math.abs(offsetMs - lastNotifiedOffsetMs) >= NOTIFY_THRESHOLD_MS) {
+    lastNotifiedOffsetMs = offsetMs;
+    listeners.forEach((listener) => listener());
+  }
+};
+
+/**
+ * Read the server time from response headers.
+ * Prefers a millisecond `X-Server-Time`; falls back to the standard `Date` header (1s resolution).
+ */
+export const serverTimeFromHeaders = (headers: Record<string, unknown>): number | null => {
+  const precise = Number(headers['x-server-time']);
+  if (Number.isFinite(precise) && precise > 0) return precise;
+
+  const date = typeof headers['date'] === 'string' ? Date.parse(headers['date']) : NaN;
+  // The Date header is truncated to the second - the true time is on average half a second later
+  return Number.isFinite(date) ? date + 500 : null;
+};
+
+export const getClockOffset = (): number => offsetMs;
+
+// Current time on the server's clock (ms since epoch)
+export const serverNow = (): number => Date.now() + offsetMs;
+
+// Whole seconds until a server timestamp, or null when it is missing or already passed
+export const secondsUntil = (isoTime: string | null | undefined, now: number = serverNow()): number | null => {
+  if (!isoTime) return null;
+  const seconds = Math.floor((new Date(isoTime).getTime() - now) / 1000);
+  return seconds > 0 ? seconds : null;
+};
+
+// Notified when the offset estimate moves noticeably
+export const onClockChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,34 @@
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
+
+// Voice packs for the number caller live under <AUDIO_URL>/<pack>/ (B12.mp3 ... O75.mp3, win.mp3, countdown.mp3).
+// No packs ship with the app - the caller stays off until this points at hosted ones.
+export const AUDIO_URL = process.env.NEXT_PUBLIC_AUDIO_URL || null;
+
+// Derive WebSocket URL from API URL (ws:// for http, wss:// for https)
+const getWebSocketUrl = (): string => {
+  let wsUrl: string;
+  
+  if (process.env.NEXT_PUBLIC_WS_URL) {
+    wsUrl = process.env.NEXT_PUBLIC_WS_URL;
+  } else {
+    // Auto-detect protocol from API_URL
+    if (API_URL.startsWith('https://')) {
+      wsUrl = API_URL.replace('https://', 'wss://');
+    } else if (API_URL.startsWith('http://')) {
+      wsUrl = API_URL.replace('http://', 'ws://');
+    } else {
+      wsUrl = 'ws://localhost:8080';
+    }
+  }
+  
+  // Ensure protocol is correct (convert https/http to wss/ws if needed)
+  if (wsUrl.startsWith('https://')) {
+    wsUrl = wsUrl.replace('https://', 'wss://');
+  } else if (wsUrl.startsWith('http://')) {
+    wsUrl = wsUrl.replace('http://', 'ws://');
+  }
+  
+  return wsUrl;
+};
+
+export const WS_URL = getWebSocketUrl();
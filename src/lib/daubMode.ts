@@ -0,0 +1,25 @@
+import type { MessageKey } from '@/lib/i18n';
+import { readPlayerPref, writePlayerPref } from '@/lib/playerPrefs';
+
+// How drawn numbers get marked on the player's cards
+//  - manual: tap every drawn number
+//  - assisted: drawn numbers on the card pulse until tapped
+//  - auto: drawn numbers are marked as they arrive (claiming bingo is still a tap)
+
+export type DaubMode = 'manual' | 'assisted' | 'auto';
+
+export const DAUB_MODE_OPTIONS: { value: DaubMode; label: MessageKey }[] = [
+  { value: 'manual', label: 'play.daubManual' },
+  { value: 'assisted', label: 'play.daubAssisted' },
+  { value: 'auto', label: 'play.daubAuto' },
+];
+
+const DEFAULT_DAUB_MODE: DaubMode = 'manual';
+
+const isDaubMode = (value: unknown): value is DaubMode => DAUB_MODE_OPTIONS.some((option) => option.value === value);
+
+// Everyone starts on manual marking until they pick another mode on the play screen
+export const loadDaubMode = (userId: string): DaubMode =>
+  readPlayerPref('daubMode', userId, DEFAULT_DAUB_MODE, (stored) => (isDaubMode(stored) ? stored : DEFAULT_DAUB_MODE));
+
+export const saveDaubMode = (userId: string, mode: DaubMode) => writePlayerPref('daubMode', userId, mode);
@@ -0,0 +1,22 @@
+import { readPlayerPref, writePlayerPref } from '@/lib/playerPrefs';
+
+// The player's favorite card ids, most preferred first. The picker pre-selects the first free one,
+// so the list is kept per player rather than shared by everyone on the phone.
+
+export const loadFavoriteCards = (userId: string): number[] =>
+  readPlayerPref('favoriteCards', userId, [], (stored) =>
+    Array.isArray(stored) ? stored.filter((id): id is number => Number.isInteger(id)) : []
+  );
+
+export const saveFavoriteCards = (userId: string, cardIds: number[]) => writePlayerPref('favoriteCards', userId, cardIds);
+
+// Starring adds a card at the end of the list; starring it again removes it
+export const toggleFavoriteCard = (cardIds: number[], cardId: number): number[] =>
+  cardIds.includes(cardId) ? cardIds.filter((id) => id !== cardId) : [...cardIds, cardId];
+
+/**
+ * The first favorite that is free in this game.
+ * @param skip - Cards to pass over as well (e.g. ones already picked)
+ */
+export const firstFreeFavorite = (cardIds: number[], takenCards: Set<number>, skip: number[] = []): number | null =>
+  cardIds.find((id) => !takenCards.has(id) && !skip.includes(id)) ?? null;
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Just enough of the browser WebSocket for the manager: tests drive open/message/close by hand
+class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: string[] = [];
+  closedWith: number | null = null;
+  onopen: (() => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close(code: number) {
+    this.closedWith = code;
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code });
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(frame: unknown) {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+}
+
+let gameConnections: typeof import('@/lib/gameConnections').gameConnections;
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.stubGlobal('WebSocket', FakeWebSocket);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  FakeWebSocket.instances = [];
+  vi.resetModules();
+  ({ gameConnections } = await import('@/lib/gameConnections'));
+});
+
+afterEach(() => {
+  gameConnections.closeAll();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const SILENCE_MS = 60000;
+
+describe('heartbeat', () => {
+  it('pings as soon as the socket opens', () => {
+    gameConnections.subscribe({ gameId: 'game-1' }, () => {});
+    const [ws] = FakeWebSocket.instances;
+    ws.open();
+    expect(JSON.parse(ws.sent[0])).toMatchObject({ event: 'PING' });
+  });
+
+  it('keeps a quiet socket open while the backend has never answered a PING', () => {
+    const onReconnect = vi.fn();
+    gameConnections.subscribe({ gameId: 'game-1' }, () => {}, onReconnect);
+    const [ws] = FakeWebSocket.instances;
+    ws.open();
+
+    vi.advanceTimersByTime(SILENCE_MS);
+
+    expect(ws.closedWith).toBeNull();
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(onReconnect).not.toHaveBeenCalled();
+  });
+
+  it('replaces a socket that answered PING once and then went silent', () => {
+    const onReconnect = vi.fn();
+    gameConnections.subscribe({ gameId: 'game-1' }, () => {}, onReconnect);
+    const [ws] = FakeWebSocket.instances;
+    ws.open();
+    ws.receive({ event: 'PONG', data: {} });
+
+    vi.advanceTimersByTime(SILENCE_MS);
+    expect(ws.closedWith).toBe(4000);
+
+    // The backoff reconnect opens a fresh socket, which counts as a reconnect
+    vi.advanceTimersByTime(SILENCE_MS);
+    const replacement = FakeWebSocket.instances[1];
+    expect(replacement).toBeDefined();
+    replacement.open();
+    expect(onReconnect).toHaveBeenCalledOnce();
+  });
+
+  it('keeps a socket that answers every PING', () => {
+    gameConnections.subscribe({ gameId: 'game-1' }, () => {});
+    const [ws] = FakeWebSocket.instances;
+    ws.open();
+
+    for (let i = 0; i < 6; i++) {
+      ws.receive({ event: 'PONG', data: {} });
+      vi.advanceTimersByTime(15000);
+    }
+
+    expect(ws.closedWith).toBeNull();
+  });
+});
@@ -0,0 +1,432 @@
+import { WS_URL } from '@/lib/config';
+import { withSessionToken } from '@/lib/auth';
+import { recordServerTime } from '@/lib/clock';
+import { parseGameEvent, type GameEvent } from '@/lib/gameEvents';
+
+// A channel follows either a stake's current game (`demo` for the play-money lobby) or one game id
+export type GameChannel =
+  | { gameType: string; demo?: boolean; gameId?: undefined }
+  | { gameId: string; gameType?: undefined; demo?: undefined };
+
+// Listeners only ever receive validated, normalized events
+export type ChannelListener = (message: GameEvent, channel: GameChannel) => void;
+
+// Called when a channel's socket opens again after having been open - frames may have been missed meanwhile
+export type ReconnectListener = (channel: GameChannel) => void;
+
+// Overall health of the game sockets, worst channel wins
+export type ConnectionState = 'connected' | 'connecting' | 'reconnecting' | 'offline';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  // Local time (ms) of the next scheduled reconnect attempt while reconnecting
+  retryAt: number | null;
+}
+
+interface Channel {
+  key: string;
+  target: GameChannel;
+  socket: WebSocket | null;
+  listeners: Set<ChannelListener>;
+  reconnectListeners: Set<ReconnectListener>;
+  // Whether a socket on this channel has opened before (the next open is a reconnect)
+  hasOpened: boolean;
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  retryAt: number | null;
+  // Last time any frame arrived on the current socket
+  lastFrameAt: number;
+  // Whether the current socket has answered a PING - only then is silence a sign of a dead socket
+  pongSeen: boolean;
+  heartbeatTimer: ReturnType<typeof setInterval> | null;
+  // Pending close after the last subscriber left (cancelled if someone resubscribes)
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+const STATE_SEVERITY: Record<ConnectionState, number> = { connected: 0, connecting: 1, reconnecting: 2, offline: 3 };
+// Ping the server this often; any frame (including PONG) proves the socket is alive.
+// Not every backend build answers PING, and a waiting lobby can go quiet for minutes, so the
+// timeout below only applies to a socket that has replied with PONG at least once.
+const HEARTBEAT_INTERVAL_MS = 15000;
+// A socket that answers PINGs but sends no frames for this long is treated as half-open and replaced
+const HEARTBEAT_TIMEOUT_MS = 45000;
+// Close code for sockets we drop ourselves because the heartbeat timed out
+const HEARTBEAT_CLOSE_CODE = 4000;
+// Keep idle sockets around briefly so selection -> cards -> play doesn't rebuild them
+const IDLE_CLOSE_DELAY_MS = 15000;
+// The backend binds a type socket to the game that is current when it connects,
+// so after NEW_GAME_AVAILABLE the socket must reconnect to follow the new game
+const NEW_GAME_RESUBSCRIBE_DELAY_MS = 2000;
+
+export const channelKey = (target: GameChannel): string =>
+  target.gameType ? `type:${target.demo ? 'demo:' : ''}${target.gameType}` : `game:${target.gameId}`;
+
+// PING carries the local send time; a PONG echoing it with the server's clock is a round-trip clock sample.
+// Unlike X-Server-Time it isn't hidden from a cross-origin page, but it's only a bonus: a backend that
+// ignores PING never answers, and the HTTP headers stay the one guaranteed source (see lib/clock.ts).
+const sendPing = (ws: WebSocket) => {
+  try {
+    ws.send(JSON.stringify({ event: 'PING', data: { client_time: Date.now() } }));
+  } catch (error) {
+    // A failed send means the socket is already going away - onclose handles it
+  }
+};
+
+const samplePong = (data: unknown) => {
+  const { client_time: clientTime, server_time: serverTime } = (data ?? {}) as { client_time?: unknown; server_time?: unknown };
+  if (typeof clientTime !== 'number' || typeof serverTime !== 'number') return;
+  recordServerTime(serverTime, clientTime, Date.now());
+};
+
+const channelUrl = (target: GameChannel): string => {
+  // Ensure WS_URL doesn't have trailing slash
+  const baseUrl = WS_URL.endsWith('/') ? WS_URL.slice(0, -1) : WS_URL;
+  const url = target.gameType
+    ? `${baseUrl}/api/v1/ws/game?type=${encodeURIComponent(target.gameType)}${target.demo ? '&demo=true' : ''}`
+    : `${baseUrl}/api/v1/ws/game/${target.gameId}`;
+  return withSessionToken(url);
+};
+
+/**
+ * Owns every game WebSocket in the app.
+ * Sockets are shared and reference-counted per channel (game type or game id); listeners are
+ * attached to the channel rather than the socket, so they survive reconnects untouched.
+ */
+class GameConnectionManager {
+  private channels = new Map<string, Channel>();
+  private status: ConnectionStatus = { state: 'connected', retryAt: null };
+  private statusListeners = new Set<() => void>();
+
+  subscribe(target: GameChannel, listener: ChannelListener, onReconnect?: ReconnectListener): () => void {
+    const key = channelKey(target);
+    let channel = this.channels.get(key);
+
+    if (!channel) {
+      channel = {
+        key,
+        target,
+        socket: null,
+        listeners: new Set(),
+        reconnectListeners: new Set(),
+        hasOpened: false,
+        reconnectAttempts: 0,
+        reconnectTimer: null,
+        retryAt: null,
+        lastFrameAt: 0,
+        pongSeen: false,
+        heartbeatTimer: null,
+        idleTimer: null,
+      };
+      this.channels.set(key, channel);
+    }
+
+    if (channel.idleTimer) {
+      clearTimeout(channel.idleTimer);
+      channel.idleTimer = null;
+    }
+
+    channel.listeners.add(listener);
+    if (onReconnect) channel.reconnectListeners.add(onReconnect);
+
+    if (!channel.socket && !channel.reconnectTimer) {
+      this.connect(channel);
+    }
+    this.updateStatus();
+
+    return () => this.unsubscribe(key, listener, onReconnect);
+  }
+
+  // Drop the current socket (if any) and connect again right away
+  reconnect(target: GameChannel) {
+    const channel = this.channels.get(channelKey(target));
+    if (!channel) return;
+
+    console.log(`🔄 Reconnecting WebSocket channel ${channel.key}...`);
+    channel.reconnectAttempts = 0;
+    this.teardownSocket(channel);
+    this.connect(channel);
+  }
+
+  // Reconnect every channel that isn't open right now (tap to retry, back online, tab visible again)
+  retryNow() {
+    if (isOffline()) {
+      this.refreshStatus();
+      return;
+    }
+    this.channels.forEach((channel) => {
+      if (channel.listeners.size === 0) return;
+      const state = channel.socket?.readyState;
+      if (state === WebSocket.OPEN || state === WebSocket.CONNECTING) return;
+      this.reconnect(channel.target);
+    });
+  }
+
+  isOpen(target: GameChannel): boolean {
+    const channel = this.channels.get(channelKey(target));
+    return channel?.socket?.readyState === WebSocket.OPEN;
+  }
+
+  // Re-evaluate the overall status after something outside the sockets changed (e.g. the device went offline)
+  refreshStatus() {
+    this.updateStatus();
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  onStatusChange(listener: () => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  closeAll() {
+    this.channels.forEach((channel) => {
+      if (channel.idleTimer) clearTimeout(channel.idleTimer);
+      this.teardownSocket(channel);
+    });
+    this.channels.clear();
+    this.updateStatus();
+  }
+
+  private unsubscribe(key: string, listener: ChannelListener, onReconnect?: ReconnectListener) {
+    const channel = this.channels.get(key);
+    if (!channel) return;
+
+    channel.listeners.delete(listener);
+    if (onReconnect) channel.reconnectListeners.delete(onReconnect);
+    if (channel.listeners.size > 0 || channel.idleTimer) return;
+
+    channel.idleTimer = setTimeout(() => {
+      channel.idleTimer = null;
+      if (channel.listeners.size > 0) return;
+      console.log(`🔌 Closing idle WebSocket channel ${key}`);
+      this.teardownSocket(channel);
+      this.channels.delete(key);
+      this.updateStatus();
+    }, IDLE_CLOSE_DELAY_MS);
+  }
+
+  private connect(channel: Channel) {
+    const url = channelUrl(channel.target);
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(url);
+    } catch (error) {
+      console.error(`Failed to create WebSocket for ${channel.key}:`, error);
+      this.scheduleReconnect(channel);
+      return;
+    }
+
+    channel.socket = ws;
+    channel.retryAt = null;
+    this.updateStatus();
+
+    ws.onopen = () => {
+      console.log(`✅ Connected to WebSocket channel ${channel.key}`);
+      channel.reconnectAttempts = 0;
+      this.startHeartbeat(channel, ws);
+      this.updateStatus();
+
+      const reconnected = channel.hasOpened;
+      channel.hasOpened = true;
+      if (reconnected) {
+        channel.reconnectListeners.forEach((listener) => {
+          try {
+            listener(channel.target);
+          } catch (error) {
+            console.error(`Error handling reconnect for ${channel.key}:`, error);
+          }
+        });
+      }
+    };
+
+    ws.onerror = (error) => {
+      // Only log error on first attempt to reduce console spam
+      if (channel.reconnectAttempts === 0) {
+        console.error(`❌ WebSocket error for ${channel.key}:`, error);
+      }
+    };
+
+    ws.onclose = (event) => {
+      // Ignore sockets this channel has already replaced
+      if (channel.socket !== ws) return;
+      channel.socket = null;
+      this.stopHeartbeat(channel);
+
+      if (channel.reconnectAttempts === 0) {
+        console.log(`❌ Disconnected from WebSocket channel ${channel.key} (code ${event.code})`);
+      }
+
+      // Don't reconnect if nobody is listening or it was a clean close
+      if (channel.listeners.size === 0 || event.code === 1000) {
+        this.updateStatus();
+        return;
+      }
+      this.scheduleReconnect(channel);
+    };
+
+    ws.onmessage = (event: MessageEvent) => {
+      channel.lastFrameAt = Date.now();
+
+      let frame: unknown;
+      try {
+        frame = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+      } catch (error) {
+        console.warn('⚠️ Rejected malformed WebSocket frame', { source: channel.key, reason: 'invalid JSON', frame: event.data });
+        return;
+      }
+
+      // Heartbeat replies keep the socket alive and sample the server clock
+      const envelope = frame as { event?: unknown; data?: unknown } | null;
+      if (envelope?.event === 'PONG') {
+        channel.pongSeen = true;
+        samplePong(envelope.data);
+        return;
+      }
+
+      const message = parseGameEvent(frame, channel.key);
+      if (!message) return;
+
+      channel.listeners.forEach((listener) => {
+        try {
+          listener(message, channel.target);
+        } catch (error) {
+          console.error(`Error handling ${message.event} for ${channel.key}:`, error);
+        }
+      });
+
+      if (message.event === 'NEW_GAME_AVAILABLE' && channel.target.gameType) {
+        setTimeout(() => {
+          if (this.channels.get(channel.key) === channel && channel.listeners.size > 0) {
+            // Switching games isn't a drop: the new game's INITIAL_STATE is all there is to catch up on,
+            // so the next open must not run the reconnect listeners (and their resync)
+            channel.hasOpened = false;
+            this.reconnect(channel.target);
+          }
+        }, NEW_GAME_RESUBSCRIBE_DELAY_MS);
+      }
+    };
+  }
+
+  // Retries forever with backoff; pauses while the tab is hidden or the device is offline
+  // (the visibilitychange/online handlers reconnect immediately when that changes)
+  private scheduleReconnect(channel: Channel) {
+    if (channel.reconnectTimer) return;
+
+    if (isPaused()) {
+      channel.retryAt = null;
+      this.updateStatus();
+      return;
+    }
+
+    channel.reconnectAttempts += 1;
+    const backoff = Math.min(1000 * Math.pow(2, channel.reconnectAttempts), MAX_RECONNECT_DELAY_MS);
+    // Jitter so every channel (and every player) doesn't hit the server at the same moment
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    channel.retryAt = Date.now() + delay;
+
+    channel.reconnectTimer = setTimeout(() => {
+      channel.reconnectTimer = null;
+      channel.retryAt = null;
+      if (this.channels.get(channel.key) === channel && channel.listeners.size > 0) {
+        this.connect(channel);
+      }
+    }, delay);
+    this.updateStatus();
+  }
+
+  private startHeartbeat(channel: Channel, ws: WebSocket) {
+    this.stopHeartbeat(channel);
+    channel.lastFrameAt = Date.now();
+    channel.pongSeen = false;
+    // Ping right away so the clock offset is known before the first countdown
+    sendPing(ws);
+
+    channel.heartbeatTimer = setInterval(() => {
+      if (channel.socket !== ws) return;
+
+      if (channel.pongSeen && Date.now() - channel.lastFrameAt > HEARTBEAT_TIMEOUT_MS) {
+        console.warn(`💔 No frames on ${channel.key} for ${HEARTBEAT_TIMEOUT_MS / 1000}s - replacing half-open socket`);
+        this.stopHeartbeat(channel);
+        channel.socket = null;
+        ws.close(HEARTBEAT_CLOSE_CODE);
+        this.scheduleReconnect(channel);
+        return;
+      }
+
+      sendPing(ws);
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(channel: Channel) {
+    if (channel.heartbeatTimer) {
+      clearInterval(channel.heartbeatTimer);
+      channel.heartbeatTimer = null;
+    }
+  }
+
+  private channelState(channel: Channel): ConnectionState {
+    const socketState = channel.socket?.readyState;
+    if (socketState === WebSocket.OPEN) return 'connected';
+    // A first connect is just loading; anything after a drop counts as reconnecting
+    const dropped = channel.hasOpened || channel.reconnectAttempts > 0;
+    if (socketState === WebSocket.CONNECTING) return dropped ? 'reconnecting' : 'connecting';
+    if (channel.reconnectTimer) return 'reconnecting';
+    // Closed with nothing scheduled - waiting for the tab to come back or a manual retry
+    return 'offline';
+  }
+
+  private updateStatus() {
+    let state: ConnectionState = isOffline() ? 'offline' : 'connected';
+    let retryAt: number | null = null;
+
+    for (const channel of this.channels.values()) {
+      if (channel.listeners.size === 0) continue;
+      const channelState = this.channelState(channel);
+      if (STATE_SEVERITY[channelState] > STATE_SEVERITY[state]) state = channelState;
+      if (channel.retryAt !== null && (retryAt === null || channel.retryAt < retryAt)) retryAt = channel.retryAt;
+    }
+    if (state !== 'reconnecting') retryAt = null;
+
+    if (state === this.status.state && retryAt === this.status.retryAt) return;
+    this.status = { state, retryAt };
+    this.statusListeners.forEach((listener) => listener());
+  }
+
+  private teardownSocket(channel: Channel) {
+    if (channel.reconnectTimer) {
+      clearTimeout(channel.reconnectTimer);
+      channel.reconnectTimer = null;
+    }
+    channel.retryAt = null;
+    this.stopHeartbeat(channel);
+    const ws = channel.socket;
+    channel.socket = null;
+    if (ws && (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)) {
+      ws.close(1000);
+    }
+  }
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const isPaused = () => isOffline() || (typeof document !== 'undefined' && document.visibilityState === 'hidden');
+
+export const gameConnections = new GameConnectionManager();
+
+if (typeof window !== 'undefined') {
+  // Close sockets only when the page itself is unloading
+  window.addEventListener('beforeunload', () => gameConnections.closeAll());
+
+  // Don't wait out the backoff once the network or the tab is back
+  window.addEventListener('online', () => gameConnections.retryNow());
+  window.addEventListener('offline', () => gameConnections.refreshStatus());
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') gameConnections.retryNow();
+  });
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseGameEvent } from '@/lib/gameEvents';
+
+describe('parseGameEvent', () => {
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('normalizes legacy field names', () => {
+    const event = parseGameEvent(
+      { event: 'WINNER', data: { user_name: 'Abebe', card_number: '12', prize: 90, marked_numbers: ['1', 2] } },
+      'test'
+    );
+    expect(event).toEqual({
+      event: 'WINNER',
+      data: { user_id: undefined, winner_name: 'Abebe', card_id: 12, prize: 90, marked_numbers: [1, 2] },
+    });
+  });
+
+  it('derives the letter of a drawn number and keeps the sequence number', () => {
+    const event = parseGameEvent({ event: 'NUMBER_DRAWN', seq: 7, data: { number: 42, drawn_at: '2026-01-01T12:00:00Z' } }, 'test');
+    expect(event).toEqual({
+      event: 'NUMBER_DRAWN',
+      seq: 7,
+      data: { letter: 'N', number: 42, drawn_at: '2026-01-01T12:00:00Z', drawn_count: undefined },
+    });
+  });
+
+  it('reads the older `status` field of GAME_STATUS', () => {
+    const event = parseGameEvent({ event: 'GAME_STATUS', data: { status: 'FINISHED' } }, 'test');
+    expect(event?.event).toBe('GAME_STATUS');
+    expect(event?.data).toMatchObject({ state: 'FINISHED' });
+  });
+
+  it('treats a missing data object as empty', () => {
+    const event = parseGameEvent({ event: 'INITIAL_STATE' }, 'test');
+    expect(event).toEqual({ event: 'INITIAL_STATE', data: { game: null, drawnNumbers: [], takenCards: [] } });
+  });
+
+  it.each([
+    ['an unknown event', { event: 'SOMETHING_NEW', data: {} }],
+    ['an inherited object key', { event: 'constructor', data: {} }],
+    ['another inherited object key', { event: 'toString', data: {} }],
+    ['a missing event name', { data: {} }],
+  ])('rejects %s', (_label, frame) => {
+    expect(parseGameEvent(frame, 'test')).toBeNull();
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it.each([
+    ['a frame that is not an object', 'NUMBER_DRAWN'],
+    ['a data field that is not an object', { event: 'COUNTDOWN', data: [30] }],
+    ['a missing required field', { event: 'PLAYER_COUNT', data: {} }],
+    ['a non-numeric taken card', { event: 'CARDS_TAKEN', data: { takenCards: [1, 'x'] } }],
+    ['a number outside 1-75', { event: 'NUMBER_DRAWN', data: { number: 76 } }],
+    ['a letter that disagrees with the number', { event: 'NUMBER_DRAWN', data: { number: 5, letter: 'G' } }],
+    ['an unknown game state', { event: 'GAME_STATUS', data: { state: 'PAUSED' } }],
+  ])('rejects %s', (_label, frame) => {
+    expect(parseGameEvent(frame, 'test')).toBeNull();
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,298 @@
+import type { DrawnNumber, Game } from '@/lib/api';
+import { getLetterForNumber } from '@/lib/cardData';
+
+// Canonical game WebSocket protocol. The backend has sent several payload variants over time
+// (card_id vs card_number, winner_name vs user_name, ...); parseGameEvent folds them into these shapes.
+
+export type GameStateName = Game['state'];
+
+export interface InitialStateEvent {
+  event: 'INITIAL_STATE';
+  data: {
+    game: Game | null;
+    drawnNumbers: DrawnNumber[];
+    takenCards: number[];
+  };
+}
+
+export interface GameStatusEvent {
+  event: 'GAME_STATUS';
+  data: {
+    state: GameStateName | null;
+    player_count?: number;
+    prize_pool?: number;
+    countdown_ends?: string;
+    secondsLeft?: number;
+  };
+}
+
+export interface PlayerCountEvent {
+  event: 'PLAYER_COUNT';
+  data: {
+    count: number;
+  };
+}
+
+export interface PlayerJoinedEvent {
+  event: 'PLAYER_JOINED';
+  data: {
+    user_id?: string;
+    card_id?: number;
+    count?: number;
+    prize_pool?: number;
+  };
+}
+
+export interface PlayerLeftEvent {
+  event: 'PLAYER_LEFT';
+  data: {
+    user_id?: string;
+    card_id?: number;
+    count?: number;
+    prize_pool?: number;
+  };
+}
+
+export interface CountdownEvent {
+  event: 'COUNTDOWN';
+  data: {
+    secondsLeft: number;
+    countdown_ends?: string;
+  };
+}
+
+export interface CardsTakenEvent {
+  event: 'CARDS_TAKEN';
+  data: {
+    takenCards: number[];
+  };
+}
+
+export interface NumberDrawnEvent {
+  event: 'NUMBER_DRAWN';
+  // drawn_count is how many numbers have been drawn including this one, when the backend sends it
+  data: DrawnNumber & { drawn_count?: number };
+}
+
+export interface WinnerEvent {
+  event: 'WINNER';
+  data: {
+    user_id?: string;
+    winner_name?: string;
+    card_id?: number;
+    prize?: number;
+    marked_numbers: number[];
+  };
+}
+
+export interface PlayerEliminatedEvent {
+  event: 'PLAYER_ELIMINATED';
+  data: {
+    user_id: string;
+    count?: number;
+  };
+}
+
+export interface NewGameAvailableEvent {
+  event: 'NEW_GAME_AVAILABLE';
+  data: {
+    gameId: string;
+    gameType: string;
+  };
+}
+
+// Per-game sequence number carried on the frame envelope, when the backend sends one
+export interface EventEnvelope {
+  seq?: number;
+}
+
+export type GameEvent = (
+  | InitialStateEvent
+  | GameStatusEvent
+  | PlayerCountEvent
+  | PlayerJoinedEvent
+  | PlayerLeftEvent
+  | CountdownEvent
+  | CardsTakenEvent
+  | NumberDrawnEvent
+  | WinnerEvent
+  | PlayerEliminatedEvent
+  | NewGameAvailableEvent
+) & EventEnvelope;
+
+export type GameEventName = GameEvent['event'];
+
+const GAME_STATES: readonly GameStateName[] = ['WAITING', 'COUNTDOWN', 'DRAWING', 'FINISHED', 'CLOSED', 'CANCELLED'];
+
+// Thrown inside the parsers and turned into a warning by parseGameEvent
+class MalformedFrameError extends Error {}
+
+const fail = (reason: string): never => {
+  throw new MalformedFrameError(reason);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Numbers sometimes arrive as numeric strings
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return undefined;
+};
+
+const toString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value !== '' ? value : undefined;
+
+const toGameState = (value: unknown): GameStateName | undefined =>
+  GAME_STATES.includes(value as GameStateName) ? (value as GameStateName) : undefined;
+
+const toNumberList = (value: unknown, field: string): number[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return fail(`${field} is not an array`);
+  return value.map((item) => toNumber(item) ?? fail(`${field} contains a non-numeric value`));
+};
+
+const toStringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.flatMap((item) => toString(item) ?? []) : undefined;
+
+const parseGame = (value: unknown): Game => {
+  if (!isRecord(value)) return fail('game is not an object');
+  const id = toString(value.id) ?? fail('game.id missing');
+  const gameType = toString(value.game_type) ?? fail('game.game_type missing');
+  const state = toGameState(value.state) ?? fail(`game.state "${value.state}" is not a known state`);
+
+  return {
+    id,
+    game_type: gameType,
+    state,
+    bet_amount: toNumber(value.bet_amount) ?? 0,
+    min_players: toNumber(value.min_players) ?? 0,
+    player_count: toNumber(value.player_count) ?? 0,
+    prize_pool: toNumber(value.prize_pool) ?? 0,
+    house_cut: toNumber(value.house_cut) ?? 0,
+    winner_id: toString(value.winner_id) ?? null,
+    is_demo: value.is_demo === true,
+    patterns: toStringList(value.patterns) ?? null,
+    countdown_ends: toString(value.countdown_ends) ?? null,
+    started_at: toString(value.started_at) ?? null,
+    finished_at: toString(value.finished_at) ?? null,
+    created_at: toString(value.created_at) ?? '',
+    updated_at: toString(value.updated_at) ?? '',
+  };
+};
+
+const parseDrawnNumber = (value: unknown): DrawnNumber => {
+  if (!isRecord(value)) return fail('drawn number is not an object');
+  const number = toNumber(value.number) ?? fail('drawn number missing');
+  // Derive the letter from the number - it's authoritative and older payloads omit it
+  const letter = getLetterForNumber(number) ?? fail(`drawn number ${number} is out of range`);
+  if (value.letter !== undefined && value.letter !== letter) {
+    return fail(`drawn number ${number} has letter "${value.letter}", expected "${letter}"`);
+  }
+  return {
+    letter,
+    number,
+    drawn_at: toString(value.drawn_at) ?? new Date().toISOString(),
+  };
+};
+
+const parsePlayerChange = (data: Record<string, unknown>) => ({
+  user_id: toString(data.user_id),
+  card_id: toNumber(data.card_id ?? data.card_number),
+  count: toNumber(data.count ?? data.player_count),
+  prize_pool: toNumber(data.prize_pool),
+});
+
+const parsers: { [E in GameEventName]: (data: Record<string, unknown>) => Extract<GameEvent, { event: E }>['data'] } = {
+  INITIAL_STATE: (data) => {
+    const drawnNumbers = data.drawnNumbers ?? data.drawn_numbers;
+    return {
+      game: data.game ? parseGame(data.game) : null,
+      drawnNumbers: Array.isArray(drawnNumbers) ? drawnNumbers.map(parseDrawnNumber) : [],
+      takenCards: toNumberList(data.takenCards ?? data.taken_cards, 'takenCards'),
+    };
+  },
+
+  GAME_STATUS: (data) => {
+    // FINISHED/CANCELLED notifications historically used `status` instead of `state`
+    const rawState = data.state ?? data.status;
+    const state = rawState === undefined ? null : toGameState(rawState) ?? fail(`state "${rawState}" is not a known state`);
+    return {
+      state,
+      player_count: toNumber(data.player_count ?? data.count),
+      prize_pool: toNumber(data.prize_pool),
+      countdown_ends: toString(data.countdown_ends),
+      secondsLeft: toNumber(data.secondsLeft ?? data.seconds_left),
+    };
+  },
+
+  PLAYER_COUNT: (data) => ({
+    count: toNumber(data.count ?? data.player_count) ?? fail('count missing'),
+  }),
+
+  PLAYER_JOINED: parsePlayerChange,
+
+  PLAYER_LEFT: parsePlayerChange,
+
+  COUNTDOWN: (data) => ({
+    secondsLeft: toNumber(data.secondsLeft ?? data.seconds_left) ?? fail('secondsLeft missing'),
+    countdown_ends: toString(data.countdown_ends),
+  }),
+
+  CARDS_TAKEN: (data) => ({
+    takenCards: toNumberList(data.takenCards ?? data.taken_cards ?? fail('takenCards missing'), 'takenCards'),
+  }),
+
+  NUMBER_DRAWN: (data) => ({
+    ...parseDrawnNumber(data),
+    drawn_count: toNumber(data.drawn_count ?? data.drawnCount),
+  }),
+
+  WINNER: (data) => ({
+    user_id: toString(data.user_id),
+    winner_name: toString(data.winner_name) ?? toString(data.user_name),
+    card_id: toNumber(data.card_id ?? data.card_number),
+    prize: toNumber(data.prize),
+    marked_numbers: toNumberList(data.marked_numbers, 'marked_numbers'),
+  }),
+
+  PLAYER_ELIMINATED: (data) => ({
+    user_id: toString(data.user_id) ?? fail('user_id missing'),
+    count: toNumber(data.count ?? data.player_count),
+  }),
+
+  NEW_GAME_AVAILABLE: (data) => ({
+    gameId: toString(data.gameId ?? data.game_id) ?? fail('gameId missing'),
+    gameType: toString(data.gameType ?? data.game_type) ?? fail('gameType missing'),
+  }),
+};
+
+/**
+ * Validate a decoded WebSocket frame and normalize it into a canonical GameEvent.
+ * Returns null (after logging a structured warning) for unknown events or malformed payloads.
+ */
+export const parseGameEvent = (frame: unknown, source: string): GameEvent | null => {
+  const eventName = isRecord(frame) ? frame.event : undefined;
+
+  try {
+    if (!isRecord(frame)) return fail('frame is not an object');
+    // hasOwn, not `in` - "constructor" or "toString" must not resolve to Object.prototype members
+    if (typeof eventName !== 'string' || !Object.hasOwn(parsers, eventName)) return fail(`unknown event "${String(eventName)}"`);
+    const data = frame.data ?? {};
+    if (!isRecord(data)) return fail('data is not an object');
+
+    const parse = parsers[eventName as GameEventName] as (data: Record<string, unknown>) => GameEvent['data'];
+    const seq = toNumber(frame.seq ?? frame.sequence);
+    return { event: eventName, data: parse(data), ...(seq !== undefined && { seq }) } as GameEvent;
+  } catch (error) {
+    if (!(error instanceof MalformedFrameError)) throw error;
+    console.warn('⚠️ Rejected malformed WebSocket frame', {
+      source,
+      event: eventName,
+      reason: error.message,
+      frame,
+    });
+    return null;
+  }
+};
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawnNumber, Game } from '@/lib/api';
+import type { GameEvent } from '@/lib/gameEvents';
+import { emptyGameSnapshot, gameReducer, lobbyReducer, type GameSnapshot, type LobbyState } from '@/lib/gameState';
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+const inSeconds = (seconds: number) => new Date(NOW + seconds * 1000).toISOString();
+
+const makeGame = (overrides: Partial<Game> = {}): Game => ({
+  id: 'game-1',
+  game_type: 'G1',
+  state: 'WAITING',
+  bet_amount: 10,
+  min_players: 2,
+  player_count: 3,
+  prize_pool: 30,
+  house_cut: 0,
+  winner_id: null,
+  countdown_ends: null,
+  started_at: null,
+  finished_at: null,
+  created_at: '2026-01-01T11:00:00Z',
+  updated_at: '2026-01-01T11:00:00Z',
+  ...overrides,
+});
+
+const drawn = (number: number): DrawnNumber => ({ letter: 'B', number, drawn_at: '2026-01-01T12:00:00Z' });
+
+const withGame = (game: Game): GameSnapshot => gameReducer(emptyGameSnapshot, { type: 'GAME', game, at: NOW });
+
+const applyEvent = (state: GameSnapshot, event: GameEvent): GameSnapshot =>
+  gameReducer(state, { type: 'EVENT', event, at: NOW });
+
+describe('gameReducer', () => {
+  describe('COUNTDOWN', () => {
+    it('moves a waiting game into the countdown', () => {
+      const next = applyEvent(withGame(makeGame()), {
+        event: 'COUNTDOWN',
+        data: { secondsLeft: 30, countdown_ends: inSeconds(30) },
+      });
+      expect(next.game?.state).toBe('COUNTDOWN');
+      expect(next.game?.countdown_ends).toBe(inSeconds(30));
+      expect(next.secondsLeft).toBe(30);
+    });
+
+    it('treats a zero count as over', () => {
+      const next = applyEvent(withGame(makeGame()), { event: 'COUNTDOWN', data: { secondsLeft: 0 } });
+      expect(next.game?.state).toBe('COUNTDOWN');
+      expect(next.secondsLeft).toBeNull();
+    });
+
+    it('does not pull a drawing game back', () => {
+      const drawing = { ...withGame(makeGame({ state: 'DRAWING' })), secondsLeft: 3 };
+      const next = applyEvent(drawing, { event: 'COUNTDOWN', data: { secondsLeft: 10 } });
+      expect(next.game?.state).toBe('DRAWING');
+      expect(next.secondsLeft).toBeNull();
+    });
+
+    it('ignores it once the game is finished', () => {
+      const finished = withGame(makeGame({ state: 'FINISHED' }));
+      expect(applyEvent(finished, { event: 'COUNTDOWN', data: { secondsLeft: 10 } })).toBe(finished);
+    });
+
+    it('reads a waiting game with countdown_ends as counting down', () => {
+      const next = withGame(makeGame({ countdown_ends: inSeconds(20) }));
+      expect(next.game?.state).toBe('COUNTDOWN');
+      expect(next.secondsLeft).toBe(20);
+    });
+
+    it('ends the countdown on the first draw', () => {
+      const counting = applyEvent(withGame(makeGame()), { event: 'COUNTDOWN', data: { secondsLeft: 5 } });
+      const next = applyEvent(counting, { event: 'NUMBER_DRAWN', data: drawn(7) });
+      expect(next.game?.state).toBe('DRAWING');
+      expect(next.secondsLeft).toBeNull();
+      expect(next.drawnNumbers).toEqual([drawn(7)]);
+    });
+  });
+
+  describe('player count', () => {
+    it('uses the count the server sends', () => {
+      const next = applyEvent(withGame(makeGame()), {
+        event: 'PLAYER_JOINED',
+        data: { card_id: 12, count: 9, prize_pool: 90 },
+      });
+      expect(next.game?.player_count).toBe(9);
+      expect(next.game?.prize_pool).toBe(90);
+      expect(next.takenCards).toEqual([12]);
+    });
+
+    it('falls back to +1 on a join without a count', () => {
+      const next = applyEvent(withGame(makeGame()), { event: 'PLAYER_JOINED', data: { card_id: 12 } });
+      expect(next.game?.player_count).toBe(4);
+      expect(next.game?.prize_pool).toBe(30);
+    });
+
+    it('falls back to -1 on a leave without a count, never below zero', () => {
+      const state = { ...withGame(makeGame({ player_count: 1 })), takenCards: [12] };
+      const left = applyEvent(state, { event: 'PLAYER_LEFT', data: { card_id: 12 } });
+      expect(left.game?.player_count).toBe(0);
+      expect(left.takenCards).toEqual([]);
+
+      const again = applyEvent(left, { event: 'PLAYER_LEFT', data: {} });
+      expect(again.game?.player_count).toBe(0);
+    });
+  });
+
+  describe('end state', () => {
+    it('marks the game ended on a winner', () => {
+      const counting = applyEvent(withGame(makeGame()), { event: 'COUNTDOWN', data: { secondsLeft: 5 } });
+      const next = applyEvent(counting, { event: 'WINNER', data: { marked_numbers: [] } });
+      expect(next.ended).toBe(true);
+      expect(next.secondsLeft).toBeNull();
+    });
+
+    it('marks the game ended when it is finished or cancelled', () => {
+      const drawing = withGame(makeGame({ state: 'DRAWING' }));
+      expect(applyEvent(drawing, { event: 'GAME_STATUS', data: { state: 'FINISHED' } }).ended).toBe(true);
+      expect(applyEvent(drawing, { event: 'GAME_STATUS', data: { state: 'CANCELLED' } }).ended).toBe(true);
+    });
+
+    it('drops the previous game when switching to another', () => {
+      const ended = applyEvent(
+        { ...withGame(makeGame({ state: 'DRAWING' })), drawnNumbers: [drawn(7)], takenCards: [12] },
+        { event: 'WINNER', data: { marked_numbers: [] } }
+      );
+      const next = gameReducer(ended, { type: 'GAME', game: makeGame({ id: 'game-2' }), at: NOW });
+      expect(next.game?.id).toBe('game-2');
+      expect(next.ended).toBe(false);
+      expect(next.drawnNumbers).toEqual([]);
+      expect(next.takenCards).toEqual([]);
+    });
+
+    it('removes an ended game from the lobby', () => {
+      const lobby: LobbyState = lobbyReducer({}, { type: 'GAMES', games: [makeGame({ state: 'DRAWING' })], at: NOW });
+      const next = lobbyReducer(lobby, {
+        type: 'EVENT',
+        gameType: 'G1',
+        event: { event: 'WINNER', data: { marked_numbers: [] } },
+        at: NOW,
+      });
+      expect(next).toEqual({});
+    });
+  });
+
+  describe('gap and resync', () => {
+    const drawing = () => {
+      const state = withGame(makeGame({ state: 'DRAWING' }));
+      return applyEvent(state, { event: 'NUMBER_DRAWN', data: drawn(7), seq: 1 });
+    };
+
+    it('goes stale on a skipped sequence number', () => {
+      const next = applyEvent(drawing(), { event: 'NUMBER_DRAWN', data: drawn(9), seq: 3 });
+      expect(next.stale).toBe(true);
+      expect(next.gap).toEqual({ event: 'NUMBER_DRAWN', seq: 3, lastSeq: 1 });
+      expect(next.lastSeq).toBe(3);
+    });
+
+    it('goes stale on a drawn count ahead of ours', () => {
+      const next = applyEvent(drawing(), { event: 'NUMBER_DRAWN', data: { ...drawn(9), drawn_count: 3 } });
+      expect(next.stale).toBe(true);
+      expect(next.gap).toEqual({ event: 'NUMBER_DRAWN', seq: undefined, lastSeq: 1 });
+    });
+
+    it('keeps the first gap while stale', () => {
+      const gapped = applyEvent(drawing(), { event: 'NUMBER_DRAWN', data: drawn(9), seq: 3 });
+      const next = applyEvent(gapped, { event: 'NUMBER_DRAWN', data: drawn(11), seq: 5 });
+      expect(next.gap).toEqual({ event: 'NUMBER_DRAWN', seq: 3, lastSeq: 1 });
+    });
+
+    it('stays fresh on consecutive frames', () => {
+      const next = applyEvent(drawing(), { event: 'NUMBER_DRAWN', data: drawn(9), seq: 2 });
+      expect(next.stale).toBe(false);
+      expect(next.gap).toBeNull();
+    });
+
+    it('resyncs from a snapshot, keeping numbers drawn since it was taken', () => {
+      const gapped = applyEvent(drawing(), { event: 'NUMBER_DRAWN', data: drawn(9), seq: 3 });
+      const next = gameReducer(gapped, {
+        type: 'SNAPSHOT',
+        snapshot: { game: makeGame({ state: 'DRAWING' }), drawnNumbers: [drawn(7), drawn(8)], takenCards: [12] },
+        at: NOW + 1000,
+      });
+      expect(next.stale).toBe(false);
+      expect(next.gap).toBeNull();
+      expect(next.lastSeq).toBeNull();
+      expect(next.resyncedAt).toBe(NOW + 1000);
+      expect(next.drawnNumbers.map((n) => n.number)).toEqual([7, 8, 9]);
+      expect(next.takenCards).toEqual([12]);
+    });
+
+    it('goes stale on a reconnect and resyncs', () => {
+      const stale = gameReducer(drawing(), { type: 'STALE' });
+      expect(stale.stale).toBe(true);
+      expect(stale.lastSeq).toBeNull();
+
+      const next = gameReducer(stale, {
+        type: 'SNAPSHOT',
+        snapshot: { game: makeGame({ state: 'DRAWING' }), drawnNumbers: [drawn(7)], takenCards: [] },
+        at: NOW,
+      });
+      expect(next.stale).toBe(false);
+      expect(next.resyncedAt).toBe(NOW);
+    });
+
+    it('does not count a fresh snapshot as a resync', () => {
+      const next = gameReducer(drawing(), {
+        type: 'SNAPSHOT',
+        snapshot: { game: makeGame({ state: 'DRAWING' }), drawnNumbers: [drawn(7)], takenCards: [] },
+        at: NOW,
+      });
+      expect(next.resyncedAt).toBeNull();
+    });
+  });
+});
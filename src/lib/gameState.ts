@@ -0,0 +1,344 @@
+import type { DrawnNumber, Game, GameStateResponse } from '@/lib/api';
+import type { GameEvent, GameEventName } from '@/lib/gameEvents';
+import { secondsUntil } from '@/lib/clock';
+
+// Everything the lobby, card picker and play screen know about one game.
+// Built only through gameReducer so every view applies the same transition rules.
+export interface GameSnapshot {
+  game: Game | null;
+  drawnNumbers: DrawnNumber[];
+  takenCards: number[];
+  // Seconds left as last reported by the server; null outside COUNTDOWN
+  secondsLeft: number | null;
+  // The game has a winner or was finished/cancelled - views decide where to go next
+  ended: boolean;
+  // Last envelope sequence number applied since the last full state
+  lastSeq: number | null;
+  // Events may have been missed (sequence/drawn-count gap or a reconnect) - views refetch a snapshot
+  stale: boolean;
+  // The frame that revealed missed events, for diagnostics; cleared by the next full state
+  gap: { event: GameEventName; seq?: number; lastSeq: number | null } | null;
+  // When a full state last replaced stale state, so views can flash a "resynced" indicator
+  resyncedAt: number | null;
+}
+
+// `at` is the server time (ms, see clock.ts) the action happened, used to turn countdown_ends into seconds
+export type GameAction =
+  | { type: 'EVENT'; event: GameEvent; at: number }
+  | { type: 'SNAPSHOT'; snapshot: GameStateResponse; at: number }
+  | { type: 'GAME'; game: Game; at: number }
+  | { type: 'STALE' }
+  | { type: 'RESET' };
+
+export const emptyGameSnapshot: GameSnapshot = {
+  game: null,
+  drawnNumbers: [],
+  takenCards: [],
+  secondsLeft: null,
+  ended: false,
+  lastSeq: null,
+  stale: false,
+  gap: null,
+  resyncedAt: null,
+};
+
+export const isEndState = (state: Game['state'] | null | undefined): boolean =>
+  state === 'FINISHED' || state === 'CANCELLED';
+
+// Only positive counts are shown - zero or negative means the countdown is over
+const positiveOrNull = (seconds: number | undefined | null): number | null =>
+  seconds !== undefined && seconds !== null && seconds > 0 ? seconds : null;
+
+// A WAITING game that already has countdown_ends is really counting down
+const normalizeGame = (game: Game): Game =>
+  game.state === 'WAITING' && game.countdown_ends ? { ...game, state: 'COUNTDOWN' } : game;
+
+// Full state for a game. Sequence tracking restarts here; a stale snapshot it replaces counts as resynced.
+const fromGame = (
+  previous: GameSnapshot,
+  game: Game,
+  drawnNumbers: DrawnNumber[],
+  takenCards: number[],
+  at: number
+): GameSnapshot => {
+  const normalized = normalizeGame(game);
+  return {
+    game: normalized,
+    drawnNumbers,
+    takenCards,
+    secondsLeft: normalized.state === 'COUNTDOWN' ? secondsUntil(normalized.countdown_ends, at) : null,
+    ended: isEndState(normalized.state),
+    lastSeq: null,
+    stale: false,
+    gap: null,
+    resyncedAt: previous.stale && previous.game?.id === normalized.id ? at : previous.resyncedAt,
+  };
+};
+
+// Joins/leaves don't always carry the new count - fall back to +1/-1
+const applyPlayerChange = (
+  state: GameSnapshot,
+  game: Game,
+  data: { card_id?: number; count?: number; prize_pool?: number },
+  joined: boolean
+): GameSnapshot => {
+  const fallbackCount = joined ? (game.player_count || 0) + 1 : Math.max(0, (game.player_count || 0) - 1);
+  const cardId = data.card_id;
+
+  let takenCards = state.takenCards;
+  if (cardId !== undefined) {
+    if (joined && !takenCards.includes(cardId)) {
+      takenCards = [...takenCards, cardId];
+    } else if (!joined) {
+      takenCards = takenCards.filter((id) => id !== cardId);
+    }
+  }
+
+  return {
+    ...state,
+    game: {
+      ...game,
+      player_count: data.count ?? fallbackCount,
+      prize_pool: data.prize_pool ?? game.prize_pool,
+    },
+    takenCards,
+  };
+};
+
+const applyEvent = (state: GameSnapshot, event: GameEvent, at: number): GameSnapshot => {
+  if (event.event === 'INITIAL_STATE') {
+    const { game, drawnNumbers, takenCards } = event.data;
+    if (!game) return { ...state, drawnNumbers, takenCards };
+    return fromGame(state, game, drawnNumbers, takenCards, at);
+  }
+
+  const game = state.game;
+  // Everything else updates the game we already have
+  if (!game) return state;
+
+  switch (event.event) {
+    case 'GAME_STATUS': {
+      const { state: newState, player_count, prize_pool, countdown_ends, secondsLeft } = event.data;
+
+      if (newState) {
+        const updated: Game = {
+          ...game,
+          state: newState,
+          player_count: player_count ?? game.player_count,
+          prize_pool: prize_pool ?? game.prize_pool,
+          countdown_ends: countdown_ends ?? game.countdown_ends,
+        };
+        let countdown: number | null = null;
+        if (newState === 'COUNTDOWN') {
+          countdown = secondsLeft !== undefined
+            ? positiveOrNull(secondsLeft)
+            : countdown_ends
+            ? secondsUntil(countdown_ends, at)
+            : state.secondsLeft;
+        }
+        return { ...state, game: updated, secondsLeft: countdown, ended: state.ended || isEndState(newState) };
+      }
+
+      // countdown_ends without a state means a WAITING game started counting down
+      if (countdown_ends && game.state === 'WAITING') {
+        return {
+          ...state,
+          game: {
+            ...game,
+            state: 'COUNTDOWN',
+            countdown_ends,
+            player_count: player_count ?? game.player_count,
+            prize_pool: prize_pool ?? game.prize_pool,
+          },
+          secondsLeft: secondsLeft !== undefined ? positiveOrNull(secondsLeft) : secondsUntil(countdown_ends, at),
+        };
+      }
+      return state;
+    }
+
+    case 'COUNTDOWN': {
+      // Late COUNTDOWN frames must not pull a running/finished game back
+      if (game.state !== 'WAITING' && game.state !== 'COUNTDOWN') {
+        return game.state === 'DRAWING' && state.secondsLeft !== null ? { ...state, secondsLeft: null } : state;
+      }
+      return {
+        ...state,
+        game: {
+          ...game,
+          state: 'COUNTDOWN',
+          countdown_ends: event.data.countdown_ends ?? game.countdown_ends,
+        },
+        secondsLeft: positiveOrNull(event.data.secondsLeft),
+      };
+    }
+
+    case 'PLAYER_COUNT':
+      return { ...state, game: { ...game, player_count: event.data.count } };
+
+    case 'PLAYER_JOINED':
+      return applyPlayerChange(state, game, event.data, true);
+
+    case 'PLAYER_LEFT':
+      return applyPlayerChange(state, game, event.data, false);
+
+    case 'CARDS_TAKEN':
+      return { ...state, takenCards: event.data.takenCards };
+
+    case 'NUMBER_DRAWN': {
+      const { drawn_count: _drawnCount, ...drawn } = event.data;
+      const alreadyDrawn = state.drawnNumbers.some((n) => n.number === drawn.number);
+      // The first draw is also the signal that the countdown is over
+      const started = game.state === 'WAITING' || game.state === 'COUNTDOWN';
+      if (alreadyDrawn && !started) return state;
+      return {
+        ...state,
+        game: started ? { ...game, state: 'DRAWING' } : game,
+        drawnNumbers: alreadyDrawn ? state.drawnNumbers : [...state.drawnNumbers, drawn],
+        secondsLeft: started ? null : state.secondsLeft,
+      };
+    }
+
+    case 'PLAYER_ELIMINATED':
+      return event.data.count !== undefined ? { ...state, game: { ...game, player_count: event.data.count } } : state;
+
+    case 'WINNER':
+      return { ...state, secondsLeft: null, ended: true };
+
+    default:
+      // NEW_GAME_AVAILABLE is about the next game - views fetch it and dispatch GAME
+      return state;
+  }
+};
+
+// A skipped sequence number or a drawn count ahead of ours means frames were lost
+const hasGap = (state: GameSnapshot, event: GameEvent): boolean => {
+  if (event.seq !== undefined && state.lastSeq !== null && event.seq > state.lastSeq + 1) return true;
+  if (event.event === 'NUMBER_DRAWN' && event.data.drawn_count !== undefined) {
+    return event.data.drawn_count > state.drawnNumbers.length + 1;
+  }
+  return false;
+};
+
+// Numbers drawn after the snapshot was taken arrive over the socket while the request is in flight - keep them
+const mergeDrawnNumbers = (snapshotNumbers: DrawnNumber[], local: DrawnNumber[]): DrawnNumber[] => {
+  const known = new Set(snapshotNumbers.map((n) => n.number));
+  const newer = local.filter((n) => !known.has(n.number));
+  return newer.length > 0 ? [...snapshotNumbers, ...newer] : snapshotNumbers;
+};
+
+/**
+ * Pure transition function for a single game.
+ * Consumes validated protocol events and REST snapshots; never performs side effects.
+ */
+export const gameReducer = (state: GameSnapshot, action: GameAction): GameSnapshot => {
+  switch (action.type) {
+    case 'EVENT': {
+      const { event } = action;
+      // Nothing to reconcile before we have a game
+      const gap = state.game !== null && event.event !== 'INITIAL_STATE' && hasGap(state, event);
+
+      const next = applyEvent(state, event, action.at);
+      if (event.seq === undefined && !gap) return next;
+      return {
+        ...next,
+        lastSeq: event.seq ?? next.lastSeq,
+        stale: next.stale || gap,
+        gap: gap && !next.stale ? { event: event.event, seq: event.seq, lastSeq: state.lastSeq } : next.gap,
+      };
+    }
+
+    case 'SNAPSHOT': {
+      const { game, drawnNumbers = [], takenCards = [] } = action.snapshot;
+      const sameGame = game.id === state.game?.id;
+      return fromGame(
+        state,
+        game,
+        sameGame ? mergeDrawnNumbers(drawnNumbers, state.drawnNumbers) : drawnNumbers,
+        takenCards,
+        action.at
+      );
+    }
+
+    case 'GAME':
+      // Switching to a different game drops the previous game's numbers and cards
+      if (action.game.id !== state.game?.id) {
+        return fromGame(emptyGameSnapshot, action.game, [], [], action.at);
+      }
+      // The bare game carries no numbers or cards, so it can't clear a stale flag
+      return {
+        ...fromGame(state, action.game, state.drawnNumbers, state.takenCards, action.at),
+        lastSeq: state.lastSeq,
+        stale: state.stale,
+        gap: state.gap,
+        resyncedAt: state.resyncedAt,
+      };
+
+    case 'STALE':
+      return state.game && !state.stale ? { ...state, stale: true, lastSeq: null } : state;
+
+    case 'RESET':
+      return emptyGameSnapshot;
+
+    default:
+      return state;
+  }
+};
+
+// The lobby tracks at most one game per catalog game type
+export type LobbyState = Record<string, GameSnapshot>;
+
+export type LobbyAction =
+  | { type: 'GAMES'; games: Game[]; at: number }
+  | { type: 'GAME'; game: Game; at: number }
+  | { type: 'EVENT'; gameType: string; event: GameEvent; at: number };
+
+const withoutType = (state: LobbyState, gameType: string): LobbyState => {
+  const { [gameType]: _removed, ...rest } = state;
+  return rest;
+};
+
+/**
+ * Lobby view over gameReducer, keyed by game type.
+ * Ended games are dropped; the type stays empty until NEW_GAME_AVAILABLE brings the next one.
+ */
+export const lobbyReducer = (state: LobbyState, action: LobbyAction): LobbyState => {
+  switch (action.type) {
+    case 'GAMES': {
+      const next: LobbyState = {};
+      action.games.forEach((game) => {
+        // Keep the first game listed for each type
+        if (!next[game.game_type]) {
+          next[game.game_type] = gameReducer(emptyGameSnapshot, { type: 'GAME', game, at: action.at });
+        }
+      });
+      return next;
+    }
+
+    case 'GAME': {
+      const current = state[action.game.game_type] ?? emptyGameSnapshot;
+      return { ...state, [action.game.game_type]: gameReducer(current, action) };
+    }
+
+    case 'EVENT': {
+      const { gameType, event } = action;
+      const current = state[gameType];
+
+      if (event.event === 'INITIAL_STATE') {
+        const game = event.data.game;
+        if (!game) return state;
+        // A fresh connection may only introduce a game that is still joinable
+        const tracked = current?.game?.id === game.id;
+        if (!tracked && game.state !== 'WAITING' && game.state !== 'COUNTDOWN') return state;
+        return { ...state, [gameType]: gameReducer(tracked ? current : emptyGameSnapshot, action) };
+      }
+
+      if (!current) return state;
+      const next = gameReducer(current, action);
+      if (next === current) return state;
+      return next.ended ? withoutType(state, gameType) : { ...state, [gameType]: next };
+    }
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const stored = new Map<string, string>();
+
+beforeEach(() => {
+  stored.clear();
+  vi.stubGlobal('window', {
+    localStorage: {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+    },
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const snapshot = async () => (await import('@/lib/gameTypes')).getGameTypesSnapshot();
+
+describe('getGameTypesSnapshot', () => {
+  it('uses the cached catalog, filling in fields an older build did not store', async () => {
+    stored.set('biruh.gameTypes', JSON.stringify([{ type: 'G9', bet: 15 }]));
+    expect(await snapshot()).toEqual([
+      { type: 'G9', bet: 15, name: '', minPlayers: 2, houseCut: 0, opensAt: null, closesAt: null },
+    ]);
+  });
+
+  it.each([
+    ['not an array', JSON.stringify({ type: 'G1', bet: 5 })],
+    ['an entry without a bet', JSON.stringify([{ type: 'G1', bet: 5 }, { type: 'G2' }])],
+    ['an entry with a non-string type', JSON.stringify([{ type: 3, bet: 5 }])],
+    ['a null entry', JSON.stringify([null])],
+    ['invalid JSON', '[{"type":'],
+  ])('falls back to the defaults when the cache holds %s', async (_label, raw) => {
+    stored.set('biruh.gameTypes', raw);
+    const gameTypes = await snapshot();
+    expect(gameTypes.map((gameType) => gameType.type)).toEqual(['G1', 'G2', 'G3', 'G4', 'G5', 'G6', 'G7']);
+  });
+});
@@ -0,0 +1,124 @@
+import { getGameTypes, type GameTypeConfig } from '@/lib/api';
+import { serverNow } from '@/lib/clock';
+import { readPlayerPref, writePlayerPref } from '@/lib/playerPrefs';
+
+export interface GameTypeInfo {
+  type: string;
+  bet: number;
+  name: string; // Empty when the backend has none - the lobby then shows the stake in the player's language
+  minPlayers: number;
+  houseCut: number;
+  opensAt: string | null;
+  closesAt: string | null;
+}
+
+// Used only until the catalog has loaded once on this device
+const DEFAULT_GAME_TYPES: GameTypeInfo[] = [
+  { type: 'G1', bet: 5 },
+  { type: 'G2', bet: 7 },
+  { type: 'G3', bet: 10 },
+  { type: 'G4', bet: 20 },
+  { type: 'G5', bet: 50 },
+  { type: 'G6', bet: 100 },
+  { type: 'G7', bet: 200 },
+].map(({ type, bet }) => ({
+  type,
+  bet,
+  name: '',
+  minPlayers: 2,
+  houseCut: 0,
+  opensAt: null,
+  closesAt: null,
+}));
+
+// Enabled types only, in the backend's sort order
+const fromCatalog = (configs: GameTypeConfig[]): GameTypeInfo[] =>
+  configs
+    .filter((config) => config.enabled)
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((config) => ({
+      type: config.id,
+      bet: config.bet_amount,
+      name: config.name || '',
+      minPlayers: config.min_players,
+      houseCut: config.house_cut,
+      opensAt: config.schedule?.opens_at ?? null,
+      closesAt: config.schedule?.closes_at ?? null,
+    }));
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// The cache may come from an older build or be corrupted - every entry needs at least a type and a bet
+const parseCachedCatalog = (stored: unknown): GameTypeInfo[] | null => {
+  if (!Array.isArray(stored)) return null;
+  const gameTypes = stored.map((entry): GameTypeInfo | null => {
+    if (!isRecord(entry) || typeof entry.type !== 'string' || typeof entry.bet !== 'number' || !Number.isFinite(entry.bet)) return null;
+    return {
+      type: entry.type,
+      bet: entry.bet,
+      name: typeof entry.name === 'string' ? entry.name : '',
+      minPlayers: typeof entry.minPlayers === 'number' ? entry.minPlayers : 2,
+      houseCut: typeof entry.houseCut === 'number' ? entry.houseCut : 0,
+      opensAt: typeof entry.opensAt === 'string' ? entry.opensAt : null,
+      closesAt: typeof entry.closesAt === 'string' ? entry.closesAt : null,
+    };
+  });
+  return gameTypes.every((gameType): gameType is GameTypeInfo => gameType !== null) ? gameTypes : null;
+};
+
+const readCachedCatalog = (): GameTypeInfo[] | null => readPlayerPref('gameTypes', null, null, parseCachedCatalog);
+
+const writeCachedCatalog = (gameTypes: GameTypeInfo[]) => writePlayerPref('gameTypes', null, gameTypes);
+
+let catalog: GameTypeInfo[] | null = null;
+let loading: Promise<GameTypeInfo[]> | null = null;
+const listeners = new Set<() => void>();
+
+// The catalog as last known: fetched this session, else cached on this device, else the defaults
+export const getGameTypesSnapshot = (): GameTypeInfo[] => {
+  if (!catalog) {
+    catalog = readCachedCatalog() ?? DEFAULT_GAME_TYPES;
+  }
+  return catalog;
+};
+
+/**
+ * Fetch the catalog from the backend (once per session - concurrent callers share the request).
+ * When the request fails the cached copy stays in use.
+ */
+export const loadGameTypes = (): Promise<GameTypeInfo[]> => {
+  if (!loading) {
+    loading = getGameTypes()
+      .then((configs) => {
+        catalog = fromCatalog(configs);
+        writeCachedCatalog(catalog);
+        listeners.forEach((listener) => listener());
+        return catalog;
+      })
+      .catch((error) => {
+        console.error('Error loading game types, using cached catalog:', error);
+        // Let the next caller try again
+        loading = null;
+        return getGameTypesSnapshot();
+      });
+  }
+  return loading;
+};
+
+// Notified when a freshly fetched catalog replaces the cached one
+export const onGameTypesChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getGameType = (type: string): GameTypeInfo | null =>
+  getGameTypesSnapshot().find((gameType) => gameType.type === type) ?? null;
+
+// Whether a type's schedule allows joining right now (on the server's clock)
+export const isGameTypeOpen = (gameType: GameTypeInfo, now: number = serverNow()): boolean => {
+  if (gameType.opensAt && new Date(gameType.opensAt).getTime() > now) return false;
+  if (gameType.closesAt && new Date(gameType.closesAt).getTime() <= now) return false;
+  return true;
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { translate } from '@/lib/i18n';
+
+describe('translate', () => {
+  it('picks the plural form from count', () => {
+    expect(translate('en', 'lobby.players', { count: 1 })).toBe('1 player');
+    expect(translate('en', 'lobby.players', { count: 0 })).toBe('0 players');
+    expect(translate('en', 'lobby.players', { count: 2 })).toBe('2 players');
+    expect(translate('om', 'lobby.players', { count: 1 })).toBe('Taphataa 1');
+    expect(translate('om', 'lobby.players', { count: 5 })).toBe('Taphattoota 5');
+  });
+
+  it('uses a plain message for every count when the language has one form', () => {
+    expect(translate('am', 'lobby.players', { count: 1 })).toBe('1 ተጫዋቾች');
+    expect(translate('am', 'lobby.players', { count: 3 })).toBe('3 ተጫዋቾች');
+  });
+
+  it('formats numeric params and leaves unknown placeholders alone', () => {
+    expect(translate('en', 'lobby.players', { count: 1200 })).toBe('1,200 players');
+    expect(translate('en', 'autoJoin.stopped')).toBe('Keep playing stopped: {reason}');
+  });
+});
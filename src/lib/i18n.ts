@@ -0,0 +1,124 @@
+import { getTelegramWebApp } from '@/lib/telegram';
+import type { ApiError, ApiErrorCode } from '@/lib/apiClient';
+import { en, type MessageKey, type Messages } from '@/lib/messages/en';
+import { am } from '@/lib/messages/am';
+import { om } from '@/lib/messages/om';
+
+export type { MessageKey };
+
+export type Locale = 'am' | 'en' | 'om';
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'am', label: 'አማርኛ' },
+  { value: 'en', label: 'English' },
+  { value: 'om', label: 'Afaan Oromoo' },
+];
+
+const CATALOGS: Record<Locale, Messages> = { am, en, om };
+
+// Regional tags for Intl - ETB amounts and dates read the way Ethiopian users expect
+const INTL_LOCALES: Record<Locale, string> = { am: 'am-ET', en: 'en-ET', om: 'om-ET' };
+
+const LOCALE_STORAGE_KEY = 'biruh.locale';
+export const DEFAULT_LOCALE: Locale = 'am';
+
+export type MessageParams = Record<string, string | number>;
+
+// Telegram's language_code ("en", "am", "om", "en-US", ...) -> one of ours
+const fromLanguageCode = (code: string | undefined): Locale | null => {
+  const language = code?.toLowerCase().split('-')[0];
+  return LOCALES.find((option) => option.value === language)?.value ?? null;
+};
+
+const readLocale = (): Locale => {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE;
+  try {
+    const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    const picked = LOCALES.find((option) => option.value === stored)?.value;
+    if (picked) return picked;
+  } catch (error) {
+    console.error('Error reading language:', error);
+  }
+  // Nothing picked yet - follow the Telegram app's language
+  return fromLanguageCode(getTelegramWebApp()?.initDataUnsafe.user?.language_code) ?? DEFAULT_LOCALE;
+};
+
+let locale: Locale | null = null;
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => {
+  if (!locale) {
+    locale = readLocale();
+  }
+  return locale;
+};
+
+export const setLocale = (next: Locale) => {
+  locale = next;
+  try {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, next);
+  } catch (error) {
+    console.error('Error saving language:', error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const onLocaleChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions, lang: Locale = getLocale()) =>
+  new Intl.NumberFormat(INTL_LOCALES[lang], options).format(value);
+
+// Amounts in birr, always with two decimals
+export const formatCurrency = (amount: number, lang: Locale = getLocale()) =>
+  new Intl.NumberFormat(INTL_LOCALES[lang], { style: 'currency', currency: 'ETB', minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+
+export const formatDate = (date: Date | string, options?: Intl.DateTimeFormatOptions, lang: Locale = getLocale()) =>
+  new Intl.DateTimeFormat(INTL_LOCALES[lang], options).format(typeof date === 'string' ? new Date(date) : date);
+
+/**
+ * Look up a message in a locale (falling back to English) and fill in {placeholders}.
+ * Plural messages pick their form from params.count.
+ */
+export const translate = (lang: Locale, key: MessageKey, params?: MessageParams): string => {
+  const message = CATALOGS[lang][key] ?? en[key];
+  let text: string;
+  if (typeof message === 'string') {
+    text = message;
+  } else {
+    const count = Number(params?.count ?? 0);
+    const form = new Intl.PluralRules(INTL_LOCALES[lang]).select(count);
+    text = message[form] ?? message.other;
+  }
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, undefined, lang) : value;
+  });
+};
+
+// For code outside React (alerts from hooks, lib error reasons) - uses the current language
+export const t = (key: MessageKey, params?: MessageParams) => translate(getLocale(), key, params);
+
+const API_ERROR_MESSAGES: Record<ApiErrorCode, MessageKey> = {
+  NETWORK: 'apiError.network',
+  TIMEOUT: 'apiError.timeout',
+  CANCELLED: 'apiError.cancelled',
+  UNAUTHORIZED: 'apiError.unauthorized',
+  FORBIDDEN: 'apiError.forbidden',
+  NOT_FOUND: 'apiError.notFound',
+  CONFLICT: 'apiError.conflict',
+  VALIDATION: 'apiError.validation',
+  RATE_LIMITED: 'apiError.rateLimited',
+  SERVER: 'apiError.server',
+  UNKNOWN: 'apiError.unknown',
+};
+
+// What to tell the player about a failed request - the backend's own message, else one for the error code
+export const apiErrorMessage = (error: ApiError, lang: Locale = getLocale()): string =>
+  error.serverMessage ?? translate(lang, API_ERROR_MESSAGES[error.code]);
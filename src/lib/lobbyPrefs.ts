@@ -0,0 +1,31 @@
+import type { MessageKey } from '@/lib/i18n';
+import { readPlayerPref, writePlayerPref } from '@/lib/playerPrefs';
+
+// How the lobby lists the stakes. Saved per player so switching accounts on a shared phone
+// doesn't carry one player's sorting over to the next.
+
+export type LobbySort = 'default' | 'stake' | 'players' | 'pot' | 'start';
+
+export interface LobbyPrefs {
+  sort: LobbySort;
+  // Hide stakes the current balance can't cover
+  affordableOnly: boolean;
+}
+
+export const LOBBY_SORT_OPTIONS: { value: LobbySort; label: MessageKey }[] = [
+  { value: 'default', label: 'lobby.sortDefault' },
+  { value: 'stake', label: 'lobby.sortStake' },
+  { value: 'players', label: 'lobby.sortPlayers' },
+  { value: 'pot', label: 'lobby.sortPot' },
+  { value: 'start', label: 'lobby.sortStart' },
+];
+
+const DEFAULT_LOBBY_PREFS: LobbyPrefs = { sort: 'default', affordableOnly: false };
+
+// Missing fields (older saves) take their defaults
+export const loadLobbyPrefs = (userId: string): LobbyPrefs =>
+  readPlayerPref('lobbyPrefs', userId, DEFAULT_LOBBY_PREFS, (stored) =>
+    typeof stored === 'object' && stored !== null ? { ...DEFAULT_LOBBY_PREFS, ...stored } : DEFAULT_LOBBY_PREFS
+  );
+
+export const saveLobbyPrefs = (userId: string, prefs: LobbyPrefs) => writePlayerPref('lobbyPrefs', userId, prefs);
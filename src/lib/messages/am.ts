@@ -0,0 +1,293 @@
+import type { Messages } from './en';
+
+// Amharic - the default language
+export const am: Messages = {
+  // Shared
+  'common.loading': 'በመጫን ላይ...',
+  'common.back': 'ተመለስ',
+  'common.cancel': 'ሰርዝ',
+  'common.ok': 'እሺ',
+  'common.close': 'ዝጋ',
+  'common.demo': 'ሙከራ',
+  'common.language': 'ቋንቋ',
+
+  // Session and connection
+  'session.restoring': 'ጨዋታዎን በመመለስ ላይ...',
+  'session.errorTitle': 'ስህተት',
+  'session.loadFailed': 'የተጠቃሚ መረጃ መጫን አልተቻለም',
+  'openInTelegram.title': 'እባክዎ ከቴሌግራም ይክፈቱ',
+  'openInTelegram.expired': 'ክፍለ ጊዜዎ አብቅቷል። መተግበሪያውን ዘግተው ከቴሌግራም ቦቱ እንደገና ይክፈቱ።',
+  'openInTelegram.missing': 'ይህ ጨዋታ የሚሰራው በቴሌግራም ውስጥ ብቻ ነው። ከቦቱ የ Play ቁልፍን ተጭነው ይክፈቱ።',
+  'connection.connected': 'ተገናኝቷል',
+  'connection.connecting': 'በመገናኘት ላይ...',
+  'connection.reconnectingIn': 'በ{seconds} ሰከንድ እንደገና ይገናኛል',
+  'connection.reconnecting': 'እንደገና በመገናኘት ላይ...',
+  'connection.offline': 'ከመስመር ውጪ',
+  'connection.tapToRetry': 'እንደገና ለመሞከር ይጫኑ',
+  'resync.done': 'ታድሷል',
+
+  // API errors - shown when the backend sent no message of its own
+  'apiError.network': 'የኔትወርክ ስህተት። እባክዎ ግንኙነትዎን አረጋግጠው እንደገና ይሞክሩ።',
+  'apiError.timeout': 'አገልጋዩ ለመመለስ ብዙ ጊዜ ወሰደ። እባክዎ እንደገና ይሞክሩ።',
+  'apiError.cancelled': 'ጥያቄው ተሰርዟል።',
+  'apiError.unauthorized': 'ክፍለ ጊዜዎ አብቅቷል። እባክዎ መተግበሪያውን ከቴሌግራም እንደገና ይክፈቱ።',
+  'apiError.forbidden': 'ይህን ለማድረግ አልተፈቀደልዎትም።',
+  'apiError.notFound': 'አልተገኘም።',
+  'apiError.conflict': 'ይህ ድርጊት ከአሁኑ ሁኔታ ጋር ይጋጫል። እባክዎ አድሰው እንደገና ይሞክሩ።',
+  'apiError.validation': 'ትክክል ያልሆነ ጥያቄ።',
+  'apiError.rateLimited': 'በጣም ብዙ ጥያቄዎች። እባክዎ ትንሽ ቆይተው እንደገና ይሞክሩ።',
+  'apiError.server': 'በእኛ በኩል ችግር ተፈጥሯል። እባክዎ እንደገና ይሞክሩ።',
+  'apiError.unknown': 'ችግር ተፈጥሯል። እባክዎ እንደገና ይሞክሩ።',
+
+  // Header
+  'header.demoOn': 'ሙከራ በርቷል',
+  'header.switchToReal': 'ወደ እውነተኛ ገንዘብ ይቀይሩ',
+  'header.practice': 'በሙከራ ገንዘብ ይለማመዱ',
+
+  // Lobby
+  'lobby.open': 'ክፍት',
+  'lobby.openCountdown': 'ክፍት ({seconds})',
+  'lobby.playing': 'በመጫወት ላይ',
+  'lobby.opensAt': 'ይከፈታል {time}',
+  'lobby.closed': 'ዝግ',
+  'lobby.findGameFailed': 'ጨዋታ መፍጠርም ሆነ ማግኘት አልተቻለም። እባክዎ እንደገና ይሞክሩ።',
+  'lobby.stakeName': '{amount} ብር',
+  'lobby.players': '{count} ተጫዋቾች',
+  'lobby.noPlayers': '- ተጫዋቾች',
+  'lobby.minPlayers': '(ቢያንስ {count})',
+  'lobby.derash': '{amount} ደራሽ',
+  'lobby.join': 'ይግቡ',
+  'lobby.demoNotice': 'የሙከራ ገንዘብ - ማሸነፍም ሆነ መሸነፍ የሚነካው የሙከራ ሂሳብዎን ብቻ ነው።',
+  'lobby.sortDefault': 'መደበኛ',
+  'lobby.sortStake': 'ውርርድ',
+  'lobby.sortPlayers': 'ተጫዋቾች',
+  'lobby.sortPot': 'ደራሽ',
+  'lobby.sortStart': 'ቶሎ የሚጀምር',
+  'lobby.affordableOnly': 'የምችለው ብቻ',
+  'lobby.startingSoon': 'ሊጀመር ነው',
+  'lobby.noneAffordable': 'አሁን በሂሳብዎ የሚገቡበት ጨዋታ የለም።',
+  'lobby.insufficient': 'ለዚህ ጨዋታ በቂ ሂሳብ የለዎትም',
+
+  // Card picker
+  'cards.maxCards': 'በአንድ ጨዋታ እስከ {count} ካርዶች መጫወት ይችላሉ',
+  'cards.invalidCard': 'ትክክል ያልሆነ የካርድ ቁጥር',
+  'cards.selectCard': 'እባክዎ ካርድ ይምረጡ',
+  'cards.insufficient': 'ለተመረጡት ካርዶች በቂ ሂሳብ የለዎትም',
+  'cards.noUser': 'የተጠቃሚ መረጃ አልተገኘም',
+  'cards.pleaseWait': 'እባክህ ትንሽ ይጠብቁ',
+  'cards.join': 'ወደ ጨዋታው ይግቡ',
+  'cards.joinWithCost': 'ወደ ጨዋታው ይግቡ ({amount})',
+  'cards.joining': 'በመግባት ላይ...',
+  'cards.continueGame': 'ጨዋታውን ቀጥል',
+  'cards.cost': '{count} ካርድ × {bet} = {total}',
+  'cards.notEnough': 'በቂ ሂሳብ የለም',
+  'cards.left': '{amount} ይቀራል',
+  'cards.searchPlaceholder': 'ካርድ #',
+  'cards.noSuchCard': 'ካርድ {id} የለም',
+  'cards.hideTaken': 'የተያዙትን ደብቅ',
+  'cards.luckyPick': 'እድለኛ ምርጫ',
+  'cards.noneAvailable': 'ነጻ ካርድ አልቀረም',
+  'cards.findByNumbers': 'የእኔ ቁጥሮች ያሉባቸው ካርዶች',
+  'cards.numbersPlaceholder': 'ለምሳሌ 7, 14, 21',
+  'cards.numbersHint': 'ከ1 እስከ 75 ያሉ ቁጥሮች፣ በክፍተት ወይም በኮማ ይለዩ',
+  'cards.matchCount': '{matched}/{count}',
+  'cards.noMatches': 'ከእነዚህ ቁጥሮች አንዱም ያለበት ካርድ የለም',
+  'cards.taken': 'ካርድ {id} ተይዟል',
+
+  // Favorite cards
+  'favorites.title': 'ተወዳጆች',
+  'favorites.add': 'ወደ ተወዳጆች ጨምር',
+  'favorites.remove': 'ከተወዳጆች አስወግድ',
+  'favorites.movedTo': 'ካርድ {taken} ተይዟል - ወደ ተወዳጅ ካርድዎ {next} ተቀይሯል',
+
+  // Keep playing
+  'autoJoin.enable': 'በዚህ ካርድ መጫወቴን ልቀጥል',
+  'autoJoin.pickCard': 'መጫወት ለመቀጠል ካርድ ይምረጡ',
+  'autoJoin.title': 'መጫወት ቀጥል',
+  'autoJoin.stop': 'አቁም',
+  'autoJoin.rounds': 'ዙሮች',
+  'autoJoin.spendLimit': 'የወጪ ገደብ (ብር)',
+  'autoJoin.noLimit': 'ገደብ የለም',
+  'autoJoin.progress': '{count} ዙር ተገብቷል · {spent} ወጪ',
+  'autoJoin.stopped': 'መጫወት ቀጥል ቆሟል፦ {reason}',
+  'autoJoin.allRoundsPlayed': 'ሁሉም {count} ዙሮች ተጫውተዋል',
+  'autoJoin.spendCapReached': 'የ{amount} የወጪ ገደብ ደርሷል',
+  'autoJoin.balanceTooLow': 'ለሚቀጥለው ጨዋታ ሂሳብዎ በቂ አይደለም',
+  'autoJoin.noOpenGame': 'የሚገባበት ክፍት ጨዋታ የለም',
+  'autoJoin.cardsTaken': 'የመረጧቸው ካርዶች በሙሉ ተይዘዋል',
+  'autoJoin.joinFailed': 'ወደ ሚቀጥለው ጨዋታ መግባት አልተቻለም',
+  'autoJoin.fewerCards': 'ወደ ሚቀጥለው ጨዋታ ከ{previous} ካርዶችዎ በ{count} ገብተዋል - ሌሎቹ ተይዘዋል ወይም ሂሳብዎ አይበቃም',
+
+  // Wallet
+  'wallet.deposit': 'ገቢ',
+  'wallet.withdraw': 'ወጪ',
+  'wallet.history': 'ታሪክ',
+
+  // Deposit
+  'deposit.submit': 'ገቢ ያድርጉ',
+  'deposit.submitting': 'በመላክ ላይ...',
+  'deposit.minError': 'ዝቅተኛው የገቢ መጠን {amount} ነው',
+  'deposit.maxError': 'ከፍተኛው የገቢ መጠን {amount} ነው',
+  'deposit.successTitle': 'የገቢ ጥያቄዎ በተሳካ ሁኔታ ተልኳል!',
+  'deposit.successBody': 'አስተዳዳሪው ካረጋገጠ በኋላ ይፈጸማል።',
+  'deposit.rulesTitle': 'ገንዘብ Deposit ለማደረግ መሟላት ያለባቸው ነገሮች',
+  'deposit.ruleSameAmount': 'ተቀማጭ የሆነው መጠን እና ወደ ሂሳቡ የላኩት መጠን እኩል መሆን አለባቸው።',
+  'deposit.ruleFullSms': 'ገንዘብ ሲላኩ የመላኪያውን ሙሉ SMS (full SMS) ያስገቡ',
+  'deposit.ruleMin': 'ዝቅተኛው የገንዘብ መጠን {amount} ነው',
+  'deposit.ruleMax': 'ከፍተኛው የገንዘብ መጠን {amount} ነው',
+  'deposit.paymentType': 'የመክፈያ አማራጭ ይምረጡ',
+  'deposit.choosePaymentType': 'አይነት ይምረጡ',
+  'deposit.accountNumber': 'የሂሳብ ቁጥር፦',
+  'deposit.copy': 'ኮፒ',
+  'deposit.copied': 'ተቀድቷል!',
+  'deposit.amount': 'ያስገቡት የብር መጠን',
+  'deposit.sms': 'ሙሉ የግብይት SMS',
+  'deposit.smsPlaceholder': 'የግብይቱን ሙሉ SMS እዚህ ይለጥፉ',
+
+  // Withdraw
+  'withdraw.submit': 'ወጪ',
+  'withdraw.minError': 'ዝቅተኛው የወጪ መጠን {amount} ነው',
+  'withdraw.minRemainingError': 'በሂሳብዎ ቢያንስ {amount} መቅረት አለበት',
+  'withdraw.insufficient': 'በቂ ሂሳብ የለዎትም',
+  'withdraw.successTitle': 'የወጪ ጥያቄዎ በተሳካ ሁኔታ ተልኳል!',
+  'withdraw.currentBalance': 'ያለዎት ሂሳብ',
+  'withdraw.checkingDeposits': 'የገቢ ታሪክ በማረጋገጥ ላይ...',
+  'withdraw.unavailableTitle': 'ወጪ ማድረግ አይቻልም',
+  'withdraw.unavailableBody': 'ወጪ ከማድረግዎ በፊት ቢያንስ አንድ ጊዜ ገቢ ማድረግ አለብዎት። እባክዎ መጀመሪያ ገቢ ያድርጉ።',
+  'withdraw.goToDeposit': 'ወደ ገቢ ይሂዱ',
+  'withdraw.method': 'የወጪ አማራጭ ይምረጡ',
+  'withdraw.accountNumber': 'የሂሳብ ቁጥር',
+  'withdraw.accountNumberPlaceholder': 'የሂሳብ ቁጥር ያስገቡ',
+  'withdraw.amount': 'የብር መጠን',
+  'withdraw.remaining': 'የሚቀረው ሂሳብ፦ {amount}',
+
+  // History
+  'history.loadFailed': 'ታሪኩን መጫን አልተቻለም',
+  'history.deposits': 'ገቢዎች',
+  'history.withdrawals': 'ወጪዎች',
+  'history.transfers': 'ዝውውሮች',
+  'history.all': 'ሁሉም',
+  'history.noDeposits': 'የገቢ ታሪክ አልተገኘም',
+  'history.noWithdrawals': 'የወጪ ታሪክ አልተገኘም',
+  'history.noTransfers': 'የዝውውር ታሪክ አልተገኘም',
+  'history.notAvailable': 'የለም',
+  'history.transactionId': 'የግብይት መለያ፦ {id}',
+  'history.to': 'ለ፦ {name}',
+  'history.from': 'ከ፦ {name}',
+  'history.statusCompleted': 'ተጠናቋል',
+  'history.statusPending': 'በሂደት ላይ',
+  'history.statusFailed': 'አልተሳካም',
+
+  // Play screen
+  'play.loading': 'ጨዋታውን በመጫን ላይ...',
+  'play.derash': 'ደራሽ፦',
+  'play.players': 'ተጫዋቾች፦',
+  'play.bet': 'ውርርድ፦',
+  'play.winWith': 'የሚያሸንፉት በ፦',
+  'play.waitingForPlayers': 'ሌሎች ተጫዋቾች እስኪገቡ በመጠበቅ ላይ...',
+  'play.timer': 'ሰዓት',
+  'play.recent': 'የቅርብ {count}',
+  'play.noneDrawn': 'እስካሁን የተጠራ ቁጥር የለም',
+  'play.daubManual': 'በእጅ',
+  'play.daubAssisted': 'በማገዝ',
+  'play.daubAuto': 'በራስ-ሰር',
+  'play.oneToGo': 'አንድ ቀርቶታል፦',
+  'play.patternComplete': 'ቅርጹ ተሞልቷል - ቢንጎ ይበሉ!',
+  'play.notDrawn': 'ይህ ቁጥር እስካሁን አልተጠራም!',
+  'play.missingInfo': 'የጨዋታ ወይም የካርድ መረጃ የለም',
+  'play.invalidClaim': 'ትክክል ያልሆነ ቢንጎ። ከጨዋታው ወጥተዋል።',
+  'play.eliminated': 'ያሉት ቢንጎ ትክክል አልነበረም። ከጨዋታው ወጥተዋል።',
+  'play.refreshFailed': 'የጨዋታውን መረጃ ማደስ አልተቻለም። እባክዎ እንደገና ይሞክሩ።',
+  'play.anotherPlayer': 'ሌላ ተጫዋች',
+  'play.youWon': 'እንኳን ደስ አለዎት! አሸንፈዋል!',
+  'play.playerWon': '{name} ጨዋታውን አሸንፏል!',
+  'play.youWonPrize': '{amount} አሸንፈዋል!',
+  'play.wonPrize': '{amount} አሸንፏል!',
+  'play.joiningNext': 'ወደ ሚቀጥለው ጨዋታ በመግባት ላይ...',
+  'play.nextGameSoon': 'መጫወት ቀጥል በርቷል - ቀጣዩ ጨዋታ በቅርቡ',
+  'play.boardNumber': 'የካርድ ቁጥር {id}',
+  'play.redirecting': 'ወደ ጨዋታ ምርጫ በመመለስ ላይ...',
+  'play.leaveConfirmTitle': 'ከጨዋታው መውጣት እርግጠኛ ነዎት?',
+  'play.leaveConfirmBody': 'አሁን ከወጡ ውርርድዎ አይመለስም።',
+  'play.leaveGame': 'ከጨዋታው ውጣ',
+  'play.leave': 'ውጣ',
+  'play.leaving': 'በመውጣት ላይ...',
+  'play.bingo': 'ቢንጎ',
+  'play.verifying': 'በማረጋገጥ ላይ...',
+  'play.bingoNative': 'ቢንጎ!',
+  'play.bingoNativeComplete': '🎉 ቢንጎ! 🎉',
+  'play.refresh': 'አድስ',
+
+  // Number caller
+  'caller.mute': 'ጠሪውን አጥፋ',
+  'caller.unmute': 'ጠሪውን አብራ',
+  'caller.volume': 'የጠሪው ድምፅ መጠን',
+  'caller.language': 'የጠሪው ቋንቋ',
+
+  // Winning patterns
+  'pattern.line': 'መስመር',
+  'pattern.corners': '4 ማዕዘን',
+  'pattern.x': 'X',
+  'pattern.postageStamp': 'ቴምብር',
+  'pattern.frame': 'ክፈፍ',
+  'pattern.blackout': 'ሙሉ ካርድ',
+  'pattern.notDrawn': '{pattern} ማረጋገጥ አይቻልም፦ {numbers} አልተጠራም።',
+  'pattern.incomplete': 'እስካሁን የተሞላ ቅርጽ የለም። {pattern} ገና {numbers} ይፈልጋል።',
+
+  // Instructions page
+  'guide.title': 'መመሪያዎች',
+  'guide.depositTitle': 'የገንዘብ ማስገቢያ ሂደት (በ{count} ቅደም ተከተሎች)',
+  'guide.withdrawTitle': 'የገንዘብ ማውጫ ሂደት (በ{count} ቅደም ተከተሎች)',
+  'guide.transferTitle': 'የገንዘብ ማስተላለፊያ ሂደት (በ{count} ቅደም ተከተሎች)',
+  'guide.stepFirst': 'መጀመሪያ፦',
+  'guide.typeCommand': '{command} ብለው ይፃፉ።',
+  'guide.methods': 'በቴሌብር (Telebirr) ወይም በኢትዮጵያ ንግድ ባንክ (CBE)።',
+  'guide.amountLabel': 'መጠን ያስገቡ፦',
+  'guide.confirmLabel': 'ማረጋገጫ፦',
+  'guide.waitLabel': 'ይጠብቁ፦',
+  'guide.important': 'አስፈላጊ!',
+  'guide.depositMethodLabel': 'የክፍያ መንገድ ይምረጡ፦',
+  'guide.depositAmount': 'ከ50 እስከ 1,000 ብር።',
+  'guide.payLabel': 'ክፍያ ይፈጽሙ፦',
+  'guide.depositPay': 'በተሰጠው የሂሳብ ቁጥር ላይ ገንዘቡን ያስተላልፉ።',
+  'guide.transactionIdLabel': 'የግብይት መለያ (Transaction ID) ያስገቡ፦',
+  'guide.depositTransactionId': 'በትክክል ኮፒ አድርገው ይለጥፉ።',
+  'guide.depositWait': 'በአስተዳዳሪው ሲረጋገጥ ቀሪ ሂሳብዎ ይታደሳል።',
+  'guide.withdrawDepositLabel': 'የገንዘብ ማስገቢያ መጠን፦',
+  'guide.withdrawDeposit': 'ለመውጣት ቢያንስ አንድ ጊዜ ገንዘብ ማስገቢያ ማድረግ አለብዎት።',
+  'guide.withdrawMethodLabel': 'የወጪ አይነት ይምረጡ፦',
+  'guide.accountNumberLabel': 'የሂሳብ ቁጥር ያስገቡ፦',
+  'guide.withdrawAccountNumber': 'ገንዘቡን ለመቀበል የሚፈልጉትን የሂሳብ ቁጥር ያስገቡ።',
+  'guide.withdrawAmount': 'ዝቅተኛው 50 ብር፤ ከመውጣት በኋላ ቢያንስ 10 ብር ቀሪ ሂሳብ መቆየት አለበት።',
+  'guide.withdrawConfirm': 'የጠየቁት መጠን ወዲያውኑ ከቀሪ ሂሳብዎ ላይ ይቀነሳል።',
+  'guide.withdrawWait': 'ጥያቄው በአስተዳዳሪው ተቀባይነት ካገኘ ገንዘቡ ይላክልዎታል፤ ውድቅ ከተደረገ ግን ወደ ሂሳብዎ ይመለሳል።',
+  'guide.checkBalanceLabel': 'ቀሪ ሂሳብዎን ያረጋግጡ፦',
+  'guide.transferBalance': 'ቀሪ ሂሳብዎ በራስ-ሰር ይታያል።',
+  'guide.referralLabel': 'የተቀባዩን የሪፈራል ኮድ (Referral Code) ያስገቡ፦',
+  'guide.transferReferral': 'የጓደኛዎን ኮድ ይጠይቁ (የእርስዎን ለማግኘት {command} ብለው ይፃፉ)።',
+  'guide.checkRecipientLabel': 'ተቀባዩን ያረጋግጡ፦',
+  'guide.transferRecipient': 'ቦቱ የተቀባዩን ስም እና ስልክ ቁጥር ያሳየዎታል።',
+  'guide.transferAmount': 'ሊያስተላልፉት የሚፈልጉት መጠን ከቀሪ ሂሳብዎ ያነሰ እና ከዜሮ በላይ መሆን አለበት።',
+  'guide.transferConfirm': 'ዝውውሩ ወዲያውኑ ይፈጸማል፤ ለሁለታችሁም የማሳወቂያ መልዕክት ይደርሳችኋል።',
+  'guide.bingoTitle': 'የቢንጎ ጨዋታ አጭር መመሪያ',
+  'guide.gameChoiceTitle': 'ጨዋታ ምርጫ',
+  'guide.gameChoicePick': 'ከ G1–G7 ይምረጡ (ከ5–200 ብር)።',
+  'guide.gameChoiceCheck': 'በቂ ሂሳብ መኖርዎን እና የጨዋታውን ሁኔታ ያረጋግጡ።',
+  'guide.cardChoiceTitle': 'ካርድ ምርጫ',
+  'guide.cardChoiceColors': 'አረንጓዴ፦ የሚመረጥ | ቀይ፦ የተያዘ።',
+  'guide.cardChoicePick': 'ከ100 ካርዶች ውስጥ የሚወዱትን ይምረጡ።',
+  'guide.playTitle': 'አጨዋወት',
+  'guide.playMark': 'ቁጥሮች ሲጠሩ በካርድዎ ላይ ካሉ ይጫኑ (ምልክት ያድርጉ)።',
+  'guide.playFree': 'የመሃል ቁጥር (#) ሁልጊዜ ነጻ ስጦታ ነው።',
+  'guide.claimTitle': 'ቢንጎ ለማለት',
+  'guide.claimWhen': 'ከታች ካሉት ቅርጾች አንዱ በካርድዎ ላይ ሲሞላ "ቢንጎ" ይጫኑ።',
+  'guide.claimPatterns': 'እያንዳንዱ ጨዋታ የሚጠቀምባቸው ቅርጾች በጨዋታ ገጹ ላይ ይታያሉ (በተለምዶ መስመር ወይም 4 ማዕዘን)።',
+  'guide.claimFirst': 'ቀድሞ በትክክል የጠራ ተጫዋች ያሸንፋል።',
+  'guide.prizeTitle': 'ሽልማት',
+  'guide.prizeBody': 'አሸናፊው ተጫዋቾች በከፈሉት ድምር ልክ ሽልማቱን በቀጥታ ሂሳቡ ላይ ያገኛል።',
+  'guide.buttonsTitle': 'ዋና ቁልፎች',
+  'guide.buttonRefresh': 'መረጃ ለማደስ።',
+  'guide.buttonLeave': 'ለመውጣት (ውርርድ አይመለስም)።',
+  'guide.tipLabel': 'ምክር፦',
+  'guide.tip': 'ቁጥሮችን በፍጥነት ይከታተሉ፤ ሳይሞሉ "ቢንጎ" አይበሉ!',
+};
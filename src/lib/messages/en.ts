@@ -0,0 +1,302 @@
+// English catalog - the source of message keys; am.ts and om.ts must cover every one.
+// {name} is filled in from params; a { one, other } message picks its form from params.count.
+
+type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export const en = {
+  // Shared
+  'common.loading': 'Loading...',
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.ok': 'OK',
+  'common.close': 'Close',
+  'common.demo': 'Demo',
+  'common.language': 'Language',
+
+  // Session and connection
+  'session.restoring': 'Restoring your game...',
+  'session.errorTitle': 'Error',
+  'session.loadFailed': 'Failed to load user data',
+  'openInTelegram.title': 'Please open from Telegram',
+  'openInTelegram.expired': 'Your session has expired. Close the app and open it again from the Telegram bot.',
+  'openInTelegram.missing': 'This game only works inside Telegram. Open it from the bot using the Play button.',
+  'connection.connected': 'Connected',
+  'connection.connecting': 'Connecting...',
+  'connection.reconnectingIn': 'Reconnecting in {seconds}s',
+  'connection.reconnecting': 'Reconnecting...',
+  'connection.offline': 'Offline',
+  'connection.tapToRetry': 'Tap to retry',
+  'resync.done': 'Resynced',
+
+  // API errors - shown when the backend sent no message of its own
+  'apiError.network': 'Network error. Please check your connection and try again.',
+  'apiError.timeout': 'The server took too long to respond. Please try again.',
+  'apiError.cancelled': 'Request was cancelled.',
+  'apiError.unauthorized': 'Your session has expired. Please reopen the app from Telegram.',
+  'apiError.forbidden': 'You are not allowed to do that.',
+  'apiError.notFound': 'Not found.',
+  'apiError.conflict': 'This action conflicts with the current state. Please refresh and try again.',
+  'apiError.validation': 'Invalid request.',
+  'apiError.rateLimited': 'Too many requests. Please wait a moment and try again.',
+  'apiError.server': 'Something went wrong on our side. Please try again.',
+  'apiError.unknown': 'Something went wrong. Please try again.',
+
+  // Header
+  'header.demoOn': 'Demo ON',
+  'header.switchToReal': 'Switch to real money',
+  'header.practice': 'Practice with play money',
+
+  // Lobby
+  'lobby.open': 'Open',
+  'lobby.openCountdown': 'Open ({seconds})',
+  'lobby.playing': 'Playing',
+  'lobby.opensAt': 'Opens {time}',
+  'lobby.closed': 'Closed',
+  'lobby.findGameFailed': 'Unable to create or find a game. Please try again.',
+  'lobby.stakeName': '{amount} birr',
+  'lobby.players': { one: '{count} player', other: '{count} players' },
+  'lobby.noPlayers': '- players',
+  'lobby.minPlayers': '(min {count})',
+  'lobby.derash': '{amount} derash',
+  'lobby.join': 'Join',
+  'lobby.demoNotice': 'Play money - wins and losses only change your demo balance.',
+  'lobby.sortDefault': 'Default',
+  'lobby.sortStake': 'Stake',
+  'lobby.sortPlayers': 'Players',
+  'lobby.sortPot': 'Derash',
+  'lobby.sortStart': 'Starts soon',
+  'lobby.affordableOnly': 'Only what I can afford',
+  'lobby.startingSoon': 'About to start',
+  'lobby.noneAffordable': 'No games you can afford right now.',
+  'lobby.insufficient': 'Your balance is too low for this stake',
+
+  // Card picker
+  'cards.maxCards': 'You can play up to {count} cards in one game',
+  'cards.invalidCard': 'Invalid card ID',
+  'cards.selectCard': 'Please select a card',
+  'cards.insufficient': 'Insufficient balance for the selected cards',
+  'cards.noUser': 'User information not found',
+  'cards.pleaseWait': 'Please wait a moment',
+  'cards.join': 'Join the game',
+  'cards.joinWithCost': 'Join the game ({amount})',
+  'cards.joining': 'Joining...',
+  'cards.continueGame': 'Continue the game',
+  'cards.cost': { one: '{count} card × {bet} = {total}', other: '{count} cards × {bet} = {total}' },
+  'cards.notEnough': 'Not enough balance',
+  'cards.left': '{amount} left',
+  'cards.searchPlaceholder': 'Card #',
+  'cards.noSuchCard': 'There is no card {id}',
+  'cards.hideTaken': 'Hide taken',
+  'cards.luckyPick': 'Lucky pick',
+  'cards.noneAvailable': 'No free cards left',
+  'cards.findByNumbers': 'Cards with my numbers',
+  'cards.numbersPlaceholder': 'e.g. 7, 14, 21',
+  'cards.numbersHint': 'Numbers from 1 to 75, separated by spaces or commas',
+  'cards.matchCount': '{matched}/{count}',
+  'cards.noMatches': 'No card has any of these numbers',
+  'cards.taken': 'Card {id} is already taken',
+
+  // Favorite cards
+  'favorites.title': 'Favorites',
+  'favorites.add': 'Add to favorites',
+  'favorites.remove': 'Remove from favorites',
+  'favorites.movedTo': 'Card {taken} was taken - switched to your favorite {next}',
+
+  // Keep playing
+  'autoJoin.enable': 'Keep playing with this card',
+  'autoJoin.pickCard': 'Pick a card to keep playing',
+  'autoJoin.title': 'Keep playing',
+  'autoJoin.stop': 'Stop',
+  'autoJoin.rounds': 'Rounds',
+  'autoJoin.spendLimit': 'Spend limit (ETB)',
+  'autoJoin.noLimit': 'No limit',
+  'autoJoin.progress': { one: '{count} round joined · {spent} spent', other: '{count} rounds joined · {spent} spent' },
+  'autoJoin.stopped': 'Keep playing stopped: {reason}',
+  'autoJoin.allRoundsPlayed': 'Played all {count} rounds',
+  'autoJoin.spendCapReached': 'Spend limit of {amount} reached',
+  'autoJoin.balanceTooLow': 'Balance too low for the next game',
+  'autoJoin.noOpenGame': 'No open game to join',
+  'autoJoin.cardsTaken': 'All your preferred cards are taken',
+  'autoJoin.joinFailed': 'Could not join the next game',
+  'autoJoin.fewerCards': 'Joined the next game with {count} of your {previous} cards - the others were taken or not affordable',
+
+  // Wallet
+  'wallet.deposit': 'Deposit',
+  'wallet.withdraw': 'Withdraw',
+  'wallet.history': 'History',
+
+  // Deposit
+  'deposit.submit': 'Deposit',
+  'deposit.submitting': 'Submitting...',
+  'deposit.minError': 'Minimum deposit is {amount}',
+  'deposit.maxError': 'Maximum deposit is {amount}',
+  'deposit.successTitle': 'Deposit request submitted successfully!',
+  'deposit.successBody': 'It will be processed after admin approval.',
+  'deposit.rulesTitle': 'Before you deposit',
+  'deposit.ruleSameAmount': 'The amount you enter must equal the amount you sent to the account.',
+  'deposit.ruleFullSms': 'Paste the full confirmation SMS of the transfer.',
+  'deposit.ruleMin': 'The minimum amount is {amount}',
+  'deposit.ruleMax': 'The maximum amount is {amount}',
+  'deposit.paymentType': 'Choose a payment method',
+  'deposit.choosePaymentType': 'Select method',
+  'deposit.accountNumber': 'Account Number:',
+  'deposit.copy': 'Copy',
+  'deposit.copied': 'Copied!',
+  'deposit.amount': 'Amount sent (birr)',
+  'deposit.sms': 'Full Transaction SMS',
+  'deposit.smsPlaceholder': 'Paste the full transaction SMS',
+
+  // Withdraw
+  'withdraw.submit': 'Withdraw',
+  'withdraw.minError': 'Minimum withdrawal is {amount}',
+  'withdraw.minRemainingError': 'You must leave at least {amount} in your account',
+  'withdraw.insufficient': 'Insufficient balance',
+  'withdraw.successTitle': 'Withdrawal request submitted successfully!',
+  'withdraw.currentBalance': 'Current Balance',
+  'withdraw.checkingDeposits': 'Checking deposit history...',
+  'withdraw.unavailableTitle': 'Withdrawal Not Available',
+  'withdraw.unavailableBody': 'You must make at least one deposit before you can withdraw funds. Please make a deposit first.',
+  'withdraw.goToDeposit': 'Go to Deposit',
+  'withdraw.method': 'Choose a withdrawal method',
+  'withdraw.accountNumber': 'Account number',
+  'withdraw.accountNumberPlaceholder': 'Enter account number',
+  'withdraw.amount': 'Amount (birr)',
+  'withdraw.remaining': 'Remaining balance: {amount}',
+
+  // History
+  'history.loadFailed': 'Failed to load history',
+  'history.deposits': 'Deposits',
+  'history.withdrawals': 'Withdrawals',
+  'history.transfers': 'Transfers',
+  'history.all': 'All',
+  'history.noDeposits': 'No deposit history found',
+  'history.noWithdrawals': 'No withdrawal history found',
+  'history.noTransfers': 'No transfer history found',
+  'history.notAvailable': 'N/A',
+  'history.transactionId': 'TX ID: {id}',
+  'history.to': 'To: {name}',
+  'history.from': 'From: {name}',
+  'history.statusCompleted': 'COMPLETED',
+  'history.statusPending': 'PENDING',
+  'history.statusFailed': 'FAILED',
+
+  // Play screen
+  'play.loading': 'Loading game...',
+  'play.derash': 'Derash:',
+  'play.players': 'Players:',
+  'play.bet': 'Bet:',
+  'play.winWith': 'Win with:',
+  'play.waitingForPlayers': 'Waiting for other players to join...',
+  'play.timer': 'TIMER',
+  'play.recent': 'Recent {count}',
+  'play.noneDrawn': 'No numbers drawn yet',
+  'play.daubManual': 'Manual',
+  'play.daubAssisted': 'Assisted',
+  'play.daubAuto': 'Auto',
+  'play.oneToGo': 'One to go:',
+  'play.patternComplete': 'Pattern complete - claim BINGO!',
+  'play.notDrawn': 'This number has not been drawn yet!',
+  'play.missingInfo': 'Game or card information missing',
+  'play.invalidClaim': 'Invalid bingo claim. You have been eliminated.',
+  'play.eliminated': 'Your bingo claim was invalid. You have been eliminated.',
+  'play.refreshFailed': 'Failed to refresh game data. Please try again.',
+  'play.anotherPlayer': 'Another player',
+  'play.youWon': 'Congratulations! You won!',
+  'play.playerWon': '{name} won the game!',
+  'play.youWonPrize': 'You won {amount}!',
+  'play.wonPrize': 'Won {amount}!',
+  'play.joiningNext': 'Joining the next game...',
+  'play.nextGameSoon': 'Keep playing is on - next game in a moment',
+  'play.boardNumber': 'BOARD NUMBER {id}',
+  'play.redirecting': 'Redirecting to game selection...',
+  'play.leaveConfirmTitle': 'Are you sure you want to leave the game?',
+  'play.leaveConfirmBody': 'Your bet will not be refunded if you leave now.',
+  'play.leaveGame': 'Leave Game',
+  'play.leave': 'Leave',
+  'play.leaving': 'Leaving...',
+  'play.bingo': 'Bingo',
+  'play.verifying': 'Verifying...',
+  'play.bingoNative': 'BINGO!',
+  'play.bingoNativeComplete': '🎉 BINGO! 🎉',
+  'play.refresh': 'Refresh',
+
+  // Number caller
+  'caller.mute': 'Mute caller',
+  'caller.unmute': 'Unmute caller',
+  'caller.volume': 'Caller volume',
+  'caller.language': 'Caller language',
+
+  // Winning patterns
+  'pattern.line': 'Line',
+  'pattern.corners': 'Corners',
+  'pattern.x': 'X',
+  'pattern.postageStamp': 'Postage stamp',
+  'pattern.frame': 'Frame',
+  'pattern.blackout': 'Blackout',
+  'pattern.notDrawn': {
+    one: "{pattern} can't be confirmed: {numbers} has not been drawn.",
+    other: "{pattern} can't be confirmed: {numbers} have not been drawn.",
+  },
+  'pattern.incomplete': 'No complete pattern yet. {pattern} still needs {numbers}.',
+
+  // Instructions page
+  'guide.title': 'Instructions',
+  'guide.depositTitle': 'How to deposit ({count} steps)',
+  'guide.withdrawTitle': 'How to withdraw ({count} steps)',
+  'guide.transferTitle': 'How to transfer ({count} steps)',
+  'guide.stepFirst': 'First:',
+  'guide.typeCommand': 'Type {command} in the bot.',
+  'guide.methods': 'Telebirr or Commercial Bank of Ethiopia (CBE).',
+  'guide.amountLabel': 'Enter the amount:',
+  'guide.confirmLabel': 'Confirmation:',
+  'guide.waitLabel': 'Wait:',
+  'guide.important': 'Important!',
+  'guide.depositMethodLabel': 'Choose a payment method:',
+  'guide.depositAmount': 'From 50 to 1,000 birr.',
+  'guide.payLabel': 'Pay:',
+  'guide.depositPay': 'Transfer the money to the account number you are given.',
+  'guide.transactionIdLabel': 'Enter the Transaction ID:',
+  'guide.depositTransactionId': 'Copy and paste it exactly.',
+  'guide.depositWait': 'Your balance is updated once an admin confirms it.',
+  'guide.withdrawDepositLabel': 'Deposit first:',
+  'guide.withdrawDeposit': 'You must have made at least one deposit before you can withdraw.',
+  'guide.withdrawMethodLabel': 'Choose a withdrawal method:',
+  'guide.accountNumberLabel': 'Enter the account number:',
+  'guide.withdrawAccountNumber': 'The account you want to receive the money in.',
+  'guide.withdrawAmount': 'The minimum is 50 birr; at least 10 birr must stay in your balance.',
+  'guide.withdrawConfirm': 'The amount is taken from your balance right away.',
+  'guide.withdrawWait': 'Once an admin approves the request the money is sent to you; if it is rejected, it goes back to your balance.',
+  'guide.checkBalanceLabel': 'Check your balance:',
+  'guide.transferBalance': 'Your balance is shown automatically.',
+  'guide.referralLabel': "Enter the recipient's Referral Code:",
+  'guide.transferReferral': 'Ask your friend for their code (type {command} to get yours).',
+  'guide.checkRecipientLabel': 'Check the recipient:',
+  'guide.transferRecipient': "The bot shows the recipient's name and phone number.",
+  'guide.transferAmount': 'The amount must be more than zero and less than your balance.',
+  'guide.transferConfirm': 'The transfer happens right away; you both get a notification.',
+  'guide.bingoTitle': 'Bingo in short',
+  'guide.gameChoiceTitle': 'Choosing a game',
+  'guide.gameChoicePick': 'Pick a stake from G1–G7 (5–200 birr).',
+  'guide.gameChoiceCheck': 'Make sure you have enough balance and check the game status.',
+  'guide.cardChoiceTitle': 'Choosing a card',
+  'guide.cardChoiceColors': 'Green: available | Red: taken.',
+  'guide.cardChoicePick': 'Pick the card you like out of 100.',
+  'guide.playTitle': 'Playing',
+  'guide.playMark': 'When a number is called and it is on your card, tap it to mark it.',
+  'guide.playFree': 'The center cell (#) is always free.',
+  'guide.claimTitle': 'Calling bingo',
+  'guide.claimWhen': 'Press "Bingo" when one of the patterns below is complete on your card.',
+  'guide.claimPatterns': 'The play screen shows which patterns each game uses (usually a line or the 4 corners).',
+  'guide.claimFirst': 'The first player to call a correct bingo wins.',
+  'guide.prizeTitle': 'Prize',
+  'guide.prizeBody': "The winner gets the derash - the players' combined bets - straight into their balance.",
+  'guide.buttonsTitle': 'Main buttons',
+  'guide.buttonRefresh': 'Reload the game data.',
+  'guide.buttonLeave': 'Leave the game (your bet is not refunded).',
+  'guide.tipLabel': 'Tip:',
+  'guide.tip': 'Follow the numbers closely, and don\'t press "Bingo" before your pattern is complete!',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, Message>;
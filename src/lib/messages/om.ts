@@ -0,0 +1,295 @@
+import type { Messages } from './en';
+
+// Afaan Oromoo
+// "Derash" (the prize pot) and "Bingo" are kept as they are: Oromo-speaking players use the same
+// words, and the Latin script needs no transliteration the way Amharic does
+export const om: Messages = {
+  // Shared
+  'common.loading': "Fe'aa jira...",
+  'common.back': "Deebi'i",
+  'common.cancel': 'Haqi',
+  'common.ok': 'Tole',
+  'common.close': 'Cufi',
+  'common.demo': 'Yaalii',
+  'common.language': 'Afaan',
+
+  // Session and connection
+  'session.restoring': "Taphni kee deebi'aa jira...",
+  'session.errorTitle': 'Dogoggora',
+  'session.loadFailed': "Odeeffannoo fayyadamaa fe'uun hin danda'amne",
+  'openInTelegram.title': 'Maaloo Telegram irraa bani',
+  'openInTelegram.expired': "Yeroon seenaa kee dhumateera. Appii cufii bot Telegram irraa irra deebi'ii bani.",
+  'openInTelegram.missing': "Taphni kun Telegram keessatti qofa hojjeta. Bot irraa qabduu Play tuquun bani.",
+  'connection.connected': 'Walqunnameera',
+  'connection.connecting': 'Walqunnamaa jira...',
+  'connection.reconnectingIn': "Sekondii {seconds} keessatti irra deebi'ee walqunnama",
+  'connection.reconnecting': "Irra deebi'ee walqunnamaa jira...",
+  'connection.offline': 'Toora ala',
+  'connection.tapToRetry': "Irra deebi'ii yaaluuf tuqi",
+  'resync.done': "Haaromfameera",
+
+  // API errors - shown when the backend sent no message of its own
+  'apiError.network': "Dogoggora networkii. Maaloo walqunnamtii kee mirkaneessii irra deebi'ii yaali.",
+  'apiError.timeout': "Sarvarri deebii kennuuf yeroo dheeraa fudhate. Maaloo irra deebi'ii yaali.",
+  'apiError.cancelled': 'Gaaffiin haqameera.',
+  'apiError.unauthorized': "Yeroon seenaa kee dhumateera. Maaloo appii Telegram irraa irra deebi'ii bani.",
+  'apiError.forbidden': 'Kana gochuuf hayyama hin qabdu.',
+  'apiError.notFound': 'Hin argamne.',
+  'apiError.conflict': "Gochi kun haala amma jiru wajjin wal dhaba. Maaloo haaromsii irra deebi'ii yaali.",
+  'apiError.validation': 'Gaaffii sirrii hin taane.',
+  'apiError.rateLimited': "Gaaffiiwwan baay'een ergaman. Maaloo xiqqoo eegii irra deebi'ii yaali.",
+  'apiError.server': "Gama keenyaan rakkoon uumameera. Maaloo irra deebi'ii yaali.",
+  'apiError.unknown': "Rakkoon uumameera. Maaloo irra deebi'ii yaali.",
+
+  // Header
+  'header.demoOn': 'Yaalii banaa',
+  'header.switchToReal': 'Gara maallaqa dhugaatti jijjiiri',
+  'header.practice': 'Maallaqa yaaliitiin shaakali',
+
+  // Lobby
+  'lobby.open': 'Banaa',
+  'lobby.openCountdown': 'Banaa ({seconds})',
+  'lobby.playing': 'Taphachaa jira',
+  'lobby.opensAt': 'Banama {time}',
+  'lobby.closed': 'Cufaa',
+  'lobby.findGameFailed': "Tapha uumuun ykn argachuun hin danda'amne. Maaloo irra deebi'ii yaali.",
+  'lobby.stakeName': 'Birrii {amount}',
+  'lobby.players': { one: 'Taphataa {count}', other: 'Taphattoota {count}' },
+  'lobby.noPlayers': '- taphattoota',
+  'lobby.minPlayers': '(yoo xiqqaate {count})',
+  'lobby.derash': '{amount} derash',
+  'lobby.join': 'Seeni',
+  'lobby.demoNotice': "Maallaqa yaalii - mo'ichi fi moo'amuun herrega yaalii kee qofa jijjiira.",
+  'lobby.sortDefault': 'Idilee',
+  'lobby.sortStake': 'Qabsiisa',
+  'lobby.sortPlayers': 'Taphattoota',
+  'lobby.sortPot': 'Derash',
+  'lobby.sortStart': 'Dafee jalqabu',
+  'lobby.affordableOnly': "Kan danda'u qofa",
+  'lobby.startingSoon': "Jalqabuuf jira",
+  'lobby.noneAffordable': "Amma taphni herrega keetiin seentu hin jiru.",
+  'lobby.insufficient': "Herregni kee tapha kanaaf gahaa miti",
+
+  // Card picker
+  'cards.maxCards': "Tapha tokko keessatti hanga kaardii {count} taphachuu dandeessa",
+  'cards.invalidCard': "Lakkoofsi kaardii sirrii miti",
+  'cards.selectCard': 'Maaloo kaardii filadhu',
+  'cards.insufficient': "Kaardii filatamaniif herregni kee gahaa miti",
+  'cards.noUser': "Odeeffannoon fayyadamaa hin argamne",
+  'cards.pleaseWait': 'Maaloo xiqqoo eegi',
+  'cards.join': 'Tapha seeni',
+  'cards.joinWithCost': 'Tapha seeni ({amount})',
+  'cards.joining': 'Seenaa jira...',
+  'cards.continueGame': 'Tapha itti fufi',
+  'cards.cost': { one: 'Kaardii {count} × {bet} = {total}', other: 'Kaardiiwwan {count} × {bet} = {total}' },
+  'cards.notEnough': "Herregni gahaan hin jiru",
+  'cards.left': "{amount} hafa",
+  'cards.searchPlaceholder': 'Kaardii #',
+  'cards.noSuchCard': 'Kaardiin {id} hin jiru',
+  'cards.hideTaken': 'Kan qabaman dhoksi',
+  'cards.luckyPick': 'Filannoo carraa',
+  'cards.noneAvailable': 'Kaardiin bilisaa hin hafne',
+  'cards.findByNumbers': 'Kaardiiwwan lakkoofsota koo qaban',
+  'cards.numbersPlaceholder': 'fkn. 7, 14, 21',
+  'cards.numbersHint': 'Lakkoofsota 1 hanga 75, iddoo duwwaa ykn koomaan addaan baasi',
+  'cards.matchCount': '{matched}/{count}',
+  'cards.noMatches': 'Kaardiin lakkoofsota kana keessaa tokko qabu hin jiru',
+  'cards.taken': 'Kaardiin {id} duraan qabameera',
+
+  // Favorite cards
+  'favorites.title': 'Filatamoo',
+  'favorites.add': 'Filatamootti dabali',
+  'favorites.remove': 'Filatamoo irraa haqi',
+  'favorites.movedTo': 'Kaardiin {taken} qabameera - gara kaardii filatamaa kee {next} jijjiirameera',
+
+  // Keep playing
+  'autoJoin.enable': 'Kaardii kanaan taphachuu itti fufi',
+  'autoJoin.pickCard': "Taphachuu itti fufuuf kaardii filadhu",
+  'autoJoin.title': 'Taphachuu itti fufi',
+  'autoJoin.stop': 'Dhaabi',
+  'autoJoin.rounds': 'Marsaalee',
+  'autoJoin.spendLimit': 'Daangaa baasii (ETB)',
+  'autoJoin.noLimit': 'Daangaa hin qabu',
+  'autoJoin.progress': { one: 'Marsaa {count} seenameera · {spent} baasii', other: 'Marsaalee {count} seenameera · {spent} baasii' },
+  'autoJoin.stopped': 'Taphachuu itti fufuun dhaabbateera: {reason}',
+  'autoJoin.allRoundsPlayed': 'Marsaaleen {count} hundi taphatamaniiru',
+  'autoJoin.spendCapReached': "Daangaan baasii {amount} ga'eera",
+  'autoJoin.balanceTooLow': 'Herregni kee tapha itti aanuuf gahaa miti',
+  'autoJoin.noOpenGame': 'Taphni banaan seenamu hin jiru',
+  'autoJoin.cardsTaken': "Kaardiiwwan ati filatte hundi qabamaniiru",
+  'autoJoin.joinFailed': "Tapha itti aanu seenuun hin danda'amne",
+  'autoJoin.fewerCards': 'Kaardiiwwan kee {previous} keessaa {count}n tapha itti aanu seenteetta - kanneen biroo qabamaniiru ykn herregni kee hin gahu',
+
+  // Wallet
+  'wallet.deposit': 'Galchi',
+  'wallet.withdraw': 'Baasi',
+  'wallet.history': 'Seenaa',
+
+  // Deposit
+  'deposit.submit': 'Galchi',
+  'deposit.submitting': 'Ergaa jira...',
+  'deposit.minError': "Galchiin xiqqaan {amount} dha",
+  'deposit.maxError': "Galchiin guddaan {amount} dha",
+  'deposit.successTitle': "Gaaffiin galchii kee milkaa'inaan ergameera!",
+  'deposit.successBody': "Erga bulchaan mirkaneessee booda raawwatama.",
+  'deposit.rulesTitle': "Osoo hin galchiin dura",
+  'deposit.ruleSameAmount': "Hamman galchitu hamma herregatti ergite wajjin walqixa ta'uu qaba.",
+  'deposit.ruleFullSms': "SMS mirkaneessaa dabarsaa guutuu maxxansi.",
+  'deposit.ruleMin': "Hamman xiqqaan {amount} dha",
+  'deposit.ruleMax': "Hamman guddaan {amount} dha",
+  'deposit.paymentType': 'Mala kaffaltii filadhu',
+  'deposit.choosePaymentType': 'Mala filadhu',
+  'deposit.accountNumber': 'Lakkoofsa herregaa:',
+  'deposit.copy': 'Garagalchi',
+  'deposit.copied': 'Garagalfameera!',
+  'deposit.amount': 'Hamma ergite (birrii)',
+  'deposit.sms': 'SMS daldalaa guutuu',
+  'deposit.smsPlaceholder': 'SMS daldalaa guutuu as maxxansi',
+
+  // Withdraw
+  'withdraw.submit': 'Baasi',
+  'withdraw.minError': "Baasiin xiqqaan {amount} dha",
+  'withdraw.minRemainingError': "Herrega kee keessatti yoo xiqqaate {amount} hafuu qaba",
+  'withdraw.insufficient': 'Herregni gahaa miti',
+  'withdraw.successTitle': "Gaaffiin baasii kee milkaa'inaan ergameera!",
+  'withdraw.currentBalance': 'Herrega amma',
+  'withdraw.checkingDeposits': 'Seenaa galchii mirkaneessaa jira...',
+  'withdraw.unavailableTitle': "Baasiin hin danda'amu",
+  'withdraw.unavailableBody': "Osoo hin baasiin dura yoo xiqqaate al tokko galchuu qabda. Maaloo dura galchi.",
+  'withdraw.goToDeposit': 'Gara galchiitti deemi',
+  'withdraw.method': 'Mala baasii filadhu',
+  'withdraw.accountNumber': 'Lakkoofsa herregaa',
+  'withdraw.accountNumberPlaceholder': 'Lakkoofsa herregaa galchi',
+  'withdraw.amount': 'Hamma (birrii)',
+  'withdraw.remaining': 'Herrega hafu: {amount}',
+
+  // History
+  'history.loadFailed': "Seenaa fe'uun hin danda'amne",
+  'history.deposits': 'Galchiiwwan',
+  'history.withdrawals': 'Baasiiwwan',
+  'history.transfers': 'Dabarsawwan',
+  'history.all': 'Hunda',
+  'history.noDeposits': 'Seenaan galchii hin argamne',
+  'history.noWithdrawals': 'Seenaan baasii hin argamne',
+  'history.noTransfers': 'Seenaan dabarsaa hin argamne',
+  'history.notAvailable': 'Hin jiru',
+  'history.transactionId': 'Eenyummaa daldalaa: {id}',
+  'history.to': 'Gara: {name}',
+  'history.from': 'Irraa: {name}',
+  'history.statusCompleted': 'XUMURAMEERA',
+  'history.statusPending': 'EEGAMAA JIRA',
+  'history.statusFailed': 'HIN MILKOONE',
+
+  // Play screen
+  'play.loading': "Taphni fe'aa jira...",
+  'play.derash': 'Derash:',
+  'play.players': 'Taphattoota:',
+  'play.bet': 'Qabsiisa:',
+  'play.winWith': "Kanaan mo'i:",
+  'play.waitingForPlayers': 'Taphattoota biroo eegaa jira...',
+  'play.timer': 'YEROO',
+  'play.recent': 'Dhiyoo {count}',
+  'play.noneDrawn': "Hanga ammaatti lakkoofsi hin waamamne",
+  'play.daubManual': 'Harkaan',
+  'play.daubAssisted': 'Gargaarsaan',
+  'play.daubAuto': 'Ofumaan',
+  'play.oneToGo': 'Tokko hafe:',
+  'play.patternComplete': "Bifni guutameera - BINGO jedhi!",
+  'play.notDrawn': "Lakkoofsi kun hanga ammaatti hin waamamne!",
+  'play.missingInfo': "Odeeffannoon taphaa ykn kaardii hin jiru",
+  'play.invalidClaim': "Bingoon kee sirrii miti. Taphicha irraa baafamteetta.",
+  'play.eliminated': "Bingoon ati jette sirrii hin turre. Taphicha irraa baafamteetta.",
+  'play.refreshFailed': "Odeeffannoo taphaa haaromsuun hin danda'amne. Maaloo irra deebi'ii yaali.",
+  'play.anotherPlayer': 'Taphataa biraa',
+  'play.youWon': "Baga gammadde! Mo'atteetta!",
+  'play.playerWon': "{name} taphicha mo'ateera!",
+  'play.youWonPrize': "{amount} mo'atteetta!",
+  'play.wonPrize': "{amount} mo'ateera!",
+  'play.joiningNext': 'Tapha itti aanu seenaa jira...',
+  'play.nextGameSoon': "Taphachuu itti fufuun banaa dha - taphni itti aanu dhiyootti",
+  'play.boardNumber': 'LAKKOOFSA KAARDII {id}',
+  'play.redirecting': "Gara filannoo taphaatti deebi'aa jira...",
+  'play.leaveConfirmTitle': "Taphicha keessaa bahuu akka barbaaddu mirkanaa'aa?",
+  'play.leaveConfirmBody': "Amma yoo baate qabsiisni kee hin deebi'u.",
+  'play.leaveGame': 'Tapha keessaa bahi',
+  'play.leave': 'Bahi',
+  'play.leaving': 'Bahaa jira...',
+  'play.bingo': 'Bingo',
+  'play.verifying': 'Mirkaneessaa jira...',
+  'play.bingoNative': 'BINGO!',
+  'play.bingoNativeComplete': '🎉 BINGO! 🎉',
+  'play.refresh': 'Haaromsi',
+
+  // Number caller
+  'caller.mute': 'Waamaa cal jechisiisi',
+  'caller.unmute': 'Waamaa dubbisi',
+  'caller.volume': 'Sagalee waamaa',
+  'caller.language': 'Afaan waamaa',
+
+  // Winning patterns
+  'pattern.line': 'Sarara',
+  'pattern.corners': 'Golee 4',
+  'pattern.x': 'X',
+  'pattern.postageStamp': 'Teembira',
+  'pattern.frame': 'Daangaa',
+  'pattern.blackout': 'Kaardii guutuu',
+  'pattern.notDrawn': "{pattern} mirkaneessuun hin danda'amu: {numbers} hin waamamne.",
+  'pattern.incomplete': "Hanga ammaatti bifni guutame hin jiru. {pattern} ammallee {numbers} barbaada.",
+
+  // Instructions page
+  'guide.title': 'Qajeelfama',
+  'guide.depositTitle': 'Akkaataa maallaqa galchuu (tarkaanfii {count})',
+  'guide.withdrawTitle': 'Akkaataa maallaqa baasuu (tarkaanfii {count})',
+  'guide.transferTitle': 'Akkaataa maallaqa dabarsuu (tarkaanfii {count})',
+  'guide.stepFirst': 'Jalqaba:',
+  'guide.typeCommand': 'Bot keessatti {command} barreessi.',
+  'guide.methods': 'Telebirr ykn Baankii Daldala Itoophiyaa (CBE).',
+  'guide.amountLabel': 'Hamma galchi:',
+  'guide.confirmLabel': 'Mirkaneessa:',
+  'guide.waitLabel': 'Eegi:',
+  'guide.important': 'Barbaachisaa!',
+  'guide.depositMethodLabel': 'Mala kaffaltii filadhu:',
+  'guide.depositAmount': 'Birrii 50 hanga 1,000.',
+  'guide.payLabel': 'Kaffali:',
+  'guide.depositPay': 'Maallaqa lakkoofsa herregaa siif kennametti dabarsi.',
+  'guide.transactionIdLabel': 'Transaction ID galchi:',
+  'guide.depositTransactionId': 'Sirriitti garagalchii maxxansi.',
+  'guide.depositWait': "Erga bulchaan mirkaneesse herregni kee haaromfama.",
+  'guide.withdrawDepositLabel': 'Dura galchi:',
+  'guide.withdrawDeposit': "Baasuuf yoo xiqqaate al tokko galchuu qabda.",
+  'guide.withdrawMethodLabel': 'Mala baasii filadhu:',
+  'guide.accountNumberLabel': 'Lakkoofsa herregaa galchi:',
+  'guide.withdrawAccountNumber': 'Herrega maallaqa itti fudhachuu barbaaddu.',
+  'guide.withdrawAmount': "Xiqqaan birrii 50; herrega kee keessatti yoo xiqqaate birrii 10 hafuu qaba.",
+  'guide.withdrawConfirm': "Hamman ati gaafatte battalumatti herrega kee irraa hir'ifama.",
+  'guide.withdrawWait': "Bulchaan gaaffii yoo fudhate maallaqni siif ergama; yoo didame herrega keetti deebi'a.",
+  'guide.checkBalanceLabel': 'Herrega kee mirkaneessi:',
+  'guide.transferBalance': 'Herregni kee ofumaan mul\'ata.',
+  'guide.referralLabel': 'Referral Code fudhataa galchi:',
+  'guide.transferReferral': "Koodii hiriyaa keetii gaafadhu (kan kee argachuuf {command} barreessi).",
+  'guide.checkRecipientLabel': 'Fudhataa mirkaneessi:',
+  'guide.transferRecipient': "Botichi maqaa fi lakkoofsa bilbilaa fudhataa si agarsiisa.",
+  'guide.transferAmount': "Hamman zeeroo ol fi herrega kee gadi ta'uu qaba.",
+  'guide.transferConfirm': "Dabarsi battalumatti raawwatama; lachuun keessan beeksisa ni argattu.",
+  'guide.bingoTitle': 'Bingo gabaabinaan',
+  'guide.gameChoiceTitle': 'Tapha filachuu',
+  'guide.gameChoicePick': 'G1–G7 keessaa filadhu (birrii 5–200).',
+  'guide.gameChoiceCheck': "Herrega gahaa qabaachuu kee fi haala taphaa mirkaneessi.",
+  'guide.cardChoiceTitle': 'Kaardii filachuu',
+  'guide.cardChoiceColors': 'Magariisa: kan filatamu | Diimaa: kan qabame.',
+  'guide.cardChoicePick': 'Kaardiiwwan 100 keessaa kan jaallattu filadhu.',
+  'guide.playTitle': 'Akkaataa taphaa',
+  'guide.playMark': "Lakkoofsi yoo waamamee kaardii kee irra jiraate, mallatteessuuf tuqi.",
+  'guide.playFree': "Lakkoofsi giddugalaa (#) yeroo hunda bilisa.",
+  'guide.claimTitle': 'Bingo jechuu',
+  'guide.claimWhen': 'Bifoota armaan gadii keessaa tokko kaardii kee irratti yoo guutame "Bingo" tuqi.',
+  'guide.claimPatterns': "Bifoonni taphni tokkoon tokkoon itti fayyadamu fuula taphaa irratti mul'atu (yeroo baay'ee sarara ykn golee 4).",
+  'guide.claimFirst': "Taphataan dursee sirriitti bingo jedhe ni mo'ata.",
+  'guide.prizeTitle': 'Badhaasa',
+  'guide.prizeBody': "Mo'ataan derash - qabsiisa taphattootaa walitti qabame - kallattiin herrega isaatti argata.",
+  'guide.buttonsTitle': 'Qabduuwwan ijoo',
+  'guide.buttonRefresh': 'Odeeffannoo taphaa haaromsuuf.',
+  'guide.buttonLeave': "Tapha keessaa bahuuf (qabsiisni hin deebi'u).",
+  'guide.tipLabel': 'Gorsa:',
+  'guide.tip': 'Lakkoofsota dafii hordofi; osoo bifni kee hin guutamin "Bingo" hin jedhin!',
+};
@@ -0,0 +1,111 @@
+// In-app toasts and dialogs - window.alert/confirm block the page and look broken in the Telegram webview.
+// State lives here so any component or hook can notify; <Notifications /> in the root layout renders it.
+
+export type ToastKind = 'success' | 'info' | 'warning' | 'error';
+
+export interface Toast {
+  id: number;
+  kind: ToastKind;
+  message: string;
+}
+
+export interface DialogOptions {
+  title: string;
+  message?: string;
+  icon?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  // Red confirm button, for actions that cost the player something
+  danger?: boolean;
+}
+
+export interface Dialog extends DialogOptions {
+  id: number;
+}
+
+export interface NotificationState {
+  toasts: Toast[];
+  dialogs: Dialog[];
+}
+
+// Toasts beyond this wait their turn
+const MAX_VISIBLE_TOASTS = 3;
+const TOAST_DURATION_MS: Record<ToastKind, number> = { success: 3000, info: 4000, warning: 5000, error: 6000 };
+
+let state: NotificationState = { toasts: [], dialogs: [] };
+const listeners = new Set<() => void>();
+const toastTimers = new Map<number, ReturnType<typeof setTimeout>>();
+const dialogResolvers = new Map<number, (confirmed: boolean) => void>();
+let nextId = 1;
+
+const update = (next: NotificationState) => {
+  state = next;
+  scheduleVisibleToasts();
+  listeners.forEach((listener) => listener());
+};
+
+// A toast's timer only starts once it is on screen, so queued ones get their full time
+const scheduleVisibleToasts = () => {
+  state.toasts.slice(0, MAX_VISIBLE_TOASTS).forEach((toast) => {
+    if (toastTimers.has(toast.id)) return;
+    toastTimers.set(toast.id, setTimeout(() => dismissToast(toast.id), TOAST_DURATION_MS[toast.kind]));
+  });
+};
+
+export const getNotifications = (): NotificationState => state;
+
+export const getVisibleToasts = (notifications: NotificationState): Toast[] => notifications.toasts.slice(0, MAX_VISIBLE_TOASTS);
+
+export const onNotificationsChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const showToast = (kind: ToastKind, message: string) => {
+  // The same message already showing or queued (e.g. a failing retry) isn't repeated
+  if (state.toasts.some((toast) => toast.kind === kind && toast.message === message)) return;
+  update({ ...state, toasts: [...state.toasts, { id: nextId++, kind, message }] });
+};
+
+export const toast = {
+  success: (message: string) => showToast('success', message),
+  info: (message: string) => showToast('info', message),
+  warning: (message: string) => showToast('warning', message),
+  error: (message: string) => showToast('error', message),
+};
+
+export const dismissToast = (id: number) => {
+  clearTimeout(toastTimers.get(id));
+  toastTimers.delete(id);
+  update({ ...state, toasts: state.toasts.filter((toast) => toast.id !== id) });
+};
+
+// Resolves true when the player confirms, false when they cancel or it is dismissed.
+// Dialogs opened while one is on screen wait their turn.
+export const confirmDialog = (options: DialogOptions): Promise<boolean> =>
+  new Promise((resolve) => {
+    const id = nextId++;
+    dialogResolvers.set(id, resolve);
+    update({ ...state, dialogs: [...state.dialogs, { ...options, id }] });
+  });
+
+/**
+ * Close a dialog and settle its promise.
+ * @param id - Defaults to the dialog on screen
+ */
+export const closeDialog = (confirmed: boolean, id: number | undefined = state.dialogs[0]?.id) => {
+  if (id === undefined) return;
+  dialogResolvers.get(id)?.(confirmed);
+  dialogResolvers.delete(id);
+  update({ ...state, dialogs: state.dialogs.filter((dialog) => dialog.id !== id) });
+};
+
+// Dialogs belong to the screen that opened them - dismissed (as cancelled) when the player navigates away
+export const closeAllDialogs = () => {
+  if (state.dialogs.length === 0) return;
+  state.dialogs.forEach((dialog) => dialogResolvers.get(dialog.id)?.(false));
+  dialogResolvers.clear();
+  update({ ...state, dialogs: [] });
+};
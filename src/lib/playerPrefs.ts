@@ -0,0 +1,27 @@
+// Small settings kept in localStorage on this device, either for one player or (without a user id)
+// for everyone using the device. Reads never throw - a missing or unreadable value gives the fallback.
+
+const storageKey = (name: string, userId: string | null) => (userId ? `biruh.${name}.${userId}` : `biruh.${name}`);
+
+/**
+ * Read a stored preference.
+ * @param parse - Turns the stored JSON into a valid value; return the fallback for anything unexpected
+ */
+export const readPlayerPref = <T>(name: string, userId: string | null, fallback: T, parse: (stored: unknown) => T): T => {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = window.localStorage.getItem(storageKey(name, userId));
+    return raw ? parse(JSON.parse(raw)) : fallback;
+  } catch (error) {
+    console.error(`Error reading stored ${name}:`, error);
+    return fallback;
+  }
+};
+
+export const writePlayerPref = (name: string, userId: string | null, value: unknown) => {
+  try {
+    window.localStorage.setItem(storageKey(name, userId), JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error saving ${name}:`, error);
+  }
+};
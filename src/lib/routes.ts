@@ -0,0 +1,10 @@
+// Every in-app URL is built here so links, redirects and guards agree on the shape
+export const routes = {
+  lobby: () => '/',
+  cards: (gameType: string) => `/games/${encodeURIComponent(gameType)}`,
+  play: (gameId: string) => `/play/${encodeURIComponent(gameId)}`,
+  wallet: () => '/wallet',
+  deposit: () => '/wallet/deposit',
+  withdraw: () => '/wallet/withdraw',
+  history: () => '/wallet/history',
+};
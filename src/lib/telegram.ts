@@ -0,0 +1,170 @@
+// Minimal typings for the Telegram WebApp SDK (loaded from telegram-web-app.js in layout.tsx)
+export interface TelegramWebAppUser {
+  id: number;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+export interface TelegramThemeParams {
+  bg_color?: string;
+  text_color?: string;
+  hint_color?: string;
+  link_color?: string;
+  button_color?: string;
+  button_text_color?: string;
+  secondary_bg_color?: string;
+}
+
+export interface TelegramBackButton {
+  isVisible: boolean;
+  show: () => void;
+  hide: () => void;
+  onClick: (callback: () => void) => void;
+  offClick: (callback: () => void) => void;
+}
+
+export interface TelegramMainButton {
+  text: string;
+  isVisible: boolean;
+  isActive: boolean;
+  isProgressVisible: boolean;
+  setText: (text: string) => void;
+  show: () => void;
+  hide: () => void;
+  enable: () => void;
+  disable: () => void;
+  showProgress: (leaveActive?: boolean) => void;
+  hideProgress: () => void;
+  onClick: (callback: () => void) => void;
+  offClick: (callback: () => void) => void;
+}
+
+export interface TelegramHapticFeedback {
+  impactOccurred: (style: 'light' | 'medium' | 'heavy' | 'rigid' | 'soft') => void;
+  notificationOccurred: (type: 'error' | 'success' | 'warning') => void;
+  selectionChanged: () => void;
+}
+
+export interface TelegramWebApp {
+  initData: string;
+  initDataUnsafe: {
+    user?: TelegramWebAppUser;
+    auth_date?: number;
+    hash?: string;
+  };
+  version: string;
+  platform: string;
+  colorScheme: 'light' | 'dark';
+  themeParams: TelegramThemeParams;
+  BackButton: TelegramBackButton;
+  MainButton: TelegramMainButton;
+  HapticFeedback: TelegramHapticFeedback;
+  isVersionAtLeast: (version: string) => boolean;
+  onEvent: (eventType: 'themeChanged', callback: () => void) => void;
+  offEvent: (eventType: 'themeChanged', callback: () => void) => void;
+  ready: () => void;
+  expand: () => void;
+  close: () => void;
+}
+
+declare global {
+  interface Window {
+    Telegram?: {
+      WebApp?: TelegramWebApp;
+    };
+  }
+}
+
+// Telegram signs initData with auth_date; the backend refuses data older than this
+const INIT_DATA_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+export const getTelegramWebApp = (): TelegramWebApp | null => {
+  if (typeof window === 'undefined') return null;
+  return window.Telegram?.WebApp ?? null;
+};
+
+export type InitDataStatus =
+  | { status: 'ok'; initData: string }
+  | { status: 'missing' }
+  | { status: 'expired' };
+
+// Read the signed initData string Telegram passes to the mini app
+export const getTelegramInitData = (): InitDataStatus => {
+  const webApp = getTelegramWebApp();
+  const initData = webApp?.initData;
+
+  // initData is an empty string when the page is opened outside Telegram
+  if (!initData) {
+    return { status: 'missing' };
+  }
+
+  const authDate = Number(new URLSearchParams(initData).get('auth_date'));
+  if (Number.isFinite(authDate) && authDate > 0) {
+    const ageSeconds = Date.now() / 1000 - authDate;
+    if (ageSeconds > INIT_DATA_MAX_AGE_SECONDS) {
+      return { status: 'expired' };
+    }
+  }
+
+  return { status: 'ok', initData };
+};
+
+// The SDK script also loads in a normal browser (empty initData, version 6.0) - the native
+// buttons and haptics only exist inside Telegram, so callers fall back to in-page UI
+export const getNativeWebApp = (minVersion: string = '6.0'): TelegramWebApp | null => {
+  const webApp = getTelegramWebApp();
+  if (!webApp?.initData) return null;
+  return webApp.isVersionAtLeast(minVersion) ? webApp : null;
+};
+
+// themeParams key -> CSS variable read by the `tg` colors in tailwind.config.js
+const THEME_VARIABLES: Record<keyof TelegramThemeParams, string> = {
+  bg_color: '--tg-bg',
+  text_color: '--tg-text',
+  hint_color: '--tg-hint',
+  link_color: '--tg-link',
+  button_color: '--tg-button',
+  button_text_color: '--tg-button-text',
+  secondary_bg_color: '--tg-secondary-bg',
+};
+
+// Copy Telegram's theme onto the page; missing params keep the defaults from globals.css
+const applyTheme = (webApp: TelegramWebApp) => {
+  const root = document.documentElement;
+  (Object.keys(THEME_VARIABLES) as (keyof TelegramThemeParams)[]).forEach((param) => {
+    const color = webApp.themeParams[param];
+    if (color) {
+      root.style.setProperty(THEME_VARIABLES[param], color);
+    }
+  });
+  root.style.colorScheme = webApp.colorScheme;
+};
+
+let initialized = false;
+
+// Tell Telegram the app has loaded, take the full height and follow its theme. Safe to call repeatedly.
+export const initTelegramWebApp = () => {
+  const webApp = getNativeWebApp();
+  if (!webApp || initialized) return;
+  initialized = true;
+
+  webApp.ready();
+  webApp.expand();
+  applyTheme(webApp);
+  webApp.onEvent('themeChanged', () => applyTheme(webApp));
+};
+
+// Haptic feedback (Bot API 6.1+); does nothing outside Telegram
+export const haptic = {
+  impact: (style: 'light' | 'medium' | 'heavy' = 'light') => {
+    getNativeWebApp('6.1')?.HapticFeedback.impactOccurred(style);
+  },
+  notify: (type: 'error' | 'success' | 'warning') => {
+    getNativeWebApp('6.1')?.HapticFeedback.notificationOccurred(type);
+  },
+  selection: () => {
+    getNativeWebApp('6.1')?.HapticFeedback.selectionChanged();
+  },
+};
@@ -1,32 +1,89 @@
 import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { AutoJoinSettings } from '@/lib/autoJoin';
 
 interface GameState {
-  currentView: 'selection' | 'cards' | 'play' | 'wallet' | 'deposit' | 'withdraw' | 'history';
   selectedGameType: number | null; // Bet amount
-  selectedGameTypeString: string | null; // Game type string (G1-G7)
-  selectedCardId: number | null;
+  selectedGameTypeString: string | null; // Game type id from the catalog (see lib/gameTypes)
+  selectedCardIds: number[]; // The player's cards in currentGameId
   currentGameId: string | null;
+  markedNumbers: Record<number, string[]>; // Per card: "B-12" keys the player marked in currentGameId
   balance: number;
-  setCurrentView: (view: 'selection' | 'cards' | 'play' | 'wallet' | 'deposit' | 'withdraw' | 'history') => void;
+  demoMode: boolean; // Lobby and card picker use play-money games and demo_balance
+  autoJoin: Record<string, AutoJoinSettings>; // "Keep playing" settings per mode and game type (see autoJoinKey)
   setSelectedGameType: (type: number | null) => void;
   setSelectedGameTypeString: (type: string | null) => void;
-  setSelectedCardId: (cardId: number | null) => void;
+  setSelectedCardIds: (cardIds: number[]) => void;
   setCurrentGameId: (gameId: string | null) => void;
+  markNumber: (cardId: number, key: string) => void;
+  clearActiveGame: () => void;
   setBalance: (balance: number) => void;
+  setDemoMode: (demoMode: boolean) => void;
+  setAutoJoin: (key: string, settings: AutoJoinSettings | null) => void;
+  recordAutoJoinRound: (key: string, bet: number) => void;
 }
 
-export const useGameStore = create<GameState>((set) => ({
-  currentView: 'selection',
-  selectedGameType: null,
-  selectedGameTypeString: null,
-  selectedCardId: null,
-  currentGameId: null,
-  balance: 0,
-  setCurrentView: (view) => set({ currentView: view }),
-  setSelectedGameType: (type) => set({ selectedGameType: type }),
-  setSelectedGameTypeString: (type) => set({ selectedGameTypeString: type }),
-  setSelectedCardId: (cardId) => set({ selectedCardId: cardId }),
-  setCurrentGameId: (gameId) => set({ currentGameId: gameId }),
-  setBalance: (balance) => set({ balance }),
-}));
+const GAME_STORAGE_KEY = 'biruh.game';
 
+// The active game is kept in localStorage so a webview reload (or reopening the app)
+// can put the player back on their board with their marks
+export const useGameStore = create<GameState>()(
+  persist(
+    (set) => ({
+      selectedGameType: null,
+      selectedGameTypeString: null,
+      selectedCardIds: [],
+      currentGameId: null,
+      markedNumbers: {},
+      balance: 0,
+      demoMode: false,
+      autoJoin: {},
+      setSelectedGameType: (type) => set({ selectedGameType: type }),
+      setSelectedGameTypeString: (type) => set({ selectedGameTypeString: type }),
+      setSelectedCardIds: (cardIds) => set({ selectedCardIds: cardIds }),
+      // Marks belong to one game - switching games starts clean cards
+      setCurrentGameId: (gameId) =>
+        set((state) => (state.currentGameId === gameId ? state : { currentGameId: gameId, markedNumbers: {} })),
+      markNumber: (cardId, key) =>
+        set((state) => {
+          const marked = state.markedNumbers[cardId] ?? [];
+          if (marked.includes(key)) return state;
+          return { markedNumbers: { ...state.markedNumbers, [cardId]: [...marked, key] } };
+        }),
+      clearActiveGame: () => set({ currentGameId: null, selectedCardIds: [], markedNumbers: {} }),
+      setBalance: (balance) => set({ balance }),
+      setDemoMode: (demoMode) => set({ demoMode }),
+      setAutoJoin: (key, settings) =>
+        set((state) => {
+          const autoJoin = { ...state.autoJoin };
+          if (settings) autoJoin[key] = settings;
+          else delete autoJoin[key];
+          return { autoJoin };
+        }),
+      recordAutoJoinRound: (key, bet) =>
+        set((state) => {
+          const settings = state.autoJoin[key];
+          if (!settings) return state;
+          return {
+            autoJoin: {
+              ...state.autoJoin,
+              [key]: { ...settings, rounds: settings.rounds + 1, spent: settings.spent + bet },
+            },
+          };
+        }),
+    }),
+    {
+      name: GAME_STORAGE_KEY,
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({
+        selectedGameType: state.selectedGameType,
+        selectedGameTypeString: state.selectedGameTypeString,
+        selectedCardIds: state.selectedCardIds,
+        currentGameId: state.currentGameId,
+        markedNumbers: state.markedNumbers,
+        demoMode: state.demoMode,
+        autoJoin: state.autoJoin,
+      }),
+    }
+  )
+);
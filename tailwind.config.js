@@ -15,6 +15,16 @@ module.exports = {
           600: '#0284c7',
           700: '#0369a1',
         },
+        // Telegram themeParams, exposed as CSS variables in globals.css
+        tg: {
+          bg: 'var(--tg-bg)',
+          text: 'var(--tg-text)',
+          hint: 'var(--tg-hint)',
+          link: 'var(--tg-link)',
+          button: 'var(--tg-button)',
+          'button-text': 'var(--tg-button-text)',
+          'secondary-bg': 'var(--tg-secondary-bg)',
+        },
       },
     },
   },